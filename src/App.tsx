@@ -1,37 +1,137 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import { InputForm } from './components/InputForm';
 import { BeamVisualization } from './components/BeamVisualization';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { ExportModal } from './components/ExportModal';
-import type { BeamInput, BeamResults } from './types/beam';
-import { DEFAULT_BEAM_INPUT } from './types/beam';
-import { analyzeBeam } from './utils/beamCalculations';
+import { DesignPanel } from './components/DesignPanel';
+import { DeflectionPlot } from './components/DeflectionPlot';
+import { MomentCurvaturePlot } from './components/MomentCurvaturePlot';
+import { InteractionDiagram } from './components/InteractionDiagram';
+import { BeamList } from './components/BeamList';
+import { BeamSchedule } from './components/BeamSchedule';
+import { ScheduleImport } from './components/ScheduleImport';
+import type { BeamInput, BeamResults, ProjectInfo, Workspace } from './types/beam';
+import type { BarCombination } from './utils/beamCalculations';
+import { formatCodeName, getDesignCode } from './utils/designCodes';
+import type { ProjectFileError } from './utils/projectFile';
+import { openProjectFile, saveProjectFile } from './utils/projectFile';
+import { calculateLayerDepths } from './utils/reinforcement';
+import type { ScheduleImportState } from './utils/scheduleImport';
+import { applyBeamHash, decodeBeamHash, encodeBeamHash } from './utils/urlState';
+import {
+  addBeam,
+  calculateBeamResults,
+  deleteBeam,
+  duplicateBeam,
+  getActiveBeam,
+  loadWorkspace,
+  openBeam,
+  renameBeam,
+  storeWorkspace,
+  updateActiveInput,
+} from './utils/workspace';
 import './App.css';
 
+// Problems shown above the workspace, e.g. from a bad project file or link
+interface Notice {
+  title: string;
+  errors: ProjectFileError[];
+}
+
+const LINK_NOTICE_TITLE = 'The shared link could not be read, so the default beam is shown:';
+const STORAGE_NOTICE_TITLE = 'Part of the saved workspace could not be read; those values were reset and the original kept as a backup in browser storage:';
+
 function App() {
-  const [input, setInput] = useState<BeamInput>(DEFAULT_BEAM_INPUT);
-  const [results, setResults] = useState<BeamResults | null>(null);
+  // Open the beam of a shared link, if the page was loaded from one
+  const [loaded] = useState(loadWorkspace);
+  const [initial] = useState(() => applyBeamHash(loaded.workspace, window.location.hash));
+  const [workspace, setWorkspace] = useState<Workspace>(initial.workspace);
+  const [mode, setMode] = useState<'analysis' | 'design' | 'schedule'>('analysis');
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(() => {
+    if (initial.errors.length > 0) return { title: LINK_NOTICE_TITLE, errors: initial.errors };
+    if (loaded.errors.length > 0) return { title: STORAGE_NOTICE_TITLE, errors: loaded.errors };
+    return null;
+  });
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [scheduleImport, setScheduleImport] = useState<ScheduleImportState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Calculate results whenever input changes
+  // Keep the workspace in browser storage across reloads
   useEffect(() => {
-    // Validate input before calculating
-    if (
-      input.b > 0 &&
-      input.h > 0 &&
-      input.d > 0 &&
-      input.d <= input.h &&
-      input.fc > 0 &&
-      input.fy > 0 &&
-      input.Es > 0 &&
-      input.As > 0
-    ) {
-      const newResults = analyzeBeam(input);
-      setResults(newResults);
+    storeWorkspace(workspace);
+  }, [workspace]);
+
+  // The forms edit the selected beam
+  const { input, name } = getActiveBeam(workspace);
+
+  // Keep the URL hash in step with the selected beam so the address can be shared
+  useEffect(() => {
+    const hash = encodeBeamHash(input, name);
+    if (window.location.hash !== hash) {
+      window.history.replaceState(null, '', hash);
+    }
+  }, [input, name]);
+
+  // Open links pasted into the address bar of an open page
+  useEffect(() => {
+    const handleHashChange = () => {
+      const hash = window.location.hash;
+      const decoded = decodeBeamHash(hash);
+      if (decoded.kind === 'none') return;
+      setWorkspace((current) => applyBeamHash(current, hash).workspace);
+      setNotice(decoded.kind === 'invalid' ? { title: LINK_NOTICE_TITLE, errors: decoded.errors } : null);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const project = workspace.project;
+  const setInput = (next: BeamInput) => setWorkspace((current) => updateActiveInput(current, next));
+  const setProject = (next: ProjectInfo) => setWorkspace((current) => ({ ...current, project: next }));
+  const selectBeam = (id: string) => setWorkspace((current) => ({ ...current, activeId: id }));
+
+  // Calculate results whenever input changes
+  const results = useMemo<BeamResults | null>(() => calculateBeamResults(input), [input]);
+
+  const designCode = getDesignCode(input.designCode);
+  const codeName = formatCodeName(designCode, input.unitSystem);
+
+  // Load a proposed bar combination on the tension face and verify it in the analysis mode
+  const handleSelectCombination = (combination: BarCombination) => {
+    const layers = [{ barSize: combination.barSize, count: combination.count, depth: 0 }];
+    const isNegative = input.momentSign === 'negative';
+    const placed = calculateLayerDepths(
+      isNegative ? 'compression' : 'tension', layers, input.h, input.clearCover, input.stirrupBar, input.unitSystem
+    );
+    setInput(isNegative ? { ...input, compressionLayers: placed } : { ...input, tensionLayers: placed });
+    setMode('analysis');
+  };
+
+  // Open a saved project file; a malformed file leaves the current workspace unchanged
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const opened = await openProjectFile(file);
+    if (opened.ok) {
+      setWorkspace(opened.workspace);
+      setNotice(null);
     } else {
-      setResults(null);
+      setNotice({ title: 'The project file could not be opened:', errors: opened.errors });
+    }
+  };
+
+  // Copy the address of the selected beam, which the hash keeps up to date
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying the link:', error);
     }
-  }, [input]);
+  };
 
   return (
     <div className="app">
@@ -41,13 +141,70 @@ function App() {
             <span className="logo-icon">&#9632;</span>
             <div className="logo-text">
               <h1>Beam Section Calculator</h1>
-              <span className="subtitle">ACI 318-19 Flexural Analysis</span>
+              <span className="subtitle">{codeName} Flexural Analysis</span>
             </div>
           </div>
           <div className="header-actions">
+            <div className="mode-toggle" role="tablist">
+              <button
+                className={mode === 'analysis' ? 'active' : ''}
+                onClick={() => setMode('analysis')}
+                role="tab"
+                aria-selected={mode === 'analysis'}
+              >
+                Analysis
+              </button>
+              <button
+                className={mode === 'design' ? 'active' : ''}
+                onClick={() => setMode('design')}
+                role="tab"
+                aria-selected={mode === 'design'}
+              >
+                Design
+              </button>
+              <button
+                className={mode === 'schedule' ? 'active' : ''}
+                onClick={() => setMode('schedule')}
+                role="tab"
+                aria-selected={mode === 'schedule'}
+              >
+                Schedule
+              </button>
+            </div>
+            <div className="mode-toggle" role="tablist" aria-label="Unit system">
+              <button
+                className={input.unitSystem === 'US' ? 'active' : ''}
+                onClick={() => setInput({ ...input, unitSystem: 'US' })}
+                role="tab"
+                aria-selected={input.unitSystem === 'US'}
+                title="US customary units (in, psi, kip-ft)"
+              >
+                US
+              </button>
+              <button
+                className={input.unitSystem === 'SI' ? 'active' : ''}
+                onClick={() => setInput({ ...input, unitSystem: 'SI' })}
+                role="tab"
+                aria-selected={input.unitSystem === 'SI'}
+                title="SI units (mm, MPa, kN·m)"
+              >
+                SI
+              </button>
+            </div>
             <div className="header-info">
               <span className="badge">Reinforced Concrete</span>
-              <span className="badge">US Customary Units</span>
+            </div>
+            <div className="file-actions">
+              <button onClick={() => saveProjectFile(workspace)} title="Save the beams and project details to a JSON file">
+                Save
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} title="Open a saved project file">
+                Open
+              </button>
+              <button onClick={handleCopyLink} title={`Copy a link to ${name} for sharing`}>
+                {isLinkCopied ? 'Copied' : 'Copy link'}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleOpenFile} hidden />
             </div>
             <button
               className="export-btn"
@@ -63,27 +220,85 @@ function App() {
       </header>
 
       <main className="app-main">
-        <div className="main-content">
-          <div className="left-panel">
-            <section className="panel-section">
-              <h2>Input Parameters</h2>
-              <InputForm input={input} onChange={setInput} />
-            </section>
+        {notice && (
+          <div className="notice" role="alert">
+            <div className="notice-header">
+              <strong>{notice.title}</strong>
+              <button onClick={() => setNotice(null)} aria-label="Dismiss">&times;</button>
+            </div>
+            <ul>
+              {notice.errors.map(({ field, message }) => (
+                <li key={`${field}-${message}`}>
+                  <code>{field}</code> {message}
+                </li>
+              ))}
+            </ul>
           </div>
-
-          <div className="center-panel">
-            <section className="panel-section visualization-section">
-              <BeamVisualization input={input} results={results} />
-            </section>
+        )}
+        <BeamList
+          workspace={workspace}
+          onSelect={selectBeam}
+          onAdd={() => setWorkspace(addBeam)}
+          onDuplicate={(id) => setWorkspace((current) => duplicateBeam(current, id))}
+          onRename={(id, name) => setWorkspace((current) => renameBeam(current, id, name))}
+          onDelete={(id) => setWorkspace((current) => deleteBeam(current, id))}
+        />
+        {mode === 'schedule' ? (
+          <>
+            <BeamSchedule
+              workspace={workspace}
+              units={input.unitSystem}
+              onSelect={(id) => {
+                selectBeam(id);
+                setMode('analysis');
+              }}
+            />
+            <ScheduleImport
+              state={scheduleImport}
+              onChange={setScheduleImport}
+              units={input.unitSystem}
+              designCode={input.designCode}
+              onInspect={(beamName, beamInput) => {
+                setWorkspace((current) => openBeam(current, beamName, beamInput));
+                setMode('analysis');
+              }}
+            />
+          </>
+        ) : mode === 'design' ? (
+          <div className="main-content design-mode">
+            <DesignPanel
+              key={workspace.activeId}
+              input={input}
+              onChange={setInput}
+              onSelectCombination={handleSelectCombination}
+            />
           </div>
+        ) : (
+          <div className="main-content">
+            <div className="left-panel">
+              <section className="panel-section">
+                <h2>Input Parameters</h2>
+                <InputForm input={input} onChange={setInput} />
+              </section>
+            </div>
 
-          <div className="right-panel">
-            <section className="panel-section">
-              <h2>Analysis Results</h2>
-              <ResultsDisplay results={results} />
-            </section>
+            <div className="center-panel">
+              <section className="panel-section visualization-section">
+                <BeamVisualization input={input} results={results} />
+                <DeflectionPlot input={input} results={results} />
+                <MomentCurvaturePlot input={input} results={results} />
+                <InteractionDiagram input={input} results={results} />
+              </section>
+            </div>
+
+            <div className="right-panel">
+              <section className="panel-section">
+                <h2>Analysis Results</h2>
+                <ResultsDisplay results={results} units={input.unitSystem} />
+              </section>
+            </div>
           </div>
-        </div>
+        )}
       </main>
 
       <footer className="app-footer">
@@ -93,7 +308,7 @@ function App() {
             All designs must be verified by a licensed professional engineer.
           </p>
           <p className="footer-reference">
-            Reference: ACI 318-19 Building Code Requirements for Structural Concrete
+            Reference: {codeName} {designCode.title}
           </p>
         </div>
       </footer>
@@ -105,6 +320,9 @@ function App() {
           onClose={() => setIsExportModalOpen(false)}
           input={input}
           results={results}
+          workspace={workspace}
+          project={project}
+          onProjectChange={setProject}
         />
       )}
     </div>
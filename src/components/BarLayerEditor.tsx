@@ -0,0 +1,95 @@
+import type { BarLayer, BeamInput } from '../types/beam';
+import { REBAR_AREAS } from '../types/beam';
+import { calculateLayerArea, calculateLayerDepths } from '../utils/reinforcement';
+import { formatBarSize, formatQuantity, toCustomary, toInputValue, unitLabel } from '../utils/units';
+
+interface BarLayerEditorProps {
+  face: 'tension' | 'compression';
+  layers: BarLayer[];
+  input: BeamInput;
+  onChange: (layers: BarLayer[]) => void;
+}
+
+export function BarLayerEditor({ face, layers, input, onChange }: BarLayerEditorProps) {
+  const units = input.unitSystem;
+
+  const updateLayer = (index: number, changes: Partial<BarLayer>) => {
+    onChange(layers.map((layer, i) => (i === index ? { ...layer, ...changes } : layer)));
+  };
+
+  const removeLayer = (index: number) => {
+    onChange(layers.filter((_, i) => i !== index));
+  };
+
+  const autoDepths = (next: BarLayer[]) =>
+    calculateLayerDepths(face, next, input.h, input.clearCover, input.stirrupBar, units);
+
+  // New layers are stacked inside the existing ones, then all depths are recalculated
+  const addLayer = () => {
+    const barSize = layers.length > 0 ? layers[layers.length - 1].barSize : '#8';
+    onChange(autoDepths([...layers, { barSize, count: 2, depth: 0 }]));
+  };
+
+  return (
+    <div className="bar-layer-list">
+      {layers.map((layer, index) => (
+        <div key={index} className="bar-layer-row">
+          <span className="bar-layer-index">{index + 1}</span>
+          <input
+            aria-label={`Layer ${index + 1} bar count`}
+            type="number"
+            value={layer.count}
+            onChange={(e) => updateLayer(index, { count: parseInt(e.target.value) || 0 })}
+            min={0}
+            max={20}
+          />
+          <select
+            aria-label={`Layer ${index + 1} bar size`}
+            value={layer.barSize}
+            onChange={(e) => updateLayer(index, { barSize: e.target.value })}
+          >
+            {Object.keys(REBAR_AREAS).map((bar) => (
+              <option key={bar} value={bar}>{formatBarSize(bar, units)}</option>
+            ))}
+          </select>
+          <span>@</span>
+          <input
+            aria-label={`Layer ${index + 1} depth`}
+            className="bar-layer-depth"
+            type="number"
+            value={toInputValue(layer.depth, 'length', units)}
+            onChange={(e) => updateLayer(index, { depth: toCustomary(parseFloat(e.target.value) || 0, 'length', units) })}
+            min={0}
+            step={units === 'SI' ? 5 : 0.25}
+          />
+          <span>{unitLabel('length', units)}</span>
+          <span className="bar-layer-area">{formatQuantity(calculateLayerArea(layer), 'area', units, 2)}</span>
+          <button
+            type="button"
+            className="remove-layer-btn"
+            onClick={() => removeLayer(index)}
+            title="Remove this layer"
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+
+      <div className="bar-layer-actions">
+        <button type="button" className="calc-btn" onClick={addLayer}>
+          + Add Layer
+        </button>
+        {layers.length > 0 && (
+          <button
+            type="button"
+            className="calc-btn"
+            onClick={() => onChange(autoDepths(layers))}
+            title="Place layers from the clear cover and stirrup size"
+          >
+            Auto Depths
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
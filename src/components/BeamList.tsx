@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { Workspace } from '../types/beam';
+import './BeamList.css';
+
+interface BeamListProps {
+  workspace: Workspace;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function BeamList({ workspace, onSelect, onAdd, onDuplicate, onRename, onDelete }: BeamListProps) {
+  const { beams, activeId } = workspace;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const active = beams.find(({ id }) => id === activeId) ?? beams[0];
+
+  const startRename = () => {
+    setEditingId(active.id);
+    setDraftName(active.name);
+  };
+
+  const finishRename = () => {
+    if (editingId) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="beam-list">
+      <div className="beam-tabs" role="tablist" aria-label="Beams">
+        {beams.map((beam) =>
+          beam.id === editingId ? (
+            <input
+              key={beam.id}
+              className="beam-name-input"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              aria-label="Beam name"
+              autoFocus
+            />
+          ) : (
+            <button
+              key={beam.id}
+              className={beam.id === active.id ? 'active' : ''}
+              onClick={() => onSelect(beam.id)}
+              onDoubleClick={startRename}
+              role="tab"
+              aria-selected={beam.id === active.id}
+              title="Double-click to rename"
+            >
+              {beam.name}
+            </button>
+          )
+        )}
+      </div>
+      <div className="beam-actions">
+        <button onClick={onAdd} title="Add a new beam">+ Add</button>
+        <button onClick={() => onDuplicate(active.id)} title={`Copy ${active.name}`}>Duplicate</button>
+        <button onClick={startRename} title={`Rename ${active.name}`}>Rename</button>
+        <button
+          className="danger"
+          onClick={() => {
+            if (window.confirm(`Delete ${active.name}?`)) onDelete(active.id);
+          }}
+          disabled={beams.length === 1}
+          title={beams.length === 1 ? 'A project needs at least one beam' : `Delete ${active.name}`}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
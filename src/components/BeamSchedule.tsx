@@ -0,0 +1,87 @@
+import type { UnitSystem, Workspace } from '../types/beam';
+import { formatNumber, orientSection } from '../utils/beamCalculations';
+import { describeLayers } from '../utils/reinforcement';
+import { fromCustomary, unitLabel } from '../utils/units';
+import { calculateBeamResults, isBeamAdequate } from '../utils/workspace';
+import './BeamSchedule.css';
+
+interface BeamScheduleProps {
+  workspace: Workspace;
+  units: UnitSystem;
+  onSelect: (id: string) => void; // open a beam in the analysis mode
+}
+
+export function BeamSchedule({ workspace, units, onSelect }: BeamScheduleProps) {
+  const rows = workspace.beams.map((beam) => {
+    const { input } = beam;
+    const section = orientSection(input);
+    const results = calculateBeamResults(input);
+    return { beam, section, results, isAdequate: isBeamAdequate(results) };
+  });
+
+  const failing = rows.filter(({ isAdequate }) => !isAdequate).length;
+  const length = (value: number) => formatNumber(fromCustomary(value, 'length', units), units === 'SI' ? 0 : 1);
+  const moment = (value: number) => formatNumber(fromCustomary(value, 'moment', units), 1);
+
+  return (
+    <div className="beam-schedule">
+      <section className="panel-section">
+        <h2>Beam Schedule</h2>
+        <p className="schedule-summary">
+          {rows.length} beam{rows.length > 1 ? 's' : ''}
+          {failing > 0 ? `, ${failing} not satisfied` : ', all satisfied'}. Select a row to open the beam.
+        </p>
+        <table className="schedule-table">
+          <thead>
+            <tr>
+              <th>Beam</th>
+              <th>b {'\u00D7'} h ({unitLabel('length', units)})</th>
+              <th>Tension steel</th>
+              <th>Compression steel</th>
+              <th>{'\u03D5'}Mn ({unitLabel('moment', units)})</th>
+              <th>Mu ({unitLabel('moment', units)})</th>
+              <th>D/C</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ beam, section, results, isAdequate }) => (
+              <tr
+                key={beam.id}
+                className={beam.id === workspace.activeId ? 'active' : ''}
+                onClick={() => onSelect(beam.id)}
+              >
+                <td className="beam-name">
+                  {beam.name}
+                  {beam.input.momentSign === 'negative' && <span className="schedule-tag">{'\u2212'}M</span>}
+                </td>
+                <td>
+                  {length(beam.input.b)} {'\u00D7'} {length(beam.input.h)}
+                  {beam.input.sectionShape !== 'rectangular' && ` (${beam.input.sectionShape})`}
+                </td>
+                <td>{describeLayers(section.tensionLayers, units)}</td>
+                <td>{describeLayers(section.compressionLayers, units)}</td>
+                <td>{results ? moment(results.phiMn_kip_ft) : '\u2014'}</td>
+                <td>{beam.input.Mu > 0 ? moment(beam.input.Mu) : '\u2014'}</td>
+                <td>
+                  {results?.interaction
+                    ? formatNumber(results.interaction.demandCapacityRatio, 3)
+                    : results?.hasMomentDemand ? formatNumber(results.demandCapacityRatio, 3) : '\u2014'}
+                </td>
+                <td>
+                  <span className={`schedule-status ${isAdequate ? 'pass' : 'fail'}`}>
+                    {results ? (isAdequate ? '\u2713 OK' : '\u2717 NG') : 'Incomplete'}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="schedule-note">
+          Status is NG when Mu exceeds the design capacity, the axial load lies outside the interaction
+          diagram, or the analysis reports an input error. Each beam is checked to its own design code.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
-import type { BeamInput, BeamResults } from '../types/beam';
+import type { BarLayer, BeamInput, BeamResults } from '../types/beam';
+import { REBAR_DIAMETERS } from '../types/beam';
+import { calculateEffectiveFlangeWidth, orientSection } from '../utils/beamCalculations';
+import { summarizeReinforcement } from '../utils/reinforcement';
+import { formatQuantity, fromCustomary } from '../utils/units';
 import './BeamVisualization.css';
 
 interface BeamVisualizationProps {
@@ -7,7 +11,24 @@ interface BeamVisualizationProps {
 }
 
 export function BeamVisualization({ input, results }: BeamVisualizationProps) {
-  const { b, h, d, d_prime, As, As_prime } = input;
+  const { b, h } = input;
+  const d = Number(summarizeReinforcement(orientSection(input)).d.toFixed(2));
+
+  // Negative bending puts the compression face at the bottom of the section
+  const isNegative = input.momentSign === 'negative';
+
+  // Dimension labels: inch marks in US units, whole millimetres in SI
+  const dimension = (value: number, decimals?: number) => input.unitSystem === 'SI'
+    ? `${Math.round(fromCustomary(value, 'length', 'SI'))} mm`
+    : `${decimals === undefined ? value : value.toFixed(decimals)}"`;
+
+  // Flanged sections draw the effective flange width used in the analysis
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const hf = isFlanged ? input.hf : 0;
+  const flangeWidth = isFlanged
+    ? calculateEffectiveFlangeWidth(input.sectionShape, b, input.bf, input.hf, input.spanLength, input.webClearSpacing)
+    : b;
+  const totalWidth = Math.max(flangeWidth, b);
 
   // SVG dimensions and scaling
   const svgWidth = 300;
@@ -18,26 +39,124 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
   // Calculate scale to fit beam in SVG
   const maxBeamWidth = svgWidth - 2 * padding - dimOffset;
   const maxBeamHeight = svgHeight - 2 * padding - dimOffset;
-  const scale = Math.min(maxBeamWidth / b, maxBeamHeight / h);
+  const scale = Math.min(maxBeamWidth / totalWidth, maxBeamHeight / h);
 
   // Scaled dimensions
-  const beamW = b * scale;
+  const beamW = totalWidth * scale;
   const beamH = h * scale;
+  const flangeH = hf * scale;
 
   // Position beam centered
   const beamX = (svgWidth - beamW - dimOffset) / 2 + dimOffset;
   const beamY = padding;
 
-  // Calculate positions
-  const effectiveDepthY = beamY + d * scale;
-  const compressionSteelY = beamY + d_prime * scale;
-  const neutralAxisY = results ? beamY + results.c * scale : 0;
-  const stressBlockY = results ? beamY + results.a * scale : 0;
+  // Web position: centered for T-beams, flush with the left edge for L-beams
+  const webW = b * scale;
+  const webX = input.sectionShape === 'T' ? beamX + (beamW - webW) / 2 : beamX;
+
+  // Section outline (flange on top of web for T/L shapes)
+  const outlinePoints = isFlanged
+    ? [
+        [beamX, beamY],
+        [beamX + beamW, beamY],
+        [beamX + beamW, beamY + flangeH],
+        [webX + webW, beamY + flangeH],
+        [webX + webW, beamY + beamH],
+        [webX, beamY + beamH],
+        [webX, beamY + flangeH],
+        [beamX, beamY + flangeH],
+      ]
+    : [
+        [beamX, beamY],
+        [beamX + beamW, beamY],
+        [beamX + beamW, beamY + beamH],
+        [beamX, beamY + beamH],
+      ];
+
+  // Stress block outline: full width within the flange, web width below it
+  // (web width from the bottom face in negative bending)
+  const stressDepth = results ? Math.min(results.a * scale, beamH) : 0;
+  const stressBlockPoints = isNegative
+    ? [
+        [webX, beamY + beamH - stressDepth],
+        [webX + webW, beamY + beamH - stressDepth],
+        [webX + webW, beamY + beamH],
+        [webX, beamY + beamH],
+      ]
+    : isFlanged && stressDepth > flangeH
+    ? [
+        [beamX, beamY],
+        [beamX + beamW, beamY],
+        [beamX + beamW, beamY + flangeH],
+        [webX + webW, beamY + flangeH],
+        [webX + webW, beamY + stressDepth],
+        [webX, beamY + stressDepth],
+        [webX, beamY + flangeH],
+        [beamX, beamY + flangeH],
+      ]
+    : [
+        [beamX, beamY],
+        [beamX + beamW, beamY],
+        [beamX + beamW, beamY + stressDepth],
+        [beamX, beamY + stressDepth],
+      ];
+
+  const toPoints = (points: number[][]) => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+  // Calculate positions of depths measured from the compression face
+  const compressionY = (depth: number) => isNegative ? beamY + beamH - depth * scale : beamY + depth * scale;
+  const compressionFaceY = compressionY(0);
+  const effectiveDepthY = compressionY(d);
+  const neutralAxisY = results ? compressionY(results.c) : 0;
+  const stressBlockY = results ? compressionY(results.a) : 0;
+
+  // Stirrup outline at the clear cover, within the web
+  const stirrupDiameter = REBAR_DIAMETERS[input.stirrupBar] ?? 0;
+  const stirrupInset = (input.clearCover + stirrupDiameter / 2) * scale;
+
+  // Stirrups and bar layers flagged by the detailing checks
+  const flagged = results
+    ? results.warnings.filter((item) => item.target && item.severity !== 'note')
+    : [];
+  const isStirrupFlagged = flagged.some(({ target }) => target?.kind === 'stirrup');
+  const isLayerFlagged = (face: 'tension' | 'compression', index: number) =>
+    flagged.some(({ target }) => target?.kind === 'layer' && target.face === face && target.index === index);
+
+  // Fiber-section stress profile drawn over the code stress block on a common stress scale
+  const fiber = results?.fiber ?? null;
+  const blockStress = results ? results.alpha1 * results.phi_c * input.fc : 0;
+  const stressScale = fiber ? 80 / Math.max(blockStress, fiber.fc_peak) : 0;
+
+  // Strain and stress diagrams span y = 20 to 180, compression face first
+  const diagramY = (depth: number) => {
+    const offset = (Math.min(depth, h) / h) * 160;
+    return isNegative ? 180 - offset : 20 + offset;
+  };
 
-  // Steel bar representation (simplified)
-  const barRadius = Math.max(4, Math.min(10, Math.sqrt(As) * 4));
-  const numBars = Math.min(5, Math.max(2, Math.round(As / 0.5)));
-  const barSpacing = (beamW - 2 * barRadius - 20) / (numBars - 1);
+  // Bars are spaced evenly between the inside faces of the stirrup legs
+  const layerBars = (layer: BarLayer) => {
+    const db = REBAR_DIAMETERS[layer.barSize] ?? 0;
+    const edge = (input.clearCover + stirrupDiameter + db / 2) * scale;
+    const spacing = layer.count > 1 ? (webW - 2 * edge) / (layer.count - 1) : 0;
+    return Array.from({ length: layer.count }).map((_, i) => ({
+      cx: layer.count > 1 ? webX + edge + i * spacing : webX + webW / 2,
+      cy: beamY + layer.depth * scale,
+      r: Math.max(2, (db / 2) * scale),
+    }));
+  };
+
+  // Slab bars in tension in negative bending, spread over the flange overhangs within be
+  const slabBarCount = isNegative && isFlanged && results ? results.slabBarCount : 0;
+  const overhangs = input.sectionShape === 'T'
+    ? [[beamX, webX, Math.ceil(slabBarCount / 2)], [webX + webW, beamX + beamW, Math.floor(slabBarCount / 2)]]
+    : [[webX + webW, beamX + beamW, slabBarCount]];
+  const slabBars = overhangs.flatMap(([x1, x2, count]) =>
+    Array.from({ length: count }).map((_, i) => ({
+      cx: x1 + ((i + 0.5) * (x2 - x1)) / count,
+      cy: beamY + input.slabDepth * scale,
+      r: Math.max(1.5, ((REBAR_DIAMETERS[input.slabBar] ?? 0) / 2) * scale),
+    }))
+  );
 
   return (
     <div className="beam-visualization">
@@ -62,24 +181,19 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
         </defs>
 
         {/* Beam outline with concrete pattern */}
-        <rect
-          x={beamX}
-          y={beamY}
-          width={beamW}
-          height={beamH}
+        <polygon
+          points={toPoints(outlinePoints)}
           fill="url(#concretePattern)"
           stroke="#4a5568"
           strokeWidth="2"
-          rx="2"
+          strokeLinejoin="round"
         />
 
         {/* Stress block (if results available) */}
         {results && results.a <= h && results.a > 0 && (
-          <rect
-            x={beamX}
-            y={beamY}
-            width={beamW}
-            height={Math.min(results.a * scale, beamH)}
+          <polygon
+            className="stress-block"
+            points={toPoints(stressBlockPoints)}
             fill="url(#stressBlockGradient)"
             stroke="#e53e3e"
             strokeWidth="1"
@@ -111,9 +225,9 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
 
         {/* Effective depth line */}
         <line
-          x1={beamX}
+          x1={webX}
           y1={effectiveDepthY}
-          x2={beamX + beamW}
+          x2={webX + webW}
           y2={effectiveDepthY}
           stroke="#38a169"
           strokeWidth="1"
@@ -121,76 +235,123 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
           opacity="0.7"
         />
 
+        {/* Stirrup */}
+        <rect
+          x={webX + stirrupInset}
+          y={beamY + stirrupInset}
+          width={Math.max(0, webW - 2 * stirrupInset)}
+          height={Math.max(0, beamH - 2 * stirrupInset)}
+          rx={stirrupDiameter * 2 * scale}
+          fill="none"
+          stroke={isStirrupFlagged ? '#e53e3e' : '#718096'}
+          strokeWidth={Math.max(1, stirrupDiameter * scale)}
+        />
+
         {/* Compression steel (if any) */}
-        {As_prime > 0 && (
-          <>
+        {input.compressionLayers.map((layer, layerIndex) =>
+          layerBars(layer).map((bar, i) => (
             <circle
-              cx={beamX + 15}
-              cy={compressionSteelY}
-              r={barRadius * 0.7}
-              fill="#2b6cb0"
-              stroke="#1a365d"
+              key={`c-${layerIndex}-${i}`}
+              cx={bar.cx}
+              cy={bar.cy}
+              r={bar.r}
+              fill={isLayerFlagged('compression', layerIndex) ? '#e53e3e' : '#2b6cb0'}
+              stroke={isLayerFlagged('compression', layerIndex) ? '#9b2c2c' : '#1a365d'}
               strokeWidth="1"
             />
+          ))
+        )}
+
+        {/* Tension steel bars */}
+        {input.tensionLayers.map((layer, layerIndex) =>
+          layerBars(layer).map((bar, i) => (
             <circle
-              cx={beamX + beamW - 15}
-              cy={compressionSteelY}
-              r={barRadius * 0.7}
-              fill="#2b6cb0"
-              stroke="#1a365d"
-              strokeWidth="1"
+              key={`t-${layerIndex}-${i}`}
+              cx={bar.cx}
+              cy={bar.cy}
+              r={bar.r}
+              fill={isLayerFlagged('tension', layerIndex) ? '#e53e3e' : '#2b6cb0'}
+              stroke={isLayerFlagged('tension', layerIndex) ? '#9b2c2c' : '#1a365d'}
+              strokeWidth="1.5"
             />
-          </>
+          ))
         )}
 
-        {/* Tension steel bars */}
-        {Array.from({ length: numBars }).map((_, i) => (
+        {/* Slab bars within the effective flange width */}
+        {slabBars.map((bar, i) => (
           <circle
-            key={i}
-            cx={beamX + 10 + barRadius + i * barSpacing}
-            cy={effectiveDepthY}
-            r={barRadius}
+            key={`s-${i}`}
+            cx={bar.cx}
+            cy={bar.cy}
+            r={bar.r}
             fill="#2b6cb0"
             stroke="#1a365d"
-            strokeWidth="1.5"
+            strokeWidth="1"
           />
         ))}
 
         {/* Width dimension */}
         <g className="dimension">
           <line
-            x1={beamX}
+            x1={webX}
             y1={beamY + beamH + 15}
-            x2={beamX + beamW}
+            x2={webX + webW}
             y2={beamY + beamH + 15}
             stroke="#4a5568"
             strokeWidth="1"
           />
           <line
-            x1={beamX}
+            x1={webX}
             y1={beamY + beamH + 10}
-            x2={beamX}
+            x2={webX}
             y2={beamY + beamH + 20}
             stroke="#4a5568"
             strokeWidth="1"
           />
           <line
-            x1={beamX + beamW}
+            x1={webX + webW}
             y1={beamY + beamH + 10}
-            x2={beamX + beamW}
+            x2={webX + webW}
             y2={beamY + beamH + 20}
             stroke="#4a5568"
             strokeWidth="1"
           />
           <text
-            x={beamX + beamW / 2}
+            x={webX + webW / 2}
             y={beamY + beamH + 32}
             className="dimension-text"
           >
-            b = {b}"
+            {isFlanged ? 'bw' : 'b'} = {dimension(b)}
           </text>
         </g>
 
+        {/* Flange width and thickness dimensions */}
+        {isFlanged && (
+          <g className="dimension">
+            <line
+              x1={beamX}
+              y1={beamY - 10}
+              x2={beamX + beamW}
+              y2={beamY - 10}
+              stroke="#4a5568"
+              strokeWidth="1"
+            />
+            <line x1={beamX} y1={beamY - 15} x2={beamX} y2={beamY - 5} stroke="#4a5568" strokeWidth="1" />
+            <line x1={beamX + beamW} y1={beamY - 15} x2={beamX + beamW} y2={beamY - 5} stroke="#4a5568" strokeWidth="1" />
+            <text x={beamX + beamW / 2} y={beamY - 14} className="dimension-text small">
+              be = {dimension(flangeWidth, 1)}
+            </text>
+            <text
+              x={input.sectionShape === 'T' ? beamX + 4 : beamX + beamW - 4}
+              y={beamY + flangeH + 12}
+              className="dimension-text small"
+              style={{ textAnchor: input.sectionShape === 'T' ? 'start' : 'end' }}
+            >
+              hf = {dimension(hf)}
+            </text>
+          </g>
+        )}
+
         {/* Height dimension */}
         <g className="dimension">
           <line
@@ -223,7 +384,7 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
             className="dimension-text vertical"
             transform={`rotate(-90, ${beamX - 25}, ${beamY + beamH / 2})`}
           >
-            h = {h}"
+            h = {dimension(h)}
           </text>
         </g>
 
@@ -231,7 +392,7 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
         <g className="dimension">
           <line
             x1={beamX + beamW + 15}
-            y1={beamY}
+            y1={compressionFaceY}
             x2={beamX + beamW + 15}
             y2={effectiveDepthY}
             stroke="#38a169"
@@ -239,9 +400,9 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
           />
           <line
             x1={beamX + beamW + 10}
-            y1={beamY}
+            y1={compressionFaceY}
             x2={beamX + beamW + 20}
-            y2={beamY}
+            y2={compressionFaceY}
             stroke="#38a169"
             strokeWidth="1"
           />
@@ -255,11 +416,11 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
           />
           <text
             x={beamX + beamW + 25}
-            y={beamY + (d * scale) / 2}
+            y={(compressionFaceY + effectiveDepthY) / 2}
             className="dimension-text small"
             fill="#38a169"
           >
-            d = {d}"
+            d = {dimension(d)}
           </text>
         </g>
 
@@ -268,10 +429,10 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
           <g className="dimension">
             <text
               x={beamX + beamW / 2}
-              y={stressBlockY - 5}
+              y={isNegative ? stressBlockY + 12 : stressBlockY - 5}
               className="dimension-text small stress-label"
             >
-              a = {results.a.toFixed(2)}"
+              a = {dimension(results.a, 2)}
             </text>
           </g>
         )}
@@ -288,6 +449,13 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
         </g>
       </svg>
 
+      {flagged.length > 0 && (
+        <p className="detailing-flag">
+          &#9888; {flagged.length} detailing check{flagged.length > 1 ? 's' : ''} not satisfied (highlighted in red).
+          See Warnings &amp; Notes.
+        </p>
+      )}
+
       {/* Strain diagram */}
       {results && (
         <div className="strain-diagram">
@@ -314,9 +482,9 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
             {/* Neutral axis */}
             <line
               x1={10}
-              y1={20 + (results.c / h) * 160}
+              y1={diagramY(results.c)}
               x2={140}
-              y2={20 + (results.c / h) * 160}
+              y2={diagramY(results.c)}
               stroke="#805ad5"
               strokeWidth="1"
               strokeDasharray="3 2"
@@ -325,36 +493,110 @@ export function BeamVisualization({ input, results }: BeamVisualizationProps) {
             {/* Strain distribution triangle */}
             <polygon
               points={`
-                50,20
-                ${50 + 30},20
-                50,${20 + (results.c / h) * 160}
+                50,${diagramY(0)}
+                ${50 + 30},${diagramY(0)}
+                50,${diagramY(results.c)}
               `}
               fill="#fc8181"
               opacity="0.5"
             />
             <polygon
               points={`
-                50,${20 + (results.c / h) * 160}
-                ${50 + Math.min(80, results.epsilon_t / 0.003 * 30)},180
-                50,180
+                50,${diagramY(results.c)}
+                ${50 + Math.min(80, results.epsilon_t / results.epsilon_cu * 30)},${diagramY(h)}
+                50,${diagramY(h)}
               `}
               fill="#4299e1"
               opacity="0.5"
             />
 
             {/* Labels */}
-            <text x="85" y="25" className="strain-label">
-              {'\u03B5'}c = 0.003
+            <text x="85" y={isNegative ? 190 : 25} className="strain-label">
+              {'\u03B5'}c = {Number(results.epsilon_cu.toFixed(5))}
             </text>
-            <text x="85" y={25 + (results.c / h) * 160} className="strain-label">
+            <text x="85" y={diagramY(results.c) + 5} className="strain-label">
               N.A.
             </text>
-            <text x="85" y="190" className="strain-label">
+            <text x="85" y={isNegative ? 25 : 190} className="strain-label">
               {'\u03B5'}t = {results.epsilon_t.toFixed(4)}
             </text>
           </svg>
         </div>
       )}
+
+      {/* Stress diagram: fiber-section profile over the equivalent stress block */}
+      {results && fiber && (
+        <div className="strain-diagram">
+          <h4>Stress Distribution</h4>
+          <svg width={200} height={225} className="strain-svg">
+            {/* Beam outline */}
+            <rect
+              x={20}
+              y={20}
+              width={30}
+              height={160}
+              fill="#e2e8f0"
+              stroke="#4a5568"
+              strokeWidth="1"
+            />
+
+            {/* Equivalent rectangular stress block */}
+            <rect
+              x={50}
+              y={Math.min(diagramY(0), diagramY(results.a))}
+              width={blockStress * stressScale}
+              height={Math.abs(diagramY(results.a) - diagramY(0))}
+              fill="#fc8181"
+              opacity="0.35"
+              stroke="#e53e3e"
+              strokeWidth="1"
+            />
+
+            {/* Fiber-section concrete stress */}
+            <polygon
+              points={toPoints([
+                [50, diagramY(0)],
+                ...fiber.stressProfile.map(({ depth, stress }) => [50 + stress * stressScale, diagramY(depth)]),
+                [50, diagramY(fiber.c)],
+              ])}
+              fill="#4299e1"
+              opacity="0.35"
+              stroke="#2b6cb0"
+              strokeWidth="1.5"
+            />
+
+            {/* Neutral axes */}
+            <line
+              x1={10}
+              y1={diagramY(results.c)}
+              x2={190}
+              y2={diagramY(results.c)}
+              stroke="#e53e3e"
+              strokeWidth="1"
+              strokeDasharray="3 2"
+            />
+            <line
+              x1={10}
+              y1={diagramY(fiber.c)}
+              x2={190}
+              y2={diagramY(fiber.c)}
+              stroke="#2b6cb0"
+              strokeWidth="1"
+              strokeDasharray="3 2"
+            />
+
+            {/* Labels */}
+            <rect x="10" y="191" width="8" height="8" fill="#fc8181" opacity="0.6" stroke="#e53e3e" />
+            <text x="22" y="198" className="strain-label">
+              Block {formatQuantity(blockStress, 'stress', input.unitSystem, 0)}, c = {dimension(results.c, 2)}
+            </text>
+            <rect x="10" y="205" width="8" height="8" fill="#4299e1" opacity="0.6" stroke="#2b6cb0" />
+            <text x="22" y="212" className="strain-label">
+              Fiber peak {formatQuantity(fiber.fc_peak, 'stress', input.unitSystem, 0)}, c = {dimension(fiber.c, 2)}
+            </text>
+          </svg>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,134 @@
+import type { BeamInput, BeamResults, SupportCondition } from '../types/beam';
+import { SUPPORT_OPTIONS } from '../types/beam';
+import { formatNumber } from '../utils/beamCalculations';
+import { calculateDeflectedShape } from '../utils/serviceCalculations';
+import { formatQuantity } from '../utils/units';
+import './DeflectionPlot.css';
+
+interface DeflectionPlotProps {
+  input: BeamInput;
+  results: BeamResults | null;
+}
+
+export function DeflectionPlot({ input, results }: DeflectionPlotProps) {
+  if (!results || !results.deflection.hasLoads) {
+    return null;
+  }
+
+  const { deflection } = results;
+  const units = input.unitSystem;
+  const length = (value: number) => formatQuantity(value, 'length', units, 3);
+  const support: SupportCondition = input.supportCondition;
+
+  // SVG dimensions
+  const svgWidth = 300;
+  const svgHeight = 150;
+  const beamX1 = 30;
+  const beamX2 = svgWidth - 30;
+  const beamY = 45;
+  const amplitude = 60; // drawn maximum deflection (exaggerated)
+
+  const shape = calculateDeflectedShape(support);
+  const shapePoints = shape
+    .map(({ x, y }) => `${beamX1 + x * (beamX2 - beamX1)},${beamY + y * amplitude}`)
+    .join(' ');
+  const maxPoint = shape.reduce((max, point) => (point.y > max.y ? point : max), shape[0]);
+  const maxX = beamX1 + maxPoint.x * (beamX2 - beamX1);
+
+  // Fixed ends are drawn as a wall, pinned ends as a triangle
+  const isLeftFixed = support !== 'simple';
+  const rightSupport = support === 'cantilever' ? 'free' : support === 'both-ends-continuous' ? 'fixed' : 'pin';
+
+  const wall = (x: number, side: 'left' | 'right') => {
+    const dx = side === 'left' ? -8 : 8;
+    return (
+      <g>
+        <line x1={x} y1={beamY - 18} x2={x} y2={beamY + 18} stroke="#4a5568" strokeWidth="2" />
+        {[-15, -7, 1, 9].map((offset) => (
+          <line
+            key={offset}
+            x1={x}
+            y1={beamY + offset}
+            x2={x + dx}
+            y2={beamY + offset + 8}
+            stroke="#a0aec0"
+            strokeWidth="1"
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const pin = (x: number) => (
+    <polygon
+      points={`${x},${beamY} ${x - 7},${beamY + 12} ${x + 7},${beamY + 12}`}
+      fill="#e2e8f0"
+      stroke="#4a5568"
+      strokeWidth="1"
+    />
+  );
+
+  const supportLabel = SUPPORT_OPTIONS.find(({ value }) => value === support)?.label ?? support;
+
+  const rows = [
+    ['Dead load, \u0394D', deflection.delta_D],
+    ['Live load, \u0394L', deflection.delta_L],
+    ['Dead + live, \u0394(D+L)', deflection.delta_DL],
+    [`Long-term, \u03BB\u0394\u00B7\u0394sus (\u03BB\u0394 = ${formatNumber(deflection.lambda_delta, 2)})`, deflection.delta_longTerm],
+  ] as const;
+
+  return (
+    <div className="deflection-plot">
+      <h4>Deflected Shape</h4>
+      <svg width={svgWidth} height={svgHeight} className="deflection-svg">
+        {/* Undeformed beam */}
+        <line x1={beamX1} y1={beamY} x2={beamX2} y2={beamY} stroke="#a0aec0" strokeWidth="4" />
+
+        {/* Supports */}
+        {isLeftFixed ? wall(beamX1, 'left') : pin(beamX1)}
+        {rightSupport === 'fixed' && wall(beamX2, 'right')}
+        {rightSupport === 'pin' && pin(beamX2)}
+
+        {/* Deflected shape */}
+        <polyline points={shapePoints} fill="none" stroke="#3182ce" strokeWidth="2" />
+
+        {/* Maximum deflection */}
+        <line
+          x1={maxX}
+          y1={beamY}
+          x2={maxX}
+          y2={beamY + amplitude}
+          stroke="#e53e3e"
+          strokeWidth="1"
+          strokeDasharray="3 2"
+        />
+        <text x={Math.min(maxX, svgWidth - 55)} y={beamY + amplitude + 14} className="deflection-label">
+          {'\u0394'}(D+L) = {length(deflection.delta_DL)}
+        </text>
+        <text x={svgWidth / 2} y={16} className="deflection-label muted">
+          {supportLabel}, {'\u2113'} = {formatQuantity(input.spanLength, 'span', units, 0)}
+        </text>
+      </svg>
+
+      <table className="deflection-table">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td>{length(value)}</td>
+            </tr>
+          ))}
+          <tr className={deflection.isDeflectionAdequate ? 'pass' : 'fail'}>
+            <td>
+              {deflection.isDeflectionAdequate ? '\u2713' : '\u2717'} Limit {'\u2113'}/{deflection.limitDivisor}
+            </td>
+            <td>
+              {length(deflection.delta_check)} {deflection.isDeflectionAdequate ? '\u2264' : '>'}{' '}
+              {length(deflection.delta_allow)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import type { BeamInput } from '../types/beam';
+import { CONCRETE_STRENGTHS, CONCRETE_STRENGTHS_SI, STEEL_GRADES, STEEL_GRADES_SI } from '../types/beam';
+import type { BarCombination } from '../utils/beamCalculations';
+import {
+  calculateRequiredSteel,
+  proposeBarCombinations,
+  formatNumber,
+  orientSection,
+} from '../utils/beamCalculations';
+import { summarizeReinforcement } from '../utils/reinforcement';
+import type { Quantity } from '../utils/units';
+import {
+  formatBarSize,
+  formatQuantity,
+  listStrengthOptions,
+  toCustomary,
+  toInputValue,
+  unitLabel,
+} from '../utils/units';
+import './DesignPanel.css';
+
+interface DesignPanelProps {
+  input: BeamInput;
+  onChange: (input: BeamInput) => void;
+  onSelectCombination: (combination: BarCombination) => void;
+}
+
+export function DesignPanel({ input, onChange, onSelectCombination }: DesignPanelProps) {
+  const [d, setD] = useState(() => Number(summarizeReinforcement(orientSection(input)).d.toFixed(2)));
+
+  const handleChange = (field: keyof BeamInput, value: number) => {
+    onChange({ ...input, [field]: value });
+  };
+
+  const units = input.unitSystem;
+  const isSI = units === 'SI';
+  const area = (value: number) => formatQuantity(value, 'area', units, 2);
+
+  const isValidInput = input.Mu > 0 && input.b > 0 && d > 0 && input.fc > 0 && input.fy > 0;
+  const design = isValidInput
+    ? calculateRequiredSteel(input.Mu * 12000, input.b, d, input.fc, input.fy, input.Es, units, input.designCode, input.h)
+    : null;
+  const combinations = design && design.isValid
+    ? proposeBarCombinations(design.As_design, input.b, input.clearCover, input.stirrupBar, input.aggregateSize, units)
+    : [];
+
+  // Values are typed in the display units and passed on in customary units
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    quantity: Quantity,
+    onValue: (value: number) => void,
+    step: string = '0.5',
+    siStep: string = '10'
+  ) => (
+    <div className="input-group">
+      <label htmlFor={id}>{label}</label>
+      <div className="input-with-unit">
+        <input
+          id={id}
+          type="number"
+          value={toInputValue(value, quantity, units)}
+          onChange={(e) => onValue(toCustomary(parseFloat(e.target.value) || 0, quantity, units))}
+          min="0"
+          step={isSI ? siStep : step}
+        />
+        <span className="unit">{unitLabel(quantity, units)}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="design-panel">
+      <section className="panel-section">
+        <h2>Design Parameters</h2>
+        <div className="input-form">
+          <div className="form-section">
+            <h3>
+              <span className="section-icon">&#8645;</span>
+              Demand and Section
+            </h3>
+            <div className="input-grid">
+              {numberField('design-Mu', 'Factored Moment (Mu)', input.Mu, 'moment', (v) => handleChange('Mu', v), '5', '5')}
+              {numberField('design-b', 'Width (b)', input.b, 'length', (v) => handleChange('b', v))}
+              {numberField('design-h', 'Total Height (h)', input.h, 'length', (v) => handleChange('h', v))}
+              {numberField('design-d', 'Effective Depth (d)', d, 'length', setD, '0.25', '5')}
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h3>
+              <span className="section-icon">&#9679;</span>
+              Materials and Detailing
+            </h3>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="design-fc">Concrete Strength (f'c)</label>
+                <div className="input-with-unit">
+                  <select
+                    id="design-fc"
+                    value={input.fc}
+                    onChange={(e) => handleChange('fc', parseFloat(e.target.value))}
+                  >
+                    {listStrengthOptions(CONCRETE_STRENGTHS, CONCRETE_STRENGTHS_SI, input.fc, units).map((strength) => (
+                      <option key={strength} value={strength}>
+                        {toInputValue(strength, 'stress', units).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="unit">{unitLabel('stress', units)}</span>
+                </div>
+              </div>
+
+              <div className="input-group">
+                <label htmlFor="design-fy">Steel Yield Strength (fy)</label>
+                <div className="input-with-unit">
+                  <select
+                    id="design-fy"
+                    value={input.fy}
+                    onChange={(e) => handleChange('fy', parseFloat(e.target.value))}
+                  >
+                    {listStrengthOptions(STEEL_GRADES, STEEL_GRADES_SI, input.fy, units).map((grade) => (
+                      <option key={grade} value={grade}>
+                        Grade {isSI ? Math.round(toInputValue(grade, 'stress', units)) : grade / 1000}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="unit">{unitLabel('stress', units)}</span>
+                </div>
+              </div>
+
+              {numberField('design-cover', 'Clear Cover to Stirrup', input.clearCover, 'length', (v) => handleChange('clearCover', v), '0.25', '5')}
+              {numberField('design-agg', 'Max. Aggregate Size', input.aggregateSize, 'length', (v) => handleChange('aggregateSize', v), '0.125', '5')}
+            </div>
+            <p className="form-note">
+              Bars are fitted in a single layer inside {formatBarSize(input.stirrupBar, units)} stirrups with the minimum clear
+              spacing of ACI 318-19 Section 25.2.1.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="panel-section">
+        <h2>Required Reinforcement</h2>
+        {!design ? (
+          <div className="no-results">
+            <span className="icon">&#128269;</span>
+            <p>Enter a factored moment Mu and section dimensions</p>
+          </div>
+        ) : (
+          <div className="design-results">
+            <div className="design-summary">
+              <div className="result-card main-result">
+                <span className="result-label">Required Steel Area</span>
+                <span className="result-value large">
+                  {formatNumber(toInputValue(design.As_design, 'area', units), isSI ? 0 : 2)}
+                  <span className="result-unit">{unitLabel('area', units)}</span>
+                </span>
+                <span className="result-sublabel">
+                  As,req = {area(design.As_required)}, As,min = {area(design.As_min)}
+                </span>
+              </div>
+              <div className="result-card">
+                <span className="result-label">Strength Reduction Factor</span>
+                <span className="result-value">
+                  {'\u03D5'} = {formatNumber(design.phi, 3)}
+                </span>
+              </div>
+            </div>
+
+            <p className={`design-message ${design.isValid ? 'valid' : 'invalid'}`}>{design.message}</p>
+
+            {design.isValid && (
+              <div className="results-section">
+                <h4>Bar Combinations (single layer)</h4>
+                {combinations.length === 0 ? (
+                  <p className="design-empty">
+                    No single-layer combination fits in b = {formatQuantity(input.b, 'length', units, 1)}. Increase the width or use multiple layers.
+                  </p>
+                ) : (
+                  <table className="combination-table">
+                    <thead>
+                      <tr>
+                        <th>Bars</th>
+                        <th>As ({unitLabel('area', units)})</th>
+                        <th>Excess</th>
+                        <th>Max / layer</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {combinations.map((combination) => (
+                        <tr key={combination.barSize}>
+                          <td>{combination.count} {formatBarSize(combination.barSize, units)}</td>
+                          <td>{formatNumber(toInputValue(combination.As, 'area', units), isSI ? 0 : 2)}</td>
+                          <td>{formatNumber((combination.As / design.As_design - 1) * 100, 1)}%</td>
+                          <td>{combination.maxBars}</td>
+                          <td>
+                            <button
+                              type="button"
+                              className="calc-btn"
+                              onClick={() => onSelectCombination(combination)}
+                              title="Load this reinforcement into the analysis mode"
+                            >
+                              Verify
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
-import { useState } from 'react';
-import type { BeamInput, BeamResults } from '../types/beam';
-import { generatePDF } from '../utils/pdfExport';
+import { useRef, useState } from 'react';
+import type { BeamInput, BeamResults, ProjectInfo, Revision, TitleBlock, Workspace } from '../types/beam';
+import { formatCodeName, getDesignCode } from '../utils/designCodes';
+import { downloadPDF, generatePackagePDF, generatePDF, pdfFileName } from '../utils/pdfExport';
+import {
+  currentRevision,
+  hasBranding,
+  HEADER_REVISIONS,
+  loadTitleBlock,
+  nextRevisionMark,
+  packageSheetNumber,
+  readLogoFile,
+  storeTitleBlock,
+} from '../utils/titleBlock';
+import { calculateBeamResults, getActiveBeam } from '../utils/workspace';
 import './ExportModal.css';
 
 interface ExportModalProps {
@@ -8,16 +20,66 @@ interface ExportModalProps {
   onClose: () => void;
   input: BeamInput;
   results: BeamResults;
+  workspace: Workspace; // beams of a calculation package
+  project: ProjectInfo; // saved with the project file
+  onProjectChange: (project: ProjectInfo) => void;
 }
 
-export function ExportModal({ isOpen, onClose, input, results }: ExportModalProps) {
-  const [projectName, setProjectName] = useState('');
-  const [projectNumber, setProjectNumber] = useState('');
-  const [engineer, setEngineer] = useState('');
+export function ExportModal({ isOpen, onClose, input, results, workspace, project, onProjectChange }: ExportModalProps) {
+  const { projectName, projectNumber, engineer } = project;
   const [isExporting, setIsExporting] = useState(false);
+  const [scope, setScope] = useState<'beam' | 'package'>('beam');
+  const [titleBlock, setTitleBlock] = useState<TitleBlock>(loadTitleBlock);
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  const codeName = formatCodeName(getDesignCode(input.designCode), input.unitSystem);
+  const beamName = getActiveBeam(workspace).name;
+  const beamCount = workspace.beams.length;
+  const isPackage = scope === 'package' && beamCount > 1;
+  // In a package each beam's sheet number carries its place among the analyzed beams
+  const sheetNumber = isPackage
+    ? packageSheetNumber(
+        titleBlock.sheetNumber,
+        workspace.beams.filter(({ input: beamInput }) => calculateBeamResults(beamInput)).findIndex(({ id }) => id === workspace.activeId)
+      )
+    : titleBlock.sheetNumber;
+  const date = new Date().toLocaleDateString();
+
+  // The title block is kept in this browser, not in the project file
+  const updateTitleBlock = (changes: Partial<TitleBlock>) => {
+    const next = { ...titleBlock, ...changes };
+    setTitleBlock(next);
+    storeTitleBlock(next);
+  };
+
+  const updateRevision = (index: number, changes: Partial<Revision>) => {
+    updateTitleBlock({
+      revisions: titleBlock.revisions.map((revision, i) => (i === index ? { ...revision, ...changes } : revision)),
+    });
+  };
+
+  const addRevision = () => {
+    updateTitleBlock({
+      revisions: [...titleBlock.revisions, { rev: nextRevisionMark(titleBlock.revisions), date, description: '', by: '' }],
+    });
+  };
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateTitleBlock({ logo: await readLogoFile(file) });
+      setLogoError(null);
+    } catch (error) {
+      console.error('Error reading the logo:', error);
+      setLogoError(error instanceof Error ? error.message : 'The logo could not be read.');
+    }
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
 
@@ -25,12 +87,20 @@ export function ExportModal({ isOpen, onClose, input, results }: ExportModalProp
     await new Promise(resolve => setTimeout(resolve, 100));
 
     try {
-      generatePDF(input, results, {
+      const options = {
         projectName: projectName || 'Reinforced Concrete Beam Design',
         projectNumber,
         engineer,
-        date: new Date().toLocaleDateString(),
-      });
+        date,
+        titleBlock,
+      };
+      const blob = isPackage
+        ? generatePackagePDF(
+            workspace.beams.map(({ name, input: beamInput }) => ({ name, input: beamInput, results: calculateBeamResults(beamInput) })),
+            options
+          )
+        : generatePDF(input, results, options, beamName);
+      downloadPDF(blob, pdfFileName(options, isPackage));
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Error generating PDF. Please try again.');
@@ -59,7 +129,7 @@ export function ExportModal({ isOpen, onClose, input, results }: ExportModalProp
         <div className="modal-body">
           <p className="modal-description">
             Generate a professional PDF calculation sheet suitable for submission to a project reviewer.
-            The PDF will include all calculations with ACI 318-19 references.
+            The PDF will include all calculations with {codeName} references.
           </p>
 
           <div className="form-group">
@@ -68,7 +138,7 @@ export function ExportModal({ isOpen, onClose, input, results }: ExportModalProp
               id="projectName"
               type="text"
               value={projectName}
-              onChange={(e) => setProjectName(e.target.value)}
+              onChange={(e) => onProjectChange({ ...project, projectName: e.target.value })}
               placeholder="e.g., Building A - Floor Beam B-1"
             />
           </div>
@@ -80,7 +150,7 @@ export function ExportModal({ isOpen, onClose, input, results }: ExportModalProp
                 id="projectNumber"
                 type="text"
                 value={projectNumber}
-                onChange={(e) => setProjectNumber(e.target.value)}
+                onChange={(e) => onProjectChange({ ...project, projectNumber: e.target.value })}
                 placeholder="e.g., 2024-001"
               />
             </div>
@@ -91,22 +161,246 @@ export function ExportModal({ isOpen, onClose, input, results }: ExportModalProp
                 id="engineer"
                 type="text"
                 value={engineer}
-                onChange={(e) => setEngineer(e.target.value)}
+                onChange={(e) => onProjectChange({ ...project, engineer: e.target.value })}
                 placeholder="e.g., John Smith, P.E."
               />
             </div>
           </div>
 
+          <div className="title-block-settings">
+            <h3>Title Block</h3>
+            <p className="title-block-note">Saved in this browser and used for every export.</p>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="companyName">Company Name</label>
+                <input
+                  id="companyName"
+                  type="text"
+                  value={titleBlock.companyName}
+                  onChange={(e) => updateTitleBlock({ companyName: e.target.value })}
+                  placeholder="e.g., Smith Structural Engineers"
+                />
+              </div>
+
+              <div className="form-group">
+                <span className="form-label">Logo</span>
+                <div className="logo-field">
+                  {titleBlock.logo && <img src={titleBlock.logo} alt="Company logo" />}
+                  <button type="button" className="btn btn-secondary btn-small" onClick={() => logoInputRef.current?.click()}>
+                    {titleBlock.logo ? 'Replace' : 'Choose PNG or JPEG'}
+                  </button>
+                  {titleBlock.logo && (
+                    <button type="button" className="btn btn-secondary btn-small" onClick={() => updateTitleBlock({ logo: '' })}>
+                      Remove
+                    </button>
+                  )}
+                  <input ref={logoInputRef} type="file" accept="image/png,image/jpeg" onChange={handleLogoFile} hidden />
+                </div>
+                {logoError && <p className="logo-error" role="alert">{logoError}</p>}
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="client">Client</label>
+                <input
+                  id="client"
+                  type="text"
+                  value={titleBlock.client}
+                  onChange={(e) => updateTitleBlock({ client: e.target.value })}
+                  placeholder="e.g., City of Springfield"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="checker">Checker</label>
+                <input
+                  id="checker"
+                  type="text"
+                  value={titleBlock.checker}
+                  onChange={(e) => updateTitleBlock({ checker: e.target.value })}
+                  placeholder="e.g., Jane Doe, P.E."
+                />
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="sheetNumber">Sheet No.</label>
+                <input
+                  id="sheetNumber"
+                  type="text"
+                  value={titleBlock.sheetNumber}
+                  onChange={(e) => updateTitleBlock({ sheetNumber: e.target.value })}
+                  placeholder="e.g., S-101"
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <span className="form-label">Revisions</span>
+              {titleBlock.revisions.length > 0 && (
+                <table className="revision-table">
+                  <thead>
+                    <tr>
+                      <th>Rev</th>
+                      <th>Date</th>
+                      <th>Description</th>
+                      <th>By</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {titleBlock.revisions.map((revision, index) => (
+                      <tr key={index}>
+                        <td>
+                          <input
+                            type="text"
+                            aria-label="Revision"
+                            value={revision.rev}
+                            onChange={(e) => updateRevision(index, { rev: e.target.value })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="text"
+                            aria-label="Revision date"
+                            value={revision.date}
+                            onChange={(e) => updateRevision(index, { date: e.target.value })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="text"
+                            aria-label="Revision description"
+                            value={revision.description}
+                            onChange={(e) => updateRevision(index, { description: e.target.value })}
+                            placeholder="e.g., Issued for review"
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="text"
+                            aria-label="Revised by"
+                            value={revision.by}
+                            onChange={(e) => updateRevision(index, { by: e.target.value })}
+                          />
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            className="remove-revision"
+                            onClick={() => updateTitleBlock({ revisions: titleBlock.revisions.filter((_, i) => i !== index) })}
+                            aria-label={`Remove revision ${revision.rev}`}
+                          >
+                            &times;
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <button type="button" className="btn btn-secondary btn-small" onClick={addRevision}>
+                Add revision
+              </button>
+            </div>
+          </div>
+
+          <div className="header-preview">
+            <h4>Header Preview</h4>
+            <div className="sheet-header">
+              {hasBranding(titleBlock) && (
+                <div className="sheet-branding">
+                  {titleBlock.logo && <img src={titleBlock.logo} alt="" />}
+                  <span className="sheet-company">{titleBlock.companyName}</span>
+                  <dl className="sheet-reference">
+                    <dt>Sheet:</dt>
+                    <dd>{sheetNumber || '-'}</dd>
+                    <dt>Rev:</dt>
+                    <dd>{currentRevision(titleBlock)}</dd>
+                  </dl>
+                </div>
+              )}
+              <div className="sheet-title">
+                <strong>FLEXURAL STRENGTH CALCULATION</strong>
+                <span>Beam {beamName} - Per {codeName}</span>
+              </div>
+              <dl className="sheet-project">
+                <dt>Project:</dt>
+                <dd>{projectName || 'Reinforced Concrete Beam Design'}</dd>
+                <dt>Project No.:</dt>
+                <dd>{projectNumber || 'N/A'}</dd>
+                <dt>Client:</dt>
+                <dd>{titleBlock.client || 'N/A'}</dd>
+                <dt>Date:</dt>
+                <dd>{date}</dd>
+                <dt>Engineer:</dt>
+                <dd>{engineer || 'N/A'}</dd>
+                <dt>Checker:</dt>
+                <dd>{titleBlock.checker || 'N/A'}</dd>
+              </dl>
+              {titleBlock.revisions.length > 0 && (
+                <table className="sheet-revisions">
+                  <thead>
+                    <tr>
+                      <th>Rev</th>
+                      <th>Date</th>
+                      <th>Description</th>
+                      <th>By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {titleBlock.revisions.slice(-HEADER_REVISIONS).map((revision, index) => (
+                      <tr key={index}>
+                        <td>{revision.rev}</td>
+                        <td>{revision.date}</td>
+                        <td>{revision.description}</td>
+                        <td>{revision.by}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            {titleBlock.revisions.length > HEADER_REVISIONS && (
+              <p className="title-block-note">The header lists the latest {HEADER_REVISIONS} revisions.</p>
+            )}
+          </div>
+
+          {beamCount > 1 && (
+            <fieldset className="form-group scope-options">
+              <legend>Beams</legend>
+              <label>
+                <input type="radio" name="scope" checked={!isPackage} onChange={() => setScope('beam')} />
+                {beamName} only
+              </label>
+              <label>
+                <input type="radio" name="scope" checked={isPackage} onChange={() => setScope('package')} />
+                All {beamCount} beams as a calculation package
+              </label>
+            </fieldset>
+          )}
+
           <div className="preview-section">
             <h4>PDF Contents Preview</h4>
             <ul className="preview-list">
-              <li>Project header with engineer information</li>
+              {isPackage && (
+                <>
+                  <li>Cover sheet, table of contents and beam schedule summary</li>
+                  <li>Each beam's calculation below, with pages numbered through the package</li>
+                </>
+              )}
+              <li>Title block with company branding, project, engineer and checker, and revision history</li>
               <li>Input parameters (geometry, materials, reinforcement)</li>
-              <li>Step-by-step flexural analysis calculations</li>
-              <li>Strain compatibility verification</li>
-              <li>Reinforcement limit checks per ACI 318-19</li>
+              <li>Step-by-step flexural analysis with a to-scale section, stress block and force figure</li>
+              <li>Strain compatibility verification with the strain distribution</li>
+              <li>Reinforcement limit checks per {codeName}</li>
+              <li>Crack control, service section properties, minimum thickness and deflection</li>
+              <li>Shear design per ACI 318-19 Section 22.5</li>
               <li>Design summary with capacity and section classification</li>
-              <li>All equations with ACI 318-19 section references</li>
+              <li>All equations with {codeName} section references</li>
             </ul>
           </div>
         </div>
@@ -1,5 +1,44 @@
-import type { BeamInput } from '../types/beam';
-import { REBAR_AREAS, CONCRETE_STRENGTHS, STEEL_GRADES } from '../types/beam';
+import type {
+  BarLayer,
+  BeamInput,
+  ConcreteModel,
+  DeflectionLimitCase,
+  DesignCodeId,
+  ExposureCondition,
+  MomentSign,
+  SectionShape,
+  SteelModel,
+  SupportCondition,
+} from '../types/beam';
+import {
+  REBAR_AREAS,
+  CONCRETE_STRENGTHS,
+  CONCRETE_STRENGTHS_SI,
+  STEEL_GRADES,
+  STEEL_GRADES_SI,
+  LAMBDA_OPTIONS,
+  EXPOSURE_OPTIONS,
+  SUPPORT_OPTIONS,
+  DEFLECTION_LIMIT_OPTIONS,
+  DESIGN_CODE_OPTIONS,
+  ACI_EDITION_OPTIONS,
+  CONCRETE_MODEL_OPTIONS,
+  STEEL_MODEL_OPTIONS,
+  MOMENT_SIGN_OPTIONS,
+} from '../types/beam';
+import { orientSection } from '../utils/beamCalculations';
+import { getDesignCode, isAciCode } from '../utils/designCodes';
+import { summarizeReinforcement } from '../utils/reinforcement';
+import type { Quantity } from '../utils/units';
+import {
+  formatBarSize,
+  formatQuantity,
+  listStrengthOptions,
+  toCustomary,
+  toInputValue,
+  unitLabel,
+} from '../utils/units';
+import { BarLayerEditor } from './BarLayerEditor';
 import './InputForm.css';
 
 interface InputFormProps {
@@ -12,18 +51,35 @@ export function InputForm({ input, onChange }: InputFormProps) {
     onChange({ ...input, [field]: value });
   };
 
-  const calculateEffectiveDepth = () => {
-    // Estimate effective depth as h - 2.5" (typical cover + bar radius)
-    const estimated = input.h - 2.5;
-    if (estimated > 0) {
-      handleChange('d', Number(estimated.toFixed(2)));
-    }
+  // Values are typed in the display units and stored in customary units
+  const units = input.unitSystem;
+  const isSI = units === 'SI';
+  const isAci = isAciCode(input.designCode);
+  const handleQuantityChange = (field: keyof BeamInput, quantity: Quantity, value: string) => {
+    handleChange(field, toCustomary(parseFloat(value) || 0, quantity, units));
   };
 
-  const getTotalSteelArea = (barSize: string, count: number): number => {
-    return REBAR_AREAS[barSize] * count;
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const isNegative = input.momentSign === 'negative';
+
+  const handleLayersChange = (field: 'tensionLayers' | 'compressionLayers', layers: BarLayer[]) => {
+    onChange({ ...input, [field]: layers });
   };
 
+  // Tension and compression steel for the selected moment sign
+  const reinforcement = summarizeReinforcement(orientSection(input));
+  const tensionSummary = (
+    <p className="layer-summary">
+      As = {formatQuantity(reinforcement.As, 'area', units, 2)}, d = {formatQuantity(reinforcement.d, 'length', units, 2)},
+      dt = {formatQuantity(reinforcement.dt, 'length', units, 2)}
+    </p>
+  );
+  const compressionSummary = reinforcement.As_prime > 0 && (
+    <p className="layer-summary">
+      A's = {formatQuantity(reinforcement.As_prime, 'area', units, 2)}, d' = {formatQuantity(reinforcement.d_prime, 'length', units, 2)}
+    </p>
+  );
+
   return (
     <div className="input-form">
       <div className="form-section">
@@ -32,18 +88,48 @@ export function InputForm({ input, onChange }: InputFormProps) {
           Section Geometry
         </h3>
         <div className="input-grid">
+          <div className="input-group full-width">
+            <label htmlFor="sectionShape">Section Shape</label>
+            <div className="input-with-unit">
+              <select
+                id="sectionShape"
+                value={input.sectionShape}
+                onChange={(e) => onChange({ ...input, sectionShape: e.target.value as SectionShape })}
+              >
+                <option value="rectangular">Rectangular</option>
+                <option value="T">T-Beam (flange both sides)</option>
+                <option value="L">L-Beam (flange one side)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="input-group full-width">
+            <label htmlFor="momentSign">Bending Moment</label>
+            <div className="input-with-unit">
+              <select
+                id="momentSign"
+                value={input.momentSign}
+                onChange={(e) => onChange({ ...input, momentSign: e.target.value as MomentSign })}
+              >
+                {MOMENT_SIGN_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           <div className="input-group">
-            <label htmlFor="b">Width (b)</label>
+            <label htmlFor="b">{isFlanged ? 'Web Width (bw)' : 'Width (b)'}</label>
             <div className="input-with-unit">
               <input
                 id="b"
                 type="number"
-                value={input.b}
-                onChange={(e) => handleChange('b', parseFloat(e.target.value) || 0)}
+                value={toInputValue(input.b, 'length', units)}
+                onChange={(e) => handleQuantityChange('b', 'length', e.target.value)}
                 min="1"
-                step="0.5"
+                step={isSI ? '10' : '0.5'}
               />
-              <span className="unit">in</span>
+              <span className="unit">{unitLabel('length', units)}</span>
             </div>
           </div>
 
@@ -53,41 +139,125 @@ export function InputForm({ input, onChange }: InputFormProps) {
               <input
                 id="h"
                 type="number"
-                value={input.h}
-                onChange={(e) => handleChange('h', parseFloat(e.target.value) || 0)}
+                value={toInputValue(input.h, 'length', units)}
+                onChange={(e) => handleQuantityChange('h', 'length', e.target.value)}
                 min="1"
-                step="0.5"
+                step={isSI ? '10' : '0.5'}
               />
-              <span className="unit">in</span>
+              <span className="unit">{unitLabel('length', units)}</span>
             </div>
           </div>
+        </div>
+      </div>
 
-          <div className="input-group">
-            <label htmlFor="d">
-              Effective Depth (d)
-              <button
-                type="button"
-                className="calc-btn"
-                onClick={calculateEffectiveDepth}
-                title="Estimate as h - 2.5 inches"
-              >
-                Auto
-              </button>
-            </label>
-            <div className="input-with-unit">
-              <input
-                id="d"
-                type="number"
-                value={input.d}
-                onChange={(e) => handleChange('d', parseFloat(e.target.value) || 0)}
-                min="1"
-                step="0.25"
-              />
-              <span className="unit">in</span>
+      {isFlanged && (
+        <div className="form-section">
+          <h3>
+            <span className="section-icon">&#9516;</span>
+            Flange Geometry
+          </h3>
+          <div className="input-grid">
+            <div className="input-group">
+              <label htmlFor="bf">Flange Width (bf)</label>
+              <div className="input-with-unit">
+                <input
+                  id="bf"
+                  type="number"
+                  value={toInputValue(input.bf, 'length', units)}
+                  onChange={(e) => handleQuantityChange('bf', 'length', e.target.value)}
+                  min="1"
+                  step={isSI ? '25' : '1'}
+                />
+                <span className="unit">{unitLabel('length', units)}</span>
+              </div>
             </div>
+
+            <div className="input-group">
+              <label htmlFor="hf">Flange Thickness (hf)</label>
+              <div className="input-with-unit">
+                <input
+                  id="hf"
+                  type="number"
+                  value={toInputValue(input.hf, 'length', units)}
+                  onChange={(e) => handleQuantityChange('hf', 'length', e.target.value)}
+                  min="1"
+                  step={isSI ? '10' : '0.5'}
+                />
+                <span className="unit">{unitLabel('length', units)}</span>
+              </div>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="webClearSpacing">Clear Web Spacing (sw)</label>
+              <div className="input-with-unit">
+                <input
+                  id="webClearSpacing"
+                  type="number"
+                  value={toInputValue(input.webClearSpacing, 'length', units)}
+                  onChange={(e) => handleQuantityChange('webClearSpacing', 'length', e.target.value)}
+                  min="0"
+                  step={isSI ? '25' : '1'}
+                />
+                <span className="unit">{unitLabel('length', units)}</span>
+              </div>
+            </div>
+
+            {isNegative && (
+              <>
+                <div className="input-group">
+                  <label htmlFor="slabBar">Slab Top Bar Size</label>
+                  <div className="input-with-unit">
+                    <select
+                      id="slabBar"
+                      value={input.slabBar}
+                      onChange={(e) => onChange({ ...input, slabBar: e.target.value })}
+                    >
+                      {['#3', '#4', '#5', '#6'].map((bar) => (
+                        <option key={bar} value={bar}>{formatBarSize(bar, units)}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="input-group">
+                  <label htmlFor="slabSpacing">Slab Bar Spacing</label>
+                  <div className="input-with-unit">
+                    <input
+                      id="slabSpacing"
+                      type="number"
+                      value={toInputValue(input.slabSpacing, 'length', units)}
+                      onChange={(e) => handleQuantityChange('slabSpacing', 'length', e.target.value)}
+                      min="0"
+                      step={isSI ? '25' : '1'}
+                    />
+                    <span className="unit">{unitLabel('length', units)}</span>
+                  </div>
+                </div>
+
+                <div className="input-group">
+                  <label htmlFor="slabDepth">Slab Bar Depth from Top</label>
+                  <div className="input-with-unit">
+                    <input
+                      id="slabDepth"
+                      type="number"
+                      value={toInputValue(input.slabDepth, 'length', units)}
+                      onChange={(e) => handleQuantityChange('slabDepth', 'length', e.target.value)}
+                      min="0"
+                      step={isSI ? '5' : '0.25'}
+                    />
+                    <span className="unit">{unitLabel('length', units)}</span>
+                  </div>
+                </div>
+              </>
+            )}
           </div>
+          <p className="form-note">
+            Effective flange width is limited per ACI 318-19 Table 6.3.2.1 using sw and the span length
+            {' '}{'\u2113'}n under Deflection. Enter 0 to ignore a limit.
+            {isNegative && ' In negative bending the flange is in tension: slab bars within the effective width are added to the tension steel (spacing 0 for none).'}
+          </p>
         </div>
-      </div>
+      )}
 
       <div className="form-section">
         <h3>
@@ -95,6 +265,38 @@ export function InputForm({ input, onChange }: InputFormProps) {
           Material Properties
         </h3>
         <div className="input-grid">
+          <div className={`input-group${isAci ? '' : ' full-width'}`}>
+            <label htmlFor="designCode">Design Code</label>
+            <div className="input-with-unit">
+              <select
+                id="designCode"
+                value={isAci ? 'aci-318-19' : input.designCode}
+                onChange={(e) => onChange({ ...input, designCode: e.target.value as DesignCodeId })}
+              >
+                {DESIGN_CODE_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isAci && (
+            <div className="input-group">
+              <label htmlFor="codeEdition">Edition</label>
+              <div className="input-with-unit">
+                <select
+                  id="codeEdition"
+                  value={input.designCode}
+                  onChange={(e) => onChange({ ...input, designCode: e.target.value as DesignCodeId })}
+                >
+                  {ACI_EDITION_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           <div className="input-group">
             <label htmlFor="fc">Concrete Strength (f'c)</label>
             <div className="input-with-unit">
@@ -103,13 +305,13 @@ export function InputForm({ input, onChange }: InputFormProps) {
                 value={input.fc}
                 onChange={(e) => handleChange('fc', parseFloat(e.target.value))}
               >
-                {CONCRETE_STRENGTHS.map((strength) => (
+                {listStrengthOptions(CONCRETE_STRENGTHS, CONCRETE_STRENGTHS_SI, input.fc, units).map((strength) => (
                   <option key={strength} value={strength}>
-                    {strength.toLocaleString()}
+                    {toInputValue(strength, 'stress', units).toLocaleString()}
                   </option>
                 ))}
               </select>
-              <span className="unit">psi</span>
+              <span className="unit">{unitLabel('stress', units)}</span>
             </div>
           </div>
 
@@ -121,13 +323,13 @@ export function InputForm({ input, onChange }: InputFormProps) {
                 value={input.fy}
                 onChange={(e) => handleChange('fy', parseFloat(e.target.value))}
               >
-                {STEEL_GRADES.map((grade) => (
+                {listStrengthOptions(STEEL_GRADES, STEEL_GRADES_SI, input.fy, units).map((grade) => (
                   <option key={grade} value={grade}>
-                    Grade {grade / 1000}
+                    Grade {isSI ? Math.round(toInputValue(grade, 'stress', units)) : grade / 1000}
                   </option>
                 ))}
               </select>
-              <span className="unit">psi</span>
+              <span className="unit">{unitLabel('stress', units)}</span>
             </div>
           </div>
 
@@ -137,125 +339,492 @@ export function InputForm({ input, onChange }: InputFormProps) {
               <input
                 id="Es"
                 type="number"
-                value={input.Es}
-                onChange={(e) => handleChange('Es', parseFloat(e.target.value) || 29000000)}
-                step="1000000"
+                value={toInputValue(input.Es, 'stress', units)}
+                onChange={(e) => handleChange('Es', toCustomary(parseFloat(e.target.value), 'stress', units) || 29000000)}
+                step={isSI ? '1000' : '1000000'}
               />
-              <span className="unit">psi</span>
+              <span className="unit">{unitLabel('stress', units)}</span>
             </div>
           </div>
         </div>
+        {input.designCode !== 'aci-318-19' && (
+          <p className="form-note">
+            {isAci
+              ? <>Flexural strength and reinforcement limits follow {getDesignCode(input.designCode).name}.</>
+              : <>
+                  Flexural strength follows {getDesignCode(input.designCode).name} with the resistance factors applied
+                  to the materials.
+                </>}
+            {' '}Shear, detailing and serviceability checks follow ACI 318-19.
+          </p>
+        )}
       </div>
 
       <div className="form-section">
         <h3>
           <span className="section-icon">&#9644;</span>
-          Tension Reinforcement
+          {isNegative ? 'Bottom Reinforcement (Compression)' : 'Tension Reinforcement'}
         </h3>
         <div className="input-grid">
-          <div className="input-group full-width">
-            <label htmlFor="As">Area of Tension Steel (As)</label>
+          <div className="input-group">
+            <label htmlFor="clearCover">Clear Cover to Stirrup</label>
             <div className="input-with-unit">
               <input
-                id="As"
+                id="clearCover"
                 type="number"
-                value={input.As}
-                onChange={(e) => handleChange('As', parseFloat(e.target.value) || 0)}
+                value={toInputValue(input.clearCover, 'length', units)}
+                onChange={(e) => handleQuantityChange('clearCover', 'length', e.target.value)}
                 min="0"
-                step="0.1"
+                step={isSI ? '5' : '0.25'}
               />
-              <span className="unit">in&sup2;</span>
+              <span className="unit">{unitLabel('length', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="stirrupBar">Stirrup Bar Size</label>
+            <div className="input-with-unit">
+              <select
+                id="stirrupBar"
+                value={input.stirrupBar}
+                onChange={(e) => onChange({ ...input, stirrupBar: e.target.value })}
+              >
+                {['#3', '#4', '#5', '#6'].map((bar) => (
+                  <option key={bar} value={bar}>{formatBarSize(bar, units)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="aggregateSize">Max. Aggregate Size</label>
+            <div className="input-with-unit">
+              <input
+                id="aggregateSize"
+                type="number"
+                value={toInputValue(input.aggregateSize, 'length', units)}
+                onChange={(e) => handleQuantityChange('aggregateSize', 'length', e.target.value)}
+                min="0"
+                step={isSI ? '5' : '0.125'}
+              />
+              <span className="unit">{unitLabel('length', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="exposure">Exposure</label>
+            <div className="input-with-unit">
+              <select
+                id="exposure"
+                value={input.exposure}
+                onChange={(e) => onChange({ ...input, exposure: e.target.value as ExposureCondition })}
+              >
+                {EXPOSURE_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
 
+        <p className="helper-title layer-title">Bar Layers (count × size @ depth from top):</p>
+        <BarLayerEditor
+          face="tension"
+          layers={input.tensionLayers}
+          input={input}
+          onChange={(layers) => handleLayersChange('tensionLayers', layers)}
+        />
+        {isNegative ? compressionSummary : tensionSummary}
+
         <div className="rebar-helper">
           <p className="helper-title">Quick Reference - Bar Areas:</p>
           <div className="rebar-grid">
             {Object.entries(REBAR_AREAS).map(([bar, area]) => (
               <div key={bar} className="rebar-item">
-                <span className="bar-name">{bar}</span>
-                <span className="bar-area">{area.toFixed(2)} in&sup2;</span>
+                <span className="bar-name">{formatBarSize(bar, units)}</span>
+                <span className="bar-area">{formatQuantity(area, 'area', units, 2)}</span>
               </div>
             ))}
           </div>
+        </div>
+        <p className="form-note">
+          d is taken at the centroid of the tension layers and dt at the extreme tension layer.
+          Auto Depths places the layers from the clear cover with {formatQuantity(1, 'length', units, 0)} clear between layers.
+          Bar spacing and cover are checked per ACI 318-19 Sections 25.2 and 20.5.
+          {isNegative && " In negative bending the top bars are in tension and d, dt and d' are measured from the bottom face."}
+        </p>
+      </div>
+
+      <div className="form-section">
+        <h3>
+          <span className="section-icon">&#9650;</span>
+          {isNegative ? 'Top Reinforcement (Tension)' : 'Compression Reinforcement (Optional)'}
+        </h3>
+        <BarLayerEditor
+          face="compression"
+          layers={input.compressionLayers}
+          input={input}
+          onChange={(layers) => handleLayersChange('compressionLayers', layers)}
+        />
+        {isNegative ? tensionSummary : compressionSummary}
+        <p className="form-note">
+          Note: When compression bars are entered the section is analyzed by strain compatibility.
+          Compression steel stress f's is computed from the strain at each layer and need not reach yield.
+        </p>
+      </div>
+
+      <div className="form-section">
+        <h3>
+          <span className="section-icon">&#8645;</span>
+          Flexural &amp; Axial Demand (Optional)
+        </h3>
+        <div className="input-grid">
+          <div className="input-group">
+            <label htmlFor="Mu">Factored Moment (Mu)</label>
+            <div className="input-with-unit">
+              <input
+                id="Mu"
+                type="number"
+                value={toInputValue(input.Mu, 'moment', units)}
+                onChange={(e) => handleQuantityChange('Mu', 'moment', e.target.value)}
+                min="0"
+                step="5"
+              />
+              <span className="unit">{unitLabel('moment', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="demandMargin">Warn Within</label>
+            <div className="input-with-unit">
+              <input
+                id="demandMargin"
+                type="number"
+                value={input.demandMargin}
+                onChange={(e) => handleChange('demandMargin', parseFloat(e.target.value) || 0)}
+                min="0"
+                max="50"
+                step="1"
+              />
+              <span className="unit">% of {'\u03D5'}Mn</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="Pu">Factored Axial Load (Pu)</label>
+            <div className="input-with-unit">
+              <input
+                id="Pu"
+                type="number"
+                value={toInputValue(input.Pu, 'force', units)}
+                onChange={(e) => handleQuantityChange('Pu', 'force', e.target.value)}
+                step={isSI ? '50' : '10'}
+              />
+              <span className="unit">{unitLabel('force', units)}</span>
+            </div>
+          </div>
+        </div>
+        <p className="form-note">
+          Enter 0 for Mu to skip the demand/capacity check. An axial load (compression positive, tension
+          negative) adds the P-M interaction diagram with the demand point (Pu, Mu).
+        </p>
+      </div>
 
-          <div className="rebar-calculator">
-            <p className="helper-title">Quick Calculator:</p>
-            <div className="rebar-calc-row">
+      <div className="form-section">
+        <h3>
+          <span className="section-icon">&#8776;</span>
+          Serviceability
+        </h3>
+        <div className="input-grid">
+          <div className="input-group">
+            <label htmlFor="fs">Service Steel Stress (fs)</label>
+            <div className="input-with-unit">
+              <input
+                id="fs"
+                type="number"
+                value={toInputValue(input.fs, 'stress', units)}
+                onChange={(e) => handleQuantityChange('fs', 'stress', e.target.value)}
+                min="0"
+                step={isSI ? '5' : '1000'}
+              />
+              <span className="unit">{unitLabel('stress', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="Ma">Service Moment (Ma)</label>
+            <div className="input-with-unit">
+              <input
+                id="Ma"
+                type="number"
+                value={toInputValue(input.Ma, 'moment', units)}
+                onChange={(e) => handleQuantityChange('Ma', 'moment', e.target.value)}
+                min="0"
+                step="5"
+              />
+              <span className="unit">{unitLabel('moment', units)}</span>
+            </div>
+          </div>
+        </div>
+        <p className="form-note">
+          Enter 0 for fs to use 2/3 fy = {formatQuantity((2 / 3) * input.fy, 'stress', units, 0)} in the crack
+          control check of ACI 318-19 Section 24.3.2. Ma is the unfactored service moment used for Ie per
+          Table 24.2.3.5; enter 0 to skip.
+        </p>
+      </div>
+
+      <div className="form-section">
+        <h3>
+          <span className="section-icon">&#8615;</span>
+          Deflection
+        </h3>
+        <div className="input-grid">
+          <div className="input-group">
+            <label htmlFor="spanLength">Span Length ({'\u2113'}n)</label>
+            <div className="input-with-unit">
+              <input
+                id="spanLength"
+                type="number"
+                value={toInputValue(input.spanLength, 'span', units)}
+                onChange={(e) => handleQuantityChange('spanLength', 'span', e.target.value)}
+                min="0"
+                step={isSI ? '0.5' : '1'}
+              />
+              <span className="unit">{unitLabel('span', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="supportCondition">Support Condition</label>
+            <div className="input-with-unit">
               <select
-                id="barSize"
-                defaultValue="#8"
-                onChange={(e) => {
-                  const count = parseInt((document.getElementById('barCount') as HTMLInputElement).value) || 0;
-                  const total = getTotalSteelArea(e.target.value, count);
-                  handleChange('As', Number(total.toFixed(2)));
-                }}
+                id="supportCondition"
+                value={input.supportCondition}
+                onChange={(e) => onChange({ ...input, supportCondition: e.target.value as SupportCondition })}
               >
-                {Object.keys(REBAR_AREAS).map((bar) => (
-                  <option key={bar} value={bar}>{bar}</option>
+                {SUPPORT_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
                 ))}
               </select>
-              <span>x</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="deadLoad">Service Dead Load (wD)</label>
+            <div className="input-with-unit">
               <input
-                id="barCount"
+                id="deadLoad"
                 type="number"
-                defaultValue={3}
-                min={1}
-                max={20}
-                onChange={(e) => {
-                  const barSize = (document.getElementById('barSize') as HTMLSelectElement).value;
-                  const total = getTotalSteelArea(barSize, parseInt(e.target.value) || 0);
-                  handleChange('As', Number(total.toFixed(2)));
-                }}
+                value={toInputValue(input.deadLoad, 'lineLoad', units)}
+                onChange={(e) => handleQuantityChange('deadLoad', 'lineLoad', e.target.value)}
+                min="0"
+                step={isSI ? '1' : '0.1'}
               />
-              <span>bars</span>
+              <span className="unit">{unitLabel('lineLoad', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="liveLoad">Service Live Load (wL)</label>
+            <div className="input-with-unit">
+              <input
+                id="liveLoad"
+                type="number"
+                value={toInputValue(input.liveLoad, 'lineLoad', units)}
+                onChange={(e) => handleQuantityChange('liveLoad', 'lineLoad', e.target.value)}
+                min="0"
+                step={isSI ? '1' : '0.1'}
+              />
+              <span className="unit">{unitLabel('lineLoad', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="sustainedLive">Sustained Live Load</label>
+            <div className="input-with-unit">
+              <input
+                id="sustainedLive"
+                type="number"
+                value={input.sustainedLive}
+                onChange={(e) => handleChange('sustainedLive', parseFloat(e.target.value) || 0)}
+                min="0"
+                step="5"
+              />
+              <span className="unit">% of wL</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="deflectionLimitCase">Member Type</label>
+            <div className="input-with-unit">
+              <select
+                id="deflectionLimitCase"
+                value={input.deflectionLimitCase}
+                onChange={(e) => onChange({ ...input, deflectionLimitCase: e.target.value as DeflectionLimitCase })}
+              >
+                {DEFLECTION_LIMIT_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
+        <p className="form-note">
+          Dead load should include the beam self-weight. Long-term deflection uses {'\u03BE'} = 2.0 (5 years
+          or more) per ACI 318-19 Section 24.2.4. Enter 0 for the span to skip the deflection check.
+        </p>
       </div>
 
       <div className="form-section">
         <h3>
-          <span className="section-icon">&#9650;</span>
-          Compression Reinforcement (Optional)
+          <span className="section-icon">&#9645;</span>
+          Shear Design
         </h3>
         <div className="input-grid">
           <div className="input-group">
-            <label htmlFor="As_prime">Area of Compression Steel (A's)</label>
+            <label htmlFor="Vu">Factored Shear (Vu)</label>
+            <div className="input-with-unit">
+              <input
+                id="Vu"
+                type="number"
+                value={toInputValue(input.Vu, 'force', units)}
+                onChange={(e) => handleQuantityChange('Vu', 'force', e.target.value)}
+                min="0"
+                step={isSI ? '5' : '1'}
+              />
+              <span className="unit">{unitLabel('force', units)}</span>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="lambda">Concrete Type ({'\u03BB'})</label>
+            <div className="input-with-unit">
+              <select
+                id="lambda"
+                value={input.lambda}
+                onChange={(e) => handleChange('lambda', parseFloat(e.target.value))}
+              >
+                {LAMBDA_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="stirrupLegs">Number of Legs</label>
             <div className="input-with-unit">
               <input
-                id="As_prime"
+                id="stirrupLegs"
                 type="number"
-                value={input.As_prime}
-                onChange={(e) => handleChange('As_prime', parseFloat(e.target.value) || 0)}
+                value={input.stirrupLegs}
+                onChange={(e) => handleChange('stirrupLegs', parseInt(e.target.value) || 0)}
                 min="0"
-                step="0.1"
+                max="8"
+                step="1"
               />
-              <span className="unit">in&sup2;</span>
+              <span className="unit">legs</span>
             </div>
           </div>
 
           <div className="input-group">
-            <label htmlFor="d_prime">Depth to Compression Steel (d')</label>
+            <label htmlFor="stirrupSpacing">Stirrup Spacing (s)</label>
             <div className="input-with-unit">
               <input
-                id="d_prime"
+                id="stirrupSpacing"
                 type="number"
-                value={input.d_prime}
-                onChange={(e) => handleChange('d_prime', parseFloat(e.target.value) || 0)}
+                value={toInputValue(input.stirrupSpacing, 'length', units)}
+                onChange={(e) => handleQuantityChange('stirrupSpacing', 'length', e.target.value)}
                 min="0"
-                step="0.25"
+                step={isSI ? '10' : '0.5'}
               />
-              <span className="unit">in</span>
+              <span className="unit">{unitLabel('length', units)}</span>
             </div>
           </div>
         </div>
         <p className="form-note">
-          Note: Compression reinforcement analysis is simplified. For accurate doubly-reinforced beam analysis,
-          verify compression steel yields.
+          Stirrup yield strength is taken as fy, limited to {formatQuantity(60000, 'stress', units, 0)} per ACI 318-19 Section 22.5.3.3.
+          Enter a spacing of 0 for no stirrups.
         </p>
       </div>
+
+      <div className="form-section">
+        <h3>
+          <span className="section-icon">&#8767;</span>
+          Refined Analysis
+        </h3>
+        <div className="input-grid">
+          <div className={`input-group${input.refinedAnalysis ? '' : ' full-width'}`}>
+            <label htmlFor="refinedAnalysis">Analysis</label>
+            <div className="input-with-unit">
+              <select
+                id="refinedAnalysis"
+                value={input.refinedAnalysis ? 'fiber' : 'code'}
+                onChange={(e) => onChange({ ...input, refinedAnalysis: e.target.value === 'fiber' })}
+              >
+                <option value="code">Code stress block only</option>
+                <option value="fiber">Add fiber-section analysis</option>
+              </select>
+            </div>
+          </div>
+
+          {input.refinedAnalysis && (
+            <>
+              <div className="input-group">
+                <label htmlFor="extremeFiberStrain">Extreme Fiber Strain ({'\u03B5'}c)</label>
+                <div className="input-with-unit">
+                  <input
+                    id="extremeFiberStrain"
+                    type="number"
+                    value={input.extremeFiberStrain}
+                    onChange={(e) => handleChange('extremeFiberStrain', parseFloat(e.target.value) || 0.003)}
+                    min="0.0005"
+                    max="0.006"
+                    step="0.0005"
+                  />
+                </div>
+              </div>
+
+              <div className="input-group">
+                <label htmlFor="concreteModel">Concrete Model</label>
+                <div className="input-with-unit">
+                  <select
+                    id="concreteModel"
+                    value={input.concreteModel}
+                    onChange={(e) => onChange({ ...input, concreteModel: e.target.value as ConcreteModel })}
+                  >
+                    {CONCRETE_MODEL_OPTIONS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="input-group">
+                <label htmlFor="steelModel">Steel Model</label>
+                <div className="input-with-unit">
+                  <select
+                    id="steelModel"
+                    value={input.steelModel}
+                    onChange={(e) => onChange({ ...input, steelModel: e.target.value as SteelModel })}
+                  >
+                    {STEEL_MODEL_OPTIONS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+        {input.refinedAnalysis && (
+          <p className="form-note">
+            The section is divided into fibers and solved for equilibrium at the given compression strain.
+            Strengths are nominal, with a peak concrete stress of 0.9f'c and concrete in tension ignored.
+            The code checks still use the equivalent rectangular stress block.
+          </p>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,119 @@
+import type { BeamInput, BeamResults } from '../types/beam';
+import { formatNumber } from '../utils/beamCalculations';
+import { getDesignCode } from '../utils/designCodes';
+import { formatQuantity, fromCustomary, unitLabel } from '../utils/units';
+import './InteractionDiagram.css';
+
+interface InteractionDiagramProps {
+  input: BeamInput;
+  results: BeamResults | null;
+}
+
+export function InteractionDiagram({ input, results }: InteractionDiagramProps) {
+  if (!results || !results.interaction) {
+    return null;
+  }
+
+  const { interaction } = results;
+  const { points, balanced, tensionControlled } = interaction;
+  const code = getDesignCode(input.designCode);
+  const units = input.unitSystem;
+  const force = (value: number) => formatQuantity(value, 'force', units, 1);
+  const moment = (value: number) => formatQuantity(value, 'moment', units, 1);
+  const pureTension = points[points.length - 1];
+
+  // SVG dimensions and plot area
+  const svgWidth = 300;
+  const svgHeight = 260;
+  const plotX1 = 20;
+  const plotX2 = svgWidth - 20;
+  const plotY1 = 20;
+  const plotY2 = svgHeight - 25;
+
+  // Axis ranges cover the nominal diagram and the demand point
+  const moments = [...points.map((point) => point.Mn_kip_ft), interaction.Mu_kip_ft, 0];
+  const forces = [...points.map((point) => point.Pn), interaction.Pu, 0];
+  const minM = Math.min(...moments);
+  const maxM = 1.1 * Math.max(...moments);
+  const minP = 1.1 * Math.min(...forces);
+  const maxP = 1.1 * Math.max(...forces);
+  const toX = (value: number) => plotX1 + ((value - minM) / (maxM - minM)) * (plotX2 - plotX1);
+  const toY = (value: number) => plotY2 - ((value - minP) / (maxP - minP)) * (plotY2 - plotY1);
+
+  const nominalPoints = points.map((point) => `${toX(point.Mn_kip_ft)},${toY(point.Pn)}`).join(' ');
+  const designPoints = points.map((point) => `${toX(point.phiMn_kip_ft)},${toY(point.phiPn)}`).join(' ');
+  const demandX = toX(interaction.Mu_kip_ft);
+  const demandY = toY(interaction.Pu);
+
+  const rows = [
+    ['Po (zero eccentricity)', force(interaction.Po)],
+    [`Pn,max = ${formatNumber(code.axialCapFactor, 2)}Po`, force(interaction.Pn_max)],
+    ['\u03D5Pn,max', force(interaction.phiPn_max)],
+    [
+      `Compression-controlled limit (\u03D5 = ${formatNumber(balanced.phi, 2)})`,
+      `${force(balanced.phiPn)}, ${moment(balanced.phiMn_kip_ft)}`,
+    ],
+    [
+      `Tension-controlled limit (\u03D5 = ${formatNumber(tensionControlled.phi, 2)})`,
+      `${force(tensionControlled.phiPn)}, ${moment(tensionControlled.phiMn_kip_ft)}`,
+    ],
+    ['\u03D5Pnt (pure tension)', force(pureTension.phiPn)],
+  ];
+
+  return (
+    <div className="interaction-diagram">
+      <h4>P-M Interaction</h4>
+      <svg width={svgWidth} height={svgHeight} className="interaction-svg">
+        {/* Axes through the origin */}
+        <line x1={plotX1} y1={toY(0)} x2={plotX2} y2={toY(0)} stroke="#4a5568" strokeWidth="1" />
+        <line x1={toX(0)} y1={plotY1} x2={toX(0)} y2={plotY2} stroke="#4a5568" strokeWidth="1" />
+        <text x={toX(0) + 4} y={plotY1 - 6} className="interaction-axis">
+          P ({unitLabel('force', units)})
+        </text>
+        <text x={plotX2} y={toY(0) - 4} className="interaction-axis end">
+          M ({unitLabel('moment', units)})
+        </text>
+
+        {/* Nominal and design diagrams */}
+        <polyline points={nominalPoints} fill="none" stroke="#a0aec0" strokeWidth="1.5" strokeDasharray="4 2" />
+        <polyline points={designPoints} fill="none" stroke="#3182ce" strokeWidth="2" />
+
+        {/* Compression-controlled and tension-controlled limits */}
+        {[balanced, tensionControlled].map((point, index) => (
+          <circle key={index} cx={toX(point.phiMn_kip_ft)} cy={toY(point.phiPn)} r="2.5" fill="#805ad5" />
+        ))}
+
+        {/* Demand point */}
+        <line x1={toX(0)} y1={toY(0)} x2={demandX} y2={demandY} stroke="#e53e3e" strokeWidth="1" strokeDasharray="3 2" />
+        <circle cx={demandX} cy={demandY} r="3.5" fill={interaction.isAdequate ? '#38a169' : '#e53e3e'} />
+        <text x={demandX + 6} y={demandY + 3} className="interaction-label">
+          (Mu, Pu)
+        </text>
+        <text x={plotX2} y={plotY1} className="interaction-axis end">
+          {'\u03D5'}Pn,max = {formatNumber(fromCustomary(interaction.phiPn_max, 'force', units), 0)}
+        </text>
+      </svg>
+
+      <table className="interaction-table">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td>{value}</td>
+            </tr>
+          ))}
+          <tr className={interaction.isAdequate ? 'pass' : 'fail'}>
+            <td>
+              {interaction.isAdequate ? '\u2713' : '\u2717'} D/C at e = Mu/Pu
+            </td>
+            <td>{formatNumber(interaction.demandCapacityRatio, 3)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="interaction-note">
+        Moments about the gross-section centroid. Dashed: nominal Pn-Mn; solid: design {'\u03D5'}Pn-{'\u03D5'}Mn
+        with the axial cap of {code.clauses.axialCap}.
+      </p>
+    </div>
+  );
+}
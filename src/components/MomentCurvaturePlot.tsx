@@ -0,0 +1,121 @@
+import type { BeamInput, BeamResults, MomentCurvaturePoint } from '../types/beam';
+import { CONCRETE_MODEL_OPTIONS } from '../types/beam';
+import { formatNumber } from '../utils/beamCalculations';
+import { formatQuantity, fromCustomary, unitLabel } from '../utils/units';
+import './MomentCurvaturePlot.css';
+
+interface MomentCurvaturePlotProps {
+  input: BeamInput;
+  results: BeamResults | null;
+}
+
+export function MomentCurvaturePlot({ input, results }: MomentCurvaturePlotProps) {
+  if (!results) {
+    return null;
+  }
+
+  const { momentCurvature } = results;
+  const { curve, cracking, firstYield, peak, ultimate } = momentCurvature;
+  const units = input.unitSystem;
+  const isSI = units === 'SI';
+  const moment = (value: number) => formatQuantity(value, 'moment', units, 1);
+  // Curvatures are shown in 10⁻³/in or 10⁻³/m
+  const curvature = (value: number) => formatNumber(fromCustomary(value, 'curvature', units) * 1000, isSI ? 2 : 4);
+
+  // SVG dimensions and plot area
+  const svgWidth = 300;
+  const svgHeight = 200;
+  const plotX1 = 40;
+  const plotX2 = svgWidth - 15;
+  const plotY1 = 20;
+  const plotY2 = svgHeight - 30;
+
+  const maxCurvature = Math.max(...curve.map((point) => point.curvature));
+  const maxMoment = 1.1 * peak.M_kip_ft;
+  const toX = (value: number) => plotX1 + (value / maxCurvature) * (plotX2 - plotX1);
+  const toY = (value: number) => plotY2 - (Math.max(0, value) / maxMoment) * (plotY2 - plotY1);
+
+  const curvePoints = curve.map((point) => `${toX(point.curvature)},${toY(point.M_kip_ft)}`).join(' ');
+
+  const keyPoints: [string, string, MomentCurvaturePoint | null][] = [
+    ['Cr', 'Cracking', cracking],
+    ['Y', 'First yield', firstYield],
+    ['P', 'Peak moment', peak],
+    ['U', `Ultimate, \u03B5c = ${Number(ultimate.epsilon_c.toFixed(5))}`, ultimate],
+  ];
+
+  const modelLabel = CONCRETE_MODEL_OPTIONS.find(({ value }) => value === input.concreteModel)?.label ?? '';
+
+  return (
+    <div className="moment-curvature-plot">
+      <h4>Moment-Curvature</h4>
+      <svg width={svgWidth} height={svgHeight} className="moment-curvature-svg">
+        {/* Axes */}
+        <line x1={plotX1} y1={plotY2} x2={plotX2} y2={plotY2} stroke="#4a5568" strokeWidth="1" />
+        <line x1={plotX1} y1={plotY1} x2={plotX1} y2={plotY2} stroke="#4a5568" strokeWidth="1" />
+        <text x={plotX1 - 4} y={toY(peak.M_kip_ft) + 3} className="moment-curvature-axis end">
+          {formatNumber(fromCustomary(peak.M_kip_ft, 'moment', units), 0)}
+        </text>
+        <text x={plotX1 - 4} y={plotY2 + 3} className="moment-curvature-axis end">0</text>
+        <text x={plotX2} y={plotY2 + 12} className="moment-curvature-axis end">
+          {curvature(maxCurvature)}
+        </text>
+        <text x={plotX1} y={plotY1 - 8} className="moment-curvature-axis">
+          M ({unitLabel('moment', units)})
+        </text>
+        <text x={(plotX1 + plotX2) / 2} y={svgHeight - 6} className="moment-curvature-axis middle">
+          {'\u03C6'} (10{'\u207B\u00B3'}/{isSI ? 'm' : 'in'})
+        </text>
+
+        {/* Response curve */}
+        <polyline points={curvePoints} fill="none" stroke="#3182ce" strokeWidth="2" />
+
+        {/* Key points (the ultimate label sits below the curve, clear of the peak) */}
+        {keyPoints.map(([tag, , point]) => point && (
+          <g key={tag}>
+            <circle cx={toX(point.curvature)} cy={toY(point.M_kip_ft)} r="3" fill="#e53e3e" />
+            <text
+              x={toX(point.curvature)}
+              y={toY(point.M_kip_ft) + (tag === 'U' ? 14 : -6)}
+              className="moment-curvature-label"
+            >
+              {tag}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <table className="moment-curvature-table">
+        <thead>
+          <tr>
+            <th>Point</th>
+            <th>{'\u03C6'} (10{'\u207B\u00B3'}/{isSI ? 'm' : 'in'})</th>
+            <th>M</th>
+          </tr>
+        </thead>
+        <tbody>
+          {keyPoints.map(([tag, label, point]) => (
+            <tr key={tag}>
+              <td>{tag} {'\u2014'} {label}</td>
+              <td>{point ? curvature(point.curvature) : '\u2014'}</td>
+              <td>{point ? moment(point.M_kip_ft) : 'no yield before crushing'}</td>
+            </tr>
+          ))}
+          <tr className="ductility">
+            <td colSpan={2}>Curvature ductility {'\u03BC\u03C6'} = {'\u03C6'}u / {'\u03C6'}y</td>
+            <td>
+              {momentCurvature.isBelowCracking
+                ? 'N/A (Mn < Mcr)'
+                : momentCurvature.ductility === null ? 'N/A' : formatNumber(momentCurvature.ductility, 2)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="moment-curvature-note">
+        Nominal strengths, {modelLabel} concrete. Cracking from the gross section; concrete in tension is
+        ignored after cracking.
+        {momentCurvature.isBelowCracking && ' Mn < Mcr: the cracked section carries less than the cracking moment, so the beam fails as it cracks.'}
+      </p>
+    </div>
+  );
+}
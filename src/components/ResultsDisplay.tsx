@@ -1,12 +1,15 @@
-import type { BeamResults } from '../types/beam';
-import { formatNumber } from '../utils/beamCalculations';
+import type { BeamResults, UnitSystem } from '../types/beam';
+import { formatCodeCheck, formatNumber } from '../utils/beamCalculations';
+import { formatCodeName, getDesignCode } from '../utils/designCodes';
+import { formatQuantity, fromCustomary, unitLabel } from '../utils/units';
 import './ResultsDisplay.css';
 
 interface ResultsDisplayProps {
   results: BeamResults | null;
+  units: UnitSystem;
 }
 
-export function ResultsDisplay({ results }: ResultsDisplayProps) {
+export function ResultsDisplay({ results, units }: ResultsDisplayProps) {
   if (!results) {
     return (
       <div className="results-display">
@@ -44,6 +47,30 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
     }
   };
 
+  const isSI = units === 'SI';
+  const code = getDesignCode(results.designCode);
+  const { alpha1, fc, fy } = code.symbols;
+  const { clauses } = code;
+  // Codes that factor the materials state them as φc, φs or as γc = 1/φc, γs = 1/φs
+  const materialFactors = code.materialFactors === 'gamma'
+    ? `\u03B3c = ${formatNumber(1 / results.phi_c, 2)}, \u03B3s = ${formatNumber(1 / results.phi_s, 2)}`
+    : `\u03D5c = ${formatNumber(results.phi_c, 2)}, \u03D5s = ${formatNumber(results.phi_s, 2)}`;
+  const tensionControlStrain = Number(results.epsilon_t_tc.toFixed(5));
+  const strainLimit = Number(results.epsilon_t_min.toFixed(5));
+  // ACI 318-11 starts the φ transition at 0.002 rather than at εy
+  const compressionControlLimit = results.epsilon_t_cc === results.epsilon_y
+    ? '\u03B5y'
+    : Number(results.epsilon_t_cc.toFixed(5));
+  const length = (value: number, decimals: number) => formatQuantity(value, 'length', units, decimals);
+  const moment = (value: number) => formatQuantity(value, 'moment', units, 1);
+  const force = (value_lb: number) => formatQuantity(value_lb / 1000, 'force', units, 1);
+
+  const getDemandStatusClass = () => {
+    if (!results.isMomentAdequate) return 'fail';
+    if (results.isNearCapacity) return 'warning';
+    return 'pass';
+  };
+
   return (
     <div className="results-display">
       {/* Primary Results */}
@@ -51,28 +78,45 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
         <div className="result-card main-result">
           <span className="result-label">Design Moment Capacity</span>
           <span className="result-value large">
-            {formatNumber(results.phiMn_kip_ft, 1)}
-            <span className="result-unit">kip-ft</span>
+            {formatNumber(fromCustomary(results.phiMn_kip_ft, 'moment', units), 1)}
+            <span className="result-unit">{unitLabel('moment', units)}</span>
           </span>
           <span className="result-sublabel">
-            {'\u03D5'}Mn = {formatNumber(results.phi, 2)} x {formatNumber(results.Mn_kip_ft, 1)} kip-ft
+            {code.materialFactors
+              ? `${code.materialFactors === 'gamma' ? 'MRd' : 'Mr'} with ${materialFactors}`
+              : <>{'\u03D5'}Mn = {formatNumber(results.phi, 2)} x {moment(results.Mn_kip_ft)}</>}
           </span>
+          {results.hasMomentDemand && (
+            <span className={`dc-badge ${getDemandStatusClass()}`}>
+              {results.isMomentAdequate ? '\u2713 OK' : '\u2717 NG'}
+              {' \u2014 '}Mu = {moment(results.Mu_kip_ft)}, D/C = {formatNumber(results.demandCapacityRatio, 3)}
+            </span>
+          )}
         </div>
 
-        <div className="result-card">
-          <span className="result-label">Nominal Moment Capacity</span>
-          <span className="result-value">
-            {formatNumber(results.Mn_kip_ft, 1)}
-            <span className="result-unit">kip-ft</span>
-          </span>
-        </div>
+        {code.materialFactors ? (
+          <div className="result-card">
+            <span className="result-label">Material Resistance Factors</span>
+            <span className="result-value">{materialFactors}</span>
+          </div>
+        ) : (
+          <>
+            <div className="result-card">
+              <span className="result-label">Nominal Moment Capacity</span>
+              <span className="result-value">
+                {formatNumber(fromCustomary(results.Mn_kip_ft, 'moment', units), 1)}
+                <span className="result-unit">{unitLabel('moment', units)}</span>
+              </span>
+            </div>
 
-        <div className="result-card">
-          <span className="result-label">Strength Reduction Factor</span>
-          <span className="result-value">
-            {'\u03D5'} = {formatNumber(results.phi, 3)}
-          </span>
-        </div>
+            <div className="result-card">
+              <span className="result-label">Strength Reduction Factor</span>
+              <span className="result-value">
+                {'\u03D5'} = {formatNumber(results.phi, 3)}
+              </span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Section Classification */}
@@ -106,10 +150,12 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
                   title={`εt = ${formatNumber(results.epsilon_t, 5)}`}
                 />
                 <span className="scale-mark" style={{ left: '0%' }}>0</span>
-                <span className="scale-mark" style={{ left: `${(results.epsilon_y / 0.008) * 100}%` }}>
-                  {'\u03B5'}y
+                <span className="scale-mark" style={{ left: `${(results.epsilon_t_cc / 0.008) * 100}%` }}>
+                  {compressionControlLimit}
+                </span>
+                <span className="scale-mark" style={{ left: `${Math.min(100, (results.epsilon_t_tc / 0.008) * 100)}%` }}>
+                  {tensionControlStrain}
                 </span>
-                <span className="scale-mark" style={{ left: '62.5%' }}>0.005</span>
                 <span className="scale-mark" style={{ left: '100%' }}>0.008</span>
               </div>
             </div>
@@ -121,25 +167,110 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
       <div className="results-section">
         <h4>Analysis Parameters</h4>
         <div className="results-grid">
+          {code.materialFactors && (
+            <div className="result-item">
+              <span className="item-label">{alpha1} (Stress block intensity)</span>
+              <span className="item-value">{formatNumber(results.alpha1, 3)}</span>
+            </div>
+          )}
           <div className="result-item">
             <span className="item-label">{'\u03B2'}1 (Stress block factor)</span>
             <span className="item-value">{formatNumber(results.beta1, 3)}</span>
           </div>
           <div className="result-item">
             <span className="item-label">a (Stress block depth)</span>
-            <span className="item-value">{formatNumber(results.a, 3)} in</span>
+            <span className="item-value">{length(results.a, 3)}</span>
           </div>
           <div className="result-item">
             <span className="item-label">c (Neutral axis depth)</span>
-            <span className="item-value">{formatNumber(results.c, 3)} in</span>
+            <span className="item-value">{length(results.c, 3)}</span>
           </div>
           <div className="result-item">
             <span className="item-label">{'\u03B5'}cu (Ultimate concrete strain)</span>
             <span className="item-value">{formatNumber(results.epsilon_cu, 4)}</span>
           </div>
+          <div className="result-item">
+            <span className="item-label">As (Tension steel area)</span>
+            <span className="item-value">{formatQuantity(results.As, 'area', units, 2)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">d (Centroid of tension steel)</span>
+            <span className="item-value">{length(results.d, 3)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">dt (Extreme tension layer)</span>
+            <span className="item-value">{length(results.dt, 3)}</span>
+          </div>
         </div>
       </div>
 
+      {/* Negative Bending */}
+      {results.isNegativeMoment && (
+        <div className="results-section">
+          <h4>Negative Bending (Top in Tension)</h4>
+          <div className="results-grid">
+            <div className="result-item">
+              <span className="item-label">Compression face</span>
+              <span className="item-value">Bottom (web)</span>
+            </div>
+            {results.slabBarCount > 0 && (
+              <div className="result-item">
+                <span className="item-label">Slab bars within be ({results.slabBarCount})</span>
+                <span className="item-value">{formatQuantity(results.As_slab, 'area', units, 2)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Flanged Section */}
+      {results.isFlanged && (
+        <div className="results-section">
+          <h4>Flanged Section (T/L-Beam)</h4>
+          <div className="results-grid">
+            <div className="result-item">
+              <span className="item-label">be (Effective flange width)</span>
+              <span className="item-value">{length(results.bf_eff, 2)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">Stress block location</span>
+              <span className="item-value">{results.stressBlockInFlange ? 'In flange (a \u2264 hf)' : 'In web (a > hf)'}</span>
+            </div>
+            {!results.stressBlockInFlange && (
+              <div className="result-item">
+                <span className="item-label">Cf (Flange overhang force)</span>
+                <span className="item-value">{formatQuantity(results.Cf / 1000, 'force', units, 2)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Compression Steel */}
+      {results.isDoublyReinforced && (
+        <div className="results-section">
+          <h4>Compression Steel (Doubly Reinforced)</h4>
+          <div className="results-grid">
+            <div className="result-item">
+              <span className="item-label">{'\u03B5'}'s (Compression steel strain)</span>
+              <span className="item-value">{formatNumber(results.epsilon_s_prime, 5)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">f's (Compression steel stress)</span>
+              <span className="item-value">{formatQuantity(results.fs_prime, 'stress', units, 0)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">Cs (Compression steel force)</span>
+              <span className="item-value">{formatQuantity(results.Cs / 1000, 'force', units, 2)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">Compression steel yields</span>
+              <span className="item-value">{results.compressionSteelYields ? 'Yes' : 'No'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reinforcement Ratios */}
       <div className="results-section">
         <h4>Reinforcement Ratios</h4>
@@ -184,8 +315,18 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
 
       {/* Code Checks */}
       <div className="results-section">
-        <h4>ACI 318 Code Checks</h4>
+        <h4>{formatCodeName(code, units)} Code Checks</h4>
         <div className="checks-grid">
+          {results.hasMomentDemand && (
+            <div className={`check-item ${getDemandStatusClass()}`}>
+              <span className="check-icon">
+                {!results.isMomentAdequate ? '\u2717' : results.isNearCapacity ? '\u26A0' : '\u2713'}
+              </span>
+              <span className="check-text">
+                Flexural Strength ({'\u03D5'}Mn {'\u2265'} Mu, D/C = {formatNumber(results.demandCapacityRatio, 3)})
+              </span>
+            </div>
+          )}
           <div className={`check-item ${results.isAdequatelyReinforced ? 'pass' : 'fail'}`}>
             <span className="check-icon">{results.isAdequatelyReinforced ? '\u2713' : '\u2717'}</span>
             <span className="check-text">
@@ -204,25 +345,201 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
               Steel Yields ({'\u03B5'}t {'\u2265'} {'\u03B5'}y)
             </span>
           </div>
+          <div className={`check-item ${results.crackControl.isSpacingAdequate ? 'pass' : 'fail'}`}>
+            <span className="check-icon">{results.crackControl.isSpacingAdequate ? '\u2713' : '\u2717'}</span>
+            <span className="check-text">
+              Crack Control (s = {length(results.crackControl.s, 2)} {'\u2264'} {length(results.crackControl.s_max, 2)})
+            </span>
+          </div>
+          {results.minimumThickness.hasSpan && (
+            <div className={`check-item ${results.minimumThickness.isThicknessAdequate ? 'pass' : 'warning'}`}>
+              <span className="check-icon">
+                {results.minimumThickness.isThicknessAdequate ? '\u2713' : '\u26A0'}
+              </span>
+              <span className="check-text">
+                Minimum Thickness (h {'\u2265'} {'\u2113'}/{results.minimumThickness.divisor} = {length(results.minimumThickness.h_min, 2)})
+                {' \u2014 '}
+                {results.minimumThickness.canSkipDeflection
+                  ? 'deflection calculation not required'
+                  : 'deflections must be calculated'}
+              </span>
+            </div>
+          )}
           <div className={`check-item ${results.sectionType === 'tension-controlled' ? 'pass' : 'warning'}`}>
             <span className="check-icon">
               {results.sectionType === 'tension-controlled' ? '\u2713' : '\u26A0'}
             </span>
             <span className="check-text">
-              Tension-Controlled Section ({'\u03B5'}t {'\u2265'} 0.005)
+              {code.materialFactors ? 'Ductile Section' : 'Tension-Controlled Section'} ({'\u03B5'}t {'\u2265'} {tensionControlStrain})
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {/* Shear Design */}
+      <div className="results-section">
+        <h4>Shear Design (ACI 318-19 Section 22.5)</h4>
+        <div className="results-grid">
+          <div className="result-item">
+            <span className="item-label">{'\u03D5'}Vn (Design shear strength)</span>
+            <span className="item-value">{force(results.shear.phiVn)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Vu (Factored shear)</span>
+            <span className="item-value">{force(results.shear.Vu)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Vc (Concrete)</span>
+            <span className="item-value">{force(results.shear.Vc)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Vs (Stirrups)</span>
+            <span className="item-value">{force(results.shear.Vs)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Av / Av,min</span>
+            <span className="item-value">
+              {formatNumber(fromCustomary(results.shear.Av, 'area', units), isSI ? 0 : 2)} / {formatQuantity(results.shear.Av_min, 'area', units, 2)}
+            </span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">s,max (Maximum spacing)</span>
+            <span className="item-value">{length(results.shear.s_max, 2)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">{'\u03BB'}s (Size effect factor)</span>
+            <span className="item-value">{formatNumber(results.shear.lambda_s, 3)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">{'\u03C1'}w (As / bw{'\u00B7'}d)</span>
+            <span className="item-value">{(results.shear.rho_w * 100).toFixed(3)}%</span>
+          </div>
+        </div>
+        <div className="checks-grid shear-checks">
+          <div className={`check-item ${results.shear.isStrengthAdequate ? 'pass' : 'fail'}`}>
+            <span className="check-icon">{results.shear.isStrengthAdequate ? '\u2713' : '\u2717'}</span>
+            <span className="check-text">Shear Strength ({'\u03D5'}Vn {'\u2265'} Vu)</span>
+          </div>
+          <div className={`check-item ${results.shear.isSectionAdequate ? 'pass' : 'fail'}`}>
+            <span className="check-icon">{results.shear.isSectionAdequate ? '\u2713' : '\u2717'}</span>
+            <span className="check-text">Section Size (Vu {'\u2264'} {'\u03D5'}(Vc + {isSI ? '0.66' : '8'}{'\u221A'}f'c{'\u00B7'}bw{'\u00B7'}d))</span>
+          </div>
+          <div className={`check-item ${results.shear.isSpacingAdequate ? 'pass' : 'fail'}`}>
+            <span className="check-icon">{results.shear.isSpacingAdequate ? '\u2713' : '\u2717'}</span>
+            <span className="check-text">Stirrup Spacing (s {'\u2264'} s,max)</span>
+          </div>
+          <div className={`check-item ${results.shear.isAvMinSatisfied ? 'pass' : 'fail'}`}>
+            <span className="check-icon">{results.shear.isAvMinSatisfied ? '\u2713' : '\u2717'}</span>
+            <span className="check-text">
+              Minimum Shear Reinforcement {results.shear.isAvMinRequired ? '(Av \u2265 Av,min)' : '(not required)'}
             </span>
           </div>
         </div>
+        {results.shear.warnings.length > 0 && (
+          <ul className="warnings-list shear-warnings">
+            {results.shear.warnings.map((warning, index) => (
+              <li key={index} className={warning.severity === 'error' ? 'error' : 'warning'}>
+                {formatCodeCheck(warning)}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      {/* Service Properties */}
+      <div className="results-section">
+        <h4>Service Properties (ACI 318-19 Section 24.2)</h4>
+        <div className="results-grid">
+          <div className="result-item">
+            <span className="item-label">Ec (Concrete modulus)</span>
+            <span className="item-value">{formatQuantity(results.service.Ec, 'stress', units, 0)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">n (Modular ratio Es/Ec)</span>
+            <span className="item-value">{formatNumber(results.service.n, 2)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">fr (Modulus of rupture)</span>
+            <span className="item-value">{formatQuantity(results.service.fr, 'stress', units, 1)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Ig (Gross moment of inertia)</span>
+            <span className="item-value">{formatQuantity(results.service.Ig, 'inertia', units, 0)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Mcr (Cracking moment)</span>
+            <span className="item-value">{moment(results.service.Mcr_kip_ft)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">kd (Cracked neutral axis)</span>
+            <span className="item-value">{length(results.service.kd, 3)}</span>
+          </div>
+          <div className="result-item">
+            <span className="item-label">Icr (Cracked transformed)</span>
+            <span className="item-value">{formatQuantity(results.service.Icr, 'inertia', units, 0)}</span>
+          </div>
+          {results.service.hasServiceMoment && (
+            <div className="result-item">
+              <span className="item-label">Ie at Ma = {moment(results.service.Ma_kip_ft)}</span>
+              <span className="item-value">{formatQuantity(results.service.Ie, 'inertia', units, 0)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Refined Fiber-Section Analysis */}
+      {results.fiber && (
+        <div className="results-section">
+          <h4>Refined Fiber-Section Analysis ({'\u03B5'}c = {results.fiber.epsilon_c})</h4>
+          <div className="results-grid">
+            <div className="result-item">
+              <span className="item-label">Mn (Nominal moment, fibers)</span>
+              <span className="item-value">{moment(results.fiber.Mn_kip_ft)}</span>
+            </div>
+            {!code.materialFactors && (
+              <div className="result-item">
+                <span className="item-label">Mn,fiber / Mn,stress block</span>
+                <span className="item-value">{formatNumber(results.fiber.Mn_kip_ft / results.Mn_kip_ft, 3)}</span>
+              </div>
+            )}
+            <div className="result-item">
+              <span className="item-label">c (Neutral axis depth)</span>
+              <span className="item-value">{length(results.fiber.c, 3)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">f''c (Peak concrete stress)</span>
+              <span className="item-value">{formatQuantity(results.fiber.fc_peak, 'stress', units, 0)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">Cc (Concrete compression)</span>
+              <span className="item-value">{force(results.fiber.Cc)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">Cs (Compression steel)</span>
+              <span className="item-value">{force(results.fiber.Cs)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">T (Tension steel)</span>
+              <span className="item-value">{force(results.fiber.T)}</span>
+            </div>
+            <div className="result-item">
+              <span className="item-label">{'\u03B5'}t / fs (Extreme tension steel)</span>
+              <span className="item-value">
+                {results.fiber.epsilon_t.toFixed(5)} / {formatQuantity(results.fiber.fs, 'stress', units, 0)}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Warnings */}
       {results.warnings.length > 0 && (
         <div className="results-section warnings-section">
           <h4>Warnings & Notes</h4>
           <ul className="warnings-list">
             {results.warnings.map((warning, index) => (
-              <li key={index} className={warning.startsWith('Error') ? 'error' : 'warning'}>
-                {warning}
+              <li key={index} className={warning.severity === 'error' ? 'error' : 'warning'}>
+                {formatCodeCheck(warning)}
               </li>
             ))}
           </ul>
@@ -231,20 +548,87 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
 
       {/* Formulas Reference */}
       <div className="results-section formulas-section">
-        <h4>ACI 318-19 Formulas Used</h4>
+        <h4>{formatCodeName(code, units)} Formulas Used</h4>
         <div className="formulas-grid">
+          {results.isDoublyReinforced ? (
+            <div className="formula-item">
+              <span className="formula">{alpha1}{'\u00B7'}{fc}{'\u00B7'}Ac + Cs = As{'\u00B7'}fs</span>
+              <span className="formula-ref">{clauses.strainCompatibility}</span>
+            </div>
+          ) : results.isFlanged && !results.stressBlockInFlange ? (
+            <>
+              <div className="formula-item">
+                <span className="formula">Cf = {alpha1}{'\u00B7'}{fc}{'\u00B7'}(be - bw){'\u00B7'}hf</span>
+                <span className="formula-ref">{clauses.equilibrium}</span>
+              </div>
+              <div className="formula-item">
+                <span className="formula">a = (As{'\u00B7'}{fy} - Cf) / ({alpha1}{'\u00B7'}{fc}{'\u00B7'}bw)</span>
+                <span className="formula-ref">{clauses.equilibrium}</span>
+              </div>
+            </>
+          ) : results.isFlanged ? (
+            <div className="formula-item">
+              <span className="formula">a = As{'\u00B7'}{fy} / ({alpha1}{'\u00B7'}{fc}{'\u00B7'}be)</span>
+              <span className="formula-ref">{clauses.equilibrium}</span>
+            </div>
+          ) : (
+            <div className="formula-item">
+              <span className="formula">a = As{'\u00B7'}{fy} / ({alpha1}{'\u00B7'}{fc}{'\u00B7'}b)</span>
+              <span className="formula-ref">{clauses.equilibrium}</span>
+            </div>
+          )}
           <div className="formula-item">
-            <span className="formula">a = As{'\u00B7'}fy / (0.85{'\u00B7'}f'c{'\u00B7'}b)</span>
+            <span className="formula">c = a / {'\u03B2'}1</span>
+            <span className="formula-ref">{clauses.stressBlock}</span>
           </div>
+          {results.isDoublyReinforced ? (
+            <div className="formula-item">
+              <span className="formula">Mn = Cc{'\u00B7'}(d - {'\u0233'}) + Cs{'\u00B7'}(d - d')</span>
+              <span className="formula-ref">{clauses.strainCompatibility}</span>
+            </div>
+          ) : results.isFlanged && !results.stressBlockInFlange ? (
+            <div className="formula-item">
+              <span className="formula">Mn = Cf{'\u00B7'}(d - hf/2) + (As{'\u00B7'}{fy} - Cf){'\u00B7'}(d - a/2)</span>
+              <span className="formula-ref">{clauses.equilibrium}</span>
+            </div>
+          ) : (
+            <div className="formula-item">
+              <span className="formula">Mn = As{'\u00B7'}{fy}{'\u00B7'}(d - a/2)</span>
+              <span className="formula-ref">{clauses.equilibrium}</span>
+            </div>
+          )}
           <div className="formula-item">
-            <span className="formula">c = a / {'\u03B2'}1</span>
+            <span className="formula">{'\u03B5'}t = {'\u03B5'}cu{'\u00B7'}(dt - c) / c</span>
+            <span className="formula-ref">{clauses.strainCompatibility}</span>
           </div>
           <div className="formula-item">
-            <span className="formula">Mn = As{'\u00B7'}fy{'\u00B7'}(d - a/2)</span>
+            <span className="formula">{code.formulas.rhoMin(units)}</span>
+            <span className="formula-ref">{clauses.rhoMin}</span>
           </div>
           <div className="formula-item">
-            <span className="formula">{'\u03B5'}t = {'\u03B5'}cu{'\u00B7'}(d - c) / c</span>
+            <span className="formula">{'\u03C1'}max at {'\u03B5'}t = {strainLimit}</span>
+            <span className="formula-ref">{clauses.rhoMax}</span>
           </div>
+          {!code.materialFactors && (
+            <div className="formula-item">
+              <span className="formula">
+                {'\u03D5'} = 0.65 to 0.90 for {compressionControlLimit} {'\u2264'} {'\u03B5'}t {'\u2264'} {tensionControlStrain}
+              </span>
+              <span className="formula-ref">{clauses.phi}</span>
+            </div>
+          )}
+          {results.isDoublyReinforced && (
+            <>
+              <div className="formula-item">
+                <span className="formula">{'\u03B5'}'s = {'\u03B5'}cu{'\u00B7'}(c - d') / c</span>
+                <span className="formula-ref">{clauses.strainCompatibility}</span>
+              </div>
+              <div className="formula-item">
+                <span className="formula">Cs = A's{'\u00B7'}(f's - {alpha1}{'\u00B7'}{fc})</span>
+                <span className="formula-ref">{clauses.strainCompatibility}</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
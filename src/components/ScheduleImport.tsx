@@ -0,0 +1,254 @@
+import { useMemo, useRef, useState } from 'react';
+import type { BeamInput, DesignCodeId, UnitSystem } from '../types/beam';
+import { formatNumber } from '../utils/beamCalculations';
+import { describeLayers } from '../utils/reinforcement';
+import type { ImportedBeam, ScheduleField, ScheduleImportState } from '../utils/scheduleImport';
+import { analyzeSchedule, guessMapping, readSpreadsheet, SCHEDULE_FIELDS } from '../utils/scheduleImport';
+import { fromCustomary, unitLabel } from '../utils/units';
+import './ScheduleImport.css';
+
+interface ScheduleImportProps {
+  state: ScheduleImportState | null;
+  onChange: (state: ScheduleImportState | null) => void;
+  units: UnitSystem;             // units of a new import, until changed
+  designCode: DesignCodeId;      // code the imported beams are checked to
+  onInspect: (name: string, input: BeamInput) => void; // open a row in the analysis mode
+}
+
+type SortKey = 'row' | 'mark' | 'phiMn' | 'Mu' | 'ratio' | 'status';
+
+const PREVIEW_ROWS = 5;
+
+// Value of a row for sorting; rows that could not be analyzed sort last
+function sortValue(beam: ImportedBeam, key: SortKey): number | string {
+  switch (key) {
+    case 'row': return beam.row;
+    case 'mark': return beam.mark;
+    case 'phiMn': return beam.results?.phiMn_kip_ft ?? Infinity;
+    case 'Mu': return beam.input?.Mu ?? Infinity;
+    case 'ratio': return beam.results?.hasMomentDemand ? beam.results.demandCapacityRatio : Infinity;
+    case 'status': return beam.isAdequate ? 1 : 0;
+  }
+}
+
+export function ScheduleImport({ state, onChange, units, designCode, onInspect }: ScheduleImportProps) {
+  const [readError, setReadError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'row', ascending: true });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const requiredMissing = state
+    ? SCHEDULE_FIELDS.filter(({ field, required }) => required && state.mapping[field] === null)
+    : [];
+
+  const beams = useMemo(
+    () => (state && requiredMissing.length === 0
+      ? analyzeSchedule(state.sheet, state.mapping, state.units, designCode)
+      : []),
+    [state, requiredMissing.length, designCode]
+  );
+
+  const sorted = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...beams].sort((x, y) => {
+      const a = sortValue(x, sort.key);
+      const b = sortValue(y, sort.key);
+      const order = typeof a === 'string' && typeof b === 'string'
+        ? a.localeCompare(b, undefined, { numeric: true })
+        : Number(a) - Number(b);
+      return (Number.isNaN(order) ? 0 : order) * direction || x.row - y.row;
+    });
+  }, [beams, sort]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const sheet = await readSpreadsheet(file);
+      onChange({ sheet, mapping: guessMapping(sheet.header), units });
+      setReadError(null);
+    } catch (error) {
+      console.error('Error reading the schedule:', error);
+      setReadError(error instanceof Error ? error.message : 'The schedule could not be read.');
+    }
+  };
+
+  const setColumn = (field: ScheduleField, value: string) => {
+    if (!state) return;
+    onChange({ ...state, mapping: { ...state.mapping, [field]: value === '' ? null : Number(value) } });
+  };
+
+  const sortHeader = (key: SortKey, label: React.ReactNode) => (
+    <th aria-sort={sort.key === key ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+      <button
+        className="sort-button"
+        onClick={() => setSort({ key, ascending: sort.key === key ? !sort.ascending : true })}
+      >
+        {label}
+        {sort.key === key && <span className="sort-arrow">{sort.ascending ? '\u25B2' : '\u25BC'}</span>}
+      </button>
+    </th>
+  );
+
+  const displayUnits = state?.units ?? units;
+  const length = (value: number) => formatNumber(fromCustomary(value, 'length', displayUnits), displayUnits === 'SI' ? 0 : 1);
+  const moment = (value: number) => formatNumber(fromCustomary(value, 'moment', displayUnits), 1);
+  const failing = beams.filter(({ isAdequate }) => !isAdequate).length;
+  const unreadable = beams.filter(({ input }) => input === null).length;
+
+  return (
+    <section className="panel-section schedule-import">
+      <div className="import-header">
+        <h2>Import Schedule</h2>
+        <div className="import-actions">
+          <button onClick={() => fileInputRef.current?.click()}>
+            {state ? 'Choose another file' : 'Choose CSV or XLSX'}
+          </button>
+          {state && <button onClick={() => onChange(null)}>Clear</button>}
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx" onChange={handleFile} hidden />
+        </div>
+      </div>
+
+      {readError && <p className="import-error" role="alert">{readError}</p>}
+
+      {!state ? (
+        <p className="import-hint">
+          Read a beam schedule exported from the model, one beam per row with a header row. Columns for
+          the mark, b, h, d, f'c, fy, bars (e.g. 4 #8 or 3-#9 + 2-#8) and Mu are matched by name and can
+          be reassigned before every row is analyzed. Bar groups joined by + are placed in one row, at d
+          or at the default cover.
+        </p>
+      ) : (
+        <>
+          <div className="import-settings">
+            <span className="import-file">
+              {state.sheet.fileName}: {state.sheet.rows.length} row{state.sheet.rows.length > 1 ? 's' : ''}
+            </span>
+            <label>
+              Values in
+              <select
+                value={state.units}
+                onChange={(e) => onChange({ ...state, units: e.target.value as UnitSystem })}
+              >
+                <option value="US">US (in, psi, kip-ft)</option>
+                <option value="SI">SI (mm, MPa, kN{'\u00B7'}m)</option>
+              </select>
+            </label>
+          </div>
+
+          <h3>Column Mapping</h3>
+          <div className="column-mapping">
+            {SCHEDULE_FIELDS.map(({ field, label, required, quantity }) => (
+              <label key={field} className={required && state.mapping[field] === null ? 'unmapped' : ''}>
+                <span>
+                  {label}
+                  {quantity && ` (${unitLabel(quantity, state.units)})`}
+                  {required && ' *'}
+                </span>
+                <select value={state.mapping[field] ?? ''} onChange={(e) => setColumn(field, e.target.value)}>
+                  <option value="">{required ? 'Select a column' : 'Not in schedule'}</option>
+                  {state.sheet.header.map((name, index) => (
+                    <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="import-preview">
+            <table className="schedule-table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  {SCHEDULE_FIELDS.map(({ field, label }) => <th key={field}>{label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {state.sheet.rows.slice(0, PREVIEW_ROWS).map(({ number, cells }) => (
+                  <tr key={number}>
+                    <td>{number}</td>
+                    {SCHEDULE_FIELDS.map(({ field }) => {
+                      const index = state.mapping[field];
+                      return <td key={field}>{index === null ? '\u2014' : cells[index] ?? ''}</td>;
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {state.sheet.rows.length > PREVIEW_ROWS && (
+              <p className="schedule-note">First {PREVIEW_ROWS} of {state.sheet.rows.length} rows as mapped.</p>
+            )}
+          </div>
+
+          {requiredMissing.length > 0 ? (
+            <p className="import-error">
+              Map the {requiredMissing.map(({ label }) => label).join(', ')} column
+              {requiredMissing.length > 1 ? 's' : ''} to analyze the schedule.
+            </p>
+          ) : (
+            <>
+              <h3>Results</h3>
+              <p className="schedule-summary">
+                {beams.length} beam{beams.length > 1 ? 's' : ''}
+                {failing > 0 ? `, ${failing} not satisfied` : ', all satisfied'}
+                {unreadable > 0 && ` (${unreadable} with input errors)`}. Select a row to load it into the analysis.
+              </p>
+              <table className="schedule-table import-results">
+                <thead>
+                  <tr>
+                    {sortHeader('row', 'Row')}
+                    {sortHeader('mark', 'Mark')}
+                    <th>b {'\u00D7'} h ({unitLabel('length', displayUnits)})</th>
+                    <th>Bars</th>
+                    {sortHeader('phiMn', <>{'\u03D5'}Mn ({unitLabel('moment', displayUnits)})</>)}
+                    {sortHeader('Mu', `Mu (${unitLabel('moment', displayUnits)})`)}
+                    {sortHeader('ratio', 'D/C')}
+                    {sortHeader('status', 'Status')}
+                    <th>Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map((beam) => {
+                    const { row, mark, input, results, errors, isAdequate } = beam;
+                    return (
+                      <tr
+                        key={row}
+                        className={[isAdequate ? '' : 'failing', input ? '' : 'unreadable'].filter(Boolean).join(' ')}
+                        onClick={input ? () => onInspect(mark, input) : undefined}
+                        title={input ? `Load ${mark} into the analysis` : 'Correct this row in the schedule'}
+                      >
+                        <td>{row}</td>
+                        <td className="beam-name">{mark}</td>
+                        <td>{input ? `${length(input.b)} \u00D7 ${length(input.h)}` : '\u2014'}</td>
+                        <td>{input ? describeLayers(input.tensionLayers, displayUnits) : '\u2014'}</td>
+                        <td>{results ? moment(results.phiMn_kip_ft) : '\u2014'}</td>
+                        <td>{input && input.Mu > 0 ? moment(input.Mu) : '\u2014'}</td>
+                        <td>{results?.hasMomentDemand ? formatNumber(results.demandCapacityRatio, 3) : '\u2014'}</td>
+                        <td>
+                          <span className={`schedule-status ${isAdequate ? 'pass' : 'fail'}`}>
+                            {results ? (isAdequate ? '\u2713 OK' : '\u2717 NG') : 'Error'}
+                          </span>
+                        </td>
+                        <td className="import-issues">
+                          {errors.length > 0 && (
+                            <ul>
+                              {errors.map((error) => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="schedule-note">
+                Each row is analyzed as a rectangular, singly reinforced beam with the default cover and
+                stirrups. Bars are placed at d when it is given. Loading a row adds it to the project as a beam.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
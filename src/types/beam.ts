@@ -1,32 +1,355 @@
+// Unit system used for input and display (calculations run in US customary units)
+export type UnitSystem = 'US' | 'SI';
+
+// Design code for flexural strength (earlier ACI 318 editions for existing buildings)
+export type DesignCodeId = 'aci-318-19' | 'aci-318-14' | 'aci-318-11' | 'csa-a23.3-19' | 'en-1992-1-1';
+
+// Stress-strain models for the refined fiber-section analysis
+export type ConcreteModel = 'hognestad' | 'todeschini';
+export type SteelModel = 'elastic-plastic' | 'strain-hardening';
+
+// Cross-section shape
+export type SectionShape = 'rectangular' | 'T' | 'L';
+
+// Sense of the bending moment: positive puts the top in compression,
+// negative (support sections of continuous beams) puts the top in tension
+export type MomentSign = 'positive' | 'negative';
+
+// A layer of reinforcing bars at a common depth
+export interface BarLayer {
+  barSize: string; // key of REBAR_AREAS
+  count: number;   // number of bars in the layer
+  depth: number;   // distance from the top face to bar centers (in); the compression face in positive bending
+}
+
+// Exposure condition for minimum cover (ACI 318-19 Table 20.5.1.3.1)
+export type ExposureCondition = 'interior' | 'exterior' | 'cast-against-earth';
+
+// Support condition for member deflection
+export type SupportCondition = 'simple' | 'one-end-continuous' | 'both-ends-continuous' | 'cantilever';
+
+// Member type for deflection limits (ACI 318-19 Table 24.2.2)
+export type DeflectionLimitCase = 'flat-roof' | 'floor' | 'attached-sensitive' | 'attached-nonsensitive';
+
+// Part of the section a code check item refers to
+export type CodeCheckTarget =
+  | { kind: 'stirrup' }
+  | { kind: 'layer'; face: 'tension' | 'compression'; index: number };
+
+// A code check finding reported with the results
+export interface CodeCheckItem {
+  severity: 'error' | 'warning' | 'note';
+  message: string;
+  clause?: string;          // code provision checked, e.g. 'ACI 318-19 25.2.1'
+  target?: CodeCheckTarget; // flagged in the cross-section view
+}
+
 // Beam input parameters
+// Values are stored in US customary units; unitSystem only selects the display units
 export interface BeamInput {
+  unitSystem: UnitSystem;
+  designCode: DesignCodeId;
+
   // Geometry (inches)
-  b: number;       // beam width
+  sectionShape: SectionShape;
+  momentSign: MomentSign; // bar layers stay on their physical faces for either sign
+  b: number;       // beam width (web width bw for flanged sections)
   h: number;       // total beam height
-  d: number;       // effective depth (distance from compression face to centroid of tension steel)
-  d_prime: number; // distance from compression face to compression steel (if any)
+
+  // Flange geometry (T- and L-beams only)
+  bf: number;      // actual flange width (in)
+  hf: number;      // flange thickness (in)
+  spanLength: number;     // span length ℓn for flange width and deflection (ft, 0 to ignore)
+  webClearSpacing: number;// clear distance to adjacent web sw (in, 0 to ignore)
+  slabBar: string;        // slab top bar size, key of REBAR_AREAS
+  slabSpacing: number;    // slab top bar spacing (in, 0 for none); tension steel in negative bending
+  slabDepth: number;      // depth of the slab top bars below the top face (in)
 
   // Material properties (psi)
   fc: number;      // concrete compressive strength f'c
   fy: number;      // steel yield strength
   Es: number;      // steel modulus of elasticity (default 29,000,000 psi)
 
-  // Reinforcement (sq inches)
-  As: number;      // area of tension steel
-  As_prime: number;// area of compression steel (0 if singly reinforced)
+  // Reinforcement layout (As, d and dt are derived from the layers)
+  tensionLayers: BarLayer[];     // bottom steel, tension in positive bending, outermost layer first
+  compressionLayers: BarLayer[]; // top steel, outermost layer first (empty if singly reinforced)
+  stirrupBar: string;            // stirrup bar size, key of REBAR_AREAS
+  clearCover: number;            // clear cover to stirrups (in)
+  aggregateSize: number;         // nominal maximum aggregate size (in)
+  exposure: ExposureCondition;   // exposure condition for minimum cover
+
+  // Serviceability
+  fs: number;             // service stress in tension steel for crack control (psi, 0 to use 2/3 fy)
+  Ma: number;             // service moment for the effective moment of inertia (kip-ft, 0 to skip)
+
+  // Member deflection (ACI 318-19 Section 24.2)
+  supportCondition: SupportCondition;
+  deadLoad: number;       // service dead load including self-weight (kip/ft)
+  liveLoad: number;       // service live load (kip/ft)
+  sustainedLive: number;  // sustained portion of the live load (%)
+  deflectionLimitCase: DeflectionLimitCase;
+
+  // Flexural and axial demand
+  Mu: number;             // factored moment demand (kip-ft, 0 to skip the check)
+  Pu: number;             // factored axial load, compression positive (kips, 0 for no axial load)
+  demandMargin: number;   // warn when Mu is within this percentage of φMn
+
+  // Shear design (ACI 318-19 Section 22.5)
+  Vu: number;             // factored shear demand (kips)
+  stirrupLegs: number;    // number of stirrup legs
+  stirrupSpacing: number; // stirrup spacing s (in, 0 if no stirrups)
+  lambda: number;         // lightweight concrete modification factor λ
+
+  // Refined fiber-section analysis (nominal strengths, alongside the code check)
+  refinedAnalysis: boolean;     // run the fiber-section analysis
+  concreteModel: ConcreteModel;
+  steelModel: SteelModel;
+  extremeFiberStrain: number;   // strain at the extreme compression fiber
+}
+
+// Project metadata for the calculation sheet and project files
+export interface ProjectInfo {
+  projectName: string;
+  projectNumber: string;
+  engineer: string;
+}
+
+// Entry of the revision table in the PDF title block
+export interface Revision {
+  rev: string;          // e.g. 'A' or '0'
+  date: string;
+  description: string;
+  by: string;           // initials of the author
+}
+
+// Company branding and QA fields of the PDF title block, kept in browser
+// storage and reused across projects and exports
+export interface TitleBlock {
+  companyName: string;
+  logo: string;         // PNG or JPEG data URL, '' for none
+  client: string;
+  checker: string;
+  sheetNumber: string;
+  revisions: Revision[];
+}
+
+// A named beam of the project workspace
+export interface BeamEntry {
+  id: string;
+  name: string;     // mark on the drawings, e.g. 'B-1'
+  input: BeamInput;
+}
+
+// Project workspace: the beams of a job and the one being edited
+export interface Workspace {
+  project: ProjectInfo;
+  beams: BeamEntry[];
+  activeId: string;
+}
+
+// Fiber-section analysis at a given extreme compression fiber strain
+// (forces positive in compression for concrete and compression steel)
+export interface FiberSectionResults {
+  epsilon_c: number;        // strain at the extreme compression fiber
+  c: number;                // neutral axis depth (in)
+  fc_peak: number;          // peak concrete stress f''c of the model (psi)
+  Cc: number;               // concrete compression force (lb)
+  yc: number;               // depth of the concrete force below the compression face (in)
+  Cs: number;               // compression steel force, net of displaced concrete (lb)
+  T: number;                // tension steel force (lb)
+  Mn: number;               // nominal moment (lb-in)
+  Mn_kip_ft: number;        // nominal moment (kip-ft)
+  epsilon_t: number;        // strain in extreme tension steel (at dt)
+  fs: number;               // stress in extreme tension steel (psi)
+  stressProfile: { depth: number; stress: number }[]; // concrete stress over the compression zone (in, psi)
+  isConverged: boolean;     // force equilibrium found
+}
+
+// Point on the moment-curvature curve
+export interface MomentCurvaturePoint {
+  curvature: number;        // curvature φ = εc / c (1/in)
+  M_kip_ft: number;         // moment (kip-ft)
+  epsilon_c: number;        // strain at the extreme compression fiber
+  c: number;                // neutral axis depth (in)
+  epsilon_t: number;        // strain in extreme tension steel (at dt)
+}
+
+// Moment-curvature response with nominal strengths
+export interface MomentCurvatureResults {
+  curve: MomentCurvaturePoint[];          // from the origin through cracking to the post-peak branch
+  cracking: MomentCurvaturePoint;         // gross section reaches the modulus of rupture
+  firstYield: MomentCurvaturePoint | null; // extreme tension steel reaches εy (null if it does not yield before crushing)
+  ultimate: MomentCurvaturePoint;         // extreme compression fiber reaches εcu
+  peak: MomentCurvaturePoint;             // maximum moment on the curve
+  isBelowCracking: boolean;               // cracked strength Mn < Mcr: the section fails as it cracks
+  ductility: number | null;               // curvature ductility μφ = φu / φy (null if no yield or Mn < Mcr)
+}
+
+// Point on the axial load-moment interaction diagram for a neutral axis depth c
+export interface InteractionPoint {
+  c: number;                // neutral axis depth (in)
+  epsilon_t: number;        // strain in extreme tension steel (at dt)
+  phi: number;              // strength reduction factor
+  Pn: number;               // nominal axial strength, compression positive (kips)
+  Mn_kip_ft: number;        // nominal moment about the gross-section centroid (kip-ft)
+  phiPn: number;            // design axial strength, limited to φPn,max (kips)
+  phiMn_kip_ft: number;     // design moment (kip-ft)
+}
+
+// Axial load-moment interaction for a factored axial load Pu
+export interface InteractionResults {
+  points: InteractionPoint[];     // from pure compression to pure tension
+  Ag: number;                     // gross area (in²)
+  yg: number;                     // depth of the gross-section centroid (in)
+  Po: number;                     // nominal strength at zero eccentricity (kips)
+  Pn_max: number;                 // maximum nominal axial strength (kips)
+  phiPn_max: number;              // maximum design axial strength (kips)
+  balanced: InteractionPoint;     // εt at the compression-controlled limit
+  tensionControlled: InteractionPoint; // εt at the tension-controlled limit
+  Pu: number;                     // factored axial load (kips)
+  Mu_kip_ft: number;              // factored moment (kip-ft)
+  demandCapacityRatio: number;    // radial D/C: demand over capacity at the same eccentricity
+  isAdequate: boolean;            // demand point inside the design diagram
+}
+
+// Shear design results per ACI 318-19 Section 22.5
+export interface ShearResults {
+  // Concrete contribution
+  lambda_s: number;        // size effect factor λs
+  rho_w: number;           // longitudinal reinforcement ratio As/(bw*d)
+  Vc: number;              // concrete shear strength (lb)
+
+  // Stirrups
+  Av: number;              // area of shear reinforcement within spacing s (sq in)
+  Av_min: number;          // minimum shear reinforcement at s, or at smax without stirrups (sq in)
+  fyt: number;             // stirrup yield strength used, ≤ 60,000 psi (psi)
+  Vs: number;              // stirrup shear strength (lb)
+  Vs_max: number;          // section dimension limit 8√f'c·bw·d (lb)
+  s_max: number;           // maximum stirrup spacing (in)
+
+  // Capacity
+  phi: number;             // strength reduction factor for shear (0.75)
+  Vn: number;              // nominal shear strength (lb)
+  phiVn: number;           // design shear strength (lb)
+  Vu: number;              // factored shear demand (lb)
+
+  // Checks
+  isStrengthAdequate: boolean;   // φVn ≥ Vu
+  isSectionAdequate: boolean;    // Vu ≤ φ(Vc + 8√f'c·bw·d)
+  isSpacingAdequate: boolean;    // s ≤ smax
+  isAvMinRequired: boolean;      // Vu > φλ√f'c·bw·d
+  isAvMinSatisfied: boolean;     // Av ≥ Av,min (or not required)
+
+  warnings: CodeCheckItem[];
+}
+
+// Crack control results per ACI 318-19 Section 24.3.2
+export interface CrackControlResults {
+  fs: number;              // service stress in tension steel (psi)
+  cc: number;              // clear cover from tension face to the outermost tension bars (in)
+  s: number;               // center-to-center spacing of the outermost tension bars (in)
+  s_max: number;           // maximum spacing min(15(40000/fs) − 2.5cc, 12(40000/fs)) (in)
+  isSpacingAdequate: boolean; // s ≤ s_max
+}
+
+// Elastic section properties for deflection per ACI 318-19 Section 24.2
+export interface ServiceResults {
+  Ec: number;              // concrete modulus of elasticity 57,000√f'c (psi)
+  n: number;               // modular ratio Es/Ec
+  fr: number;              // modulus of rupture 7.5λ√f'c (psi)
+
+  // Gross section (concrete only)
+  Ig: number;              // gross moment of inertia (in⁴)
+  yt: number;              // centroid to extreme tension fiber (in)
+  Mcr: number;             // cracking moment fr·Ig/yt (lb-in)
+  Mcr_kip_ft: number;      // cracking moment (kip-ft)
+
+  // Cracked transformed section
+  kd: number;              // cracked neutral axis depth (in)
+  Icr: number;             // cracked transformed moment of inertia (in⁴)
+
+  // Effective moment of inertia, Table 24.2.3.5
+  hasServiceMoment: boolean; // Ma > 0 was entered
+  Ma_kip_ft: number;       // service moment (kip-ft)
+  Ie: number;              // effective moment of inertia (in⁴)
+  isCracked: boolean;      // Ma > 2/3 Mcr
+}
+
+// Member deflection results per ACI 318-19 Section 24.2
+export interface DeflectionResults {
+  hasLoads: boolean;       // span and service loads were entered
+  span: number;            // span length (in)
+
+  // Immediate deflection
+  Ma_D: number;            // service moment under dead load (kip-ft)
+  Ma_DL: number;           // service moment under dead + live load (kip-ft)
+  Ie_D: number;            // effective moment of inertia at Ma_D (in⁴)
+  Ie_DL: number;           // effective moment of inertia at Ma_DL (in⁴)
+  delta_D: number;         // immediate dead load deflection (in)
+  delta_DL: number;        // immediate dead + live load deflection (in)
+  delta_L: number;         // immediate live load deflection Δ(D+L) − ΔD (in)
+  delta_sustained: number; // immediate deflection under sustained load (in)
+
+  // Long-term deflection, Section 24.2.4
+  xi: number;              // time-dependent factor ξ (5 years or more)
+  rho_prime: number;       // compression reinforcement ratio ρ'
+  lambda_delta: number;    // λΔ = ξ / (1 + 50ρ')
+  delta_longTerm: number;  // additional long-term deflection λΔ·Δsus (in)
+
+  // Limit check, Table 24.2.2
+  delta_check: number;     // deflection compared with the limit (in)
+  limitDivisor: number;    // limit is ℓ / limitDivisor
+  delta_allow: number;     // allowable deflection (in)
+  isDeflectionAdequate: boolean;
+}
+
+// Minimum thickness per ACI 318-19 Table 9.3.1.1
+export interface MinimumThicknessResults {
+  hasSpan: boolean;        // span length was entered
+  divisor: number;         // ℓ/16, ℓ/18.5, ℓ/21 or ℓ/8 for the support condition
+  fyFactor: number;        // (0.4 + fy/100,000), Section 9.3.1.1.1
+  lightweightFactor: number; // 1.65 − 0.005wc ≥ 1.09, Section 9.3.1.1.2
+  h_min: number;           // minimum overall depth (in)
+  isThicknessAdequate: boolean; // h ≥ h_min
+  canSkipDeflection: boolean;   // h ≥ h_min and no elements likely to be damaged
 }
 
 // Calculation results
 export interface BeamResults {
+  // Design code and material factors
+  designCode: DesignCodeId;
+  alpha1: number;          // stress block intensity factor (0.85, α1 or η)
+  phi_c: number;           // concrete resistance factor φc or 1/γc (1 for ACI 318)
+  phi_s: number;           // steel resistance factor φs or 1/γs (1 for ACI 318)
+
   // Basic parameters
-  beta1: number;           // stress block factor
+  beta1: number;           // stress block depth factor (β1 or λ)
   a: number;               // depth of equivalent stress block (in)
   c: number;               // neutral axis depth (in)
 
+  // Reinforcement (derived from bar layers)
+  As: number;              // total tension steel area (sq in)
+  d: number;               // depth to centroid of tension steel (in)
+  dt: number;              // depth to extreme tension layer (in)
+  As_prime: number;        // total compression steel area (sq in)
+  d_prime: number;         // depth to centroid of compression steel (in)
+
   // Strains
-  epsilon_t: number;       // strain in tension steel
+  epsilon_t: number;       // strain in extreme tension steel (at dt)
   epsilon_y: number;       // yield strain of steel
-  epsilon_cu: number;      // ultimate concrete strain (0.003)
+  epsilon_cu: number;      // ultimate concrete strain (0.003 for ACI 318)
+  epsilon_t_cc: number;    // compression-controlled strain limit (εy, or 0.002 for Grade 60 in ACI 318-11)
+  epsilon_t_tc: number;    // tension-controlled strain limit (εty + 0.003 for ACI 318-19, 0.005 for 318-14 and 318-11)
+  epsilon_t_min: number;   // tension strain at the maximum reinforcement ratio (εy + 0.003 for ACI 318-19)
+
+  // Flanged sections
+  isNegativeMoment: boolean;   // top in tension; the section is analyzed turned over
+  slabBarCount: number;        // slab top bars within be included in As (negative bending)
+  As_slab: number;             // area of those slab bars (sq in)
+  isFlanged: boolean;          // T- or L-beam
+  bf_eff: number;              // effective flange width used in analysis (in), equals b if rectangular
+  stressBlockInFlange: boolean;// a <= hf (rectangular behavior)
+  Cf: number;                  // compression force in flange overhangs (lb), 0 if a <= hf
 
   // Reinforcement ratios
   rho: number;             // actual reinforcement ratio As/(b*d)
@@ -34,6 +357,13 @@ export interface BeamResults {
   rho_max: number;         // maximum reinforcement ratio
   rho_min: number;         // minimum reinforcement ratio
 
+  // Compression steel (doubly reinforced sections)
+  isDoublyReinforced: boolean;      // A's > 0
+  epsilon_s_prime: number;          // strain in compression steel
+  fs_prime: number;                 // stress in compression steel (psi)
+  Cs: number;                       // compression steel force, net of displaced concrete (lb)
+  compressionSteelYields: boolean;  // ε's >= εy
+
   // Moment capacity
   Mn: number;              // nominal moment capacity (lb-in)
   Mn_kip_ft: number;       // nominal moment capacity (kip-ft)
@@ -41,6 +371,13 @@ export interface BeamResults {
   phiMn: number;           // design moment capacity (lb-in)
   phiMn_kip_ft: number;    // design moment capacity (kip-ft)
 
+  // Demand vs capacity
+  hasMomentDemand: boolean;     // Mu > 0 was entered
+  Mu_kip_ft: number;            // factored moment demand (kip-ft)
+  demandCapacityRatio: number;  // Mu / φMn
+  isMomentAdequate: boolean;    // φMn ≥ Mu (true when no demand entered)
+  isNearCapacity: boolean;      // Mu within demandMargin of φMn
+
   // Section classification
   sectionType: 'tension-controlled' | 'transition' | 'compression-controlled';
 
@@ -49,21 +386,87 @@ export interface BeamResults {
   isNotOverReinforced: boolean;     // ρ <= ρmax
   steelYields: boolean;             // εt >= εy
 
+  // Shear design
+  shear: ShearResults;
+
+  // Serviceability
+  crackControl: CrackControlResults;
+  service: ServiceResults;
+  deflection: DeflectionResults;
+  minimumThickness: MinimumThicknessResults;
+
+  // Refined fiber-section analysis (null unless requested)
+  fiber: FiberSectionResults | null;
+
+  // Moment-curvature response
+  momentCurvature: MomentCurvatureResults;
+
+  // Axial load-moment interaction (null without an axial load)
+  interaction: InteractionResults | null;
+
   // Warnings and messages
-  warnings: string[];
+  warnings: CodeCheckItem[];
 }
 
 // Default values
 export const DEFAULT_BEAM_INPUT: BeamInput = {
+  unitSystem: 'US',
+  designCode: 'aci-318-19',
+  sectionShape: 'rectangular',
+  momentSign: 'positive',
   b: 12,           // 12 inches wide
   h: 24,           // 24 inches tall
-  d: 21.5,         // effective depth
-  d_prime: 2.5,    // compression steel depth
+  bf: 48,          // flange width
+  hf: 5,           // flange (slab) thickness
+  spanLength: 24,  // 24 ft clear span
+  webClearSpacing: 96, // 8 ft clear between webs
+  slabBar: '#4',
+  slabSpacing: 12, // #4 at 12 in slab top bars
+  slabDepth: 1.0,  // 3/4 in cover to #4 slab bars
   fc: 4000,        // 4000 psi concrete
   fy: 60000,       // Grade 60 steel
   Es: 29000000,    // Steel modulus
-  As: 3.0,         // 3 #9 bars ≈ 3.0 sq in
-  As_prime: 0,     // singly reinforced
+  tensionLayers: [
+    { barSize: '#9', count: 3, depth: 21.436 }, // 3 #9 bars = 3.0 sq in
+  ],
+  compressionLayers: [], // singly reinforced
+  stirrupBar: '#4',
+  clearCover: 1.5, // 1.5 in clear to stirrups
+  aggregateSize: 0.75, // 3/4 in aggregate
+  exposure: 'interior',
+  fs: 0,           // fs = 2/3 fy
+  Ma: 0,           // no service moment
+  supportCondition: 'simple',
+  deadLoad: 1.2,   // 1.2 kip/ft including self-weight
+  liveLoad: 0.8,   // 0.8 kip/ft
+  sustainedLive: 0,
+  deflectionLimitCase: 'floor',
+  Mu: 0,           // no moment demand check
+  Pu: 0,           // no axial load
+  demandMargin: 5, // warn within 5% of capacity
+  Vu: 40,          // 40 kips factored shear
+  stirrupLegs: 2,
+  stirrupSpacing: 10,
+  lambda: 1.0,     // normalweight concrete
+  refinedAnalysis: false,
+  concreteModel: 'hognestad',
+  steelModel: 'elastic-plastic',
+  extremeFiberStrain: 0.003,
+};
+
+export const DEFAULT_PROJECT_INFO: ProjectInfo = {
+  projectName: '',
+  projectNumber: '',
+  engineer: '',
+};
+
+export const DEFAULT_TITLE_BLOCK: TitleBlock = {
+  companyName: '',
+  logo: '',
+  client: '',
+  checker: '',
+  sheetNumber: '',
+  revisions: [],
 };
 
 // Common rebar areas (sq inches)
@@ -81,8 +484,91 @@ export const REBAR_AREAS: { [key: string]: number } = {
   '#18': 4.00,
 };
 
+// Nominal rebar diameters (inches)
+export const REBAR_DIAMETERS: { [key: string]: number } = {
+  '#3': 0.375,
+  '#4': 0.500,
+  '#5': 0.625,
+  '#6': 0.750,
+  '#7': 0.875,
+  '#8': 1.000,
+  '#9': 1.128,
+  '#10': 1.270,
+  '#11': 1.410,
+  '#14': 1.693,
+  '#18': 2.257,
+};
+
 // Common concrete strengths (psi)
 export const CONCRETE_STRENGTHS = [3000, 4000, 5000, 6000, 7000, 8000];
 
 // Common steel grades (psi)
 export const STEEL_GRADES = [40000, 60000, 75000, 80000];
+
+// Common concrete strengths for SI input (MPa)
+export const CONCRETE_STRENGTHS_SI = [20, 25, 28, 30, 35, 40, 50, 55];
+
+// Common steel grades for SI input, ASTM A615M (MPa)
+export const STEEL_GRADES_SI = [280, 420, 520, 550];
+
+// Lightweight concrete modification factors λ (ACI 318-19 Table 19.2.4.2)
+export const LAMBDA_OPTIONS = [
+  { value: 1.0, label: 'Normalweight (1.0)' },
+  { value: 0.85, label: 'Sand-lightweight (0.85)' },
+  { value: 0.75, label: 'All-lightweight (0.75)' },
+];
+
+// Bending moment sign
+export const MOMENT_SIGN_OPTIONS: { value: MomentSign; label: string }[] = [
+  { value: 'positive', label: 'Positive (top in compression)' },
+  { value: 'negative', label: 'Negative (top in tension)' },
+];
+
+// Design codes for flexural strength
+export const DESIGN_CODE_OPTIONS: { value: DesignCodeId; label: string }[] = [
+  { value: 'aci-318-19', label: 'ACI 318 (US)' },
+  { value: 'csa-a23.3-19', label: 'CSA A23.3-19 (Canada)' },
+  { value: 'en-1992-1-1', label: 'EN 1992-1-1 Eurocode 2' },
+];
+
+// ACI 318 editions, for checking existing buildings to the code they were designed to
+export const ACI_EDITION_OPTIONS: { value: DesignCodeId; label: string }[] = [
+  { value: 'aci-318-19', label: '318-19' },
+  { value: 'aci-318-14', label: '318-14' },
+  { value: 'aci-318-11', label: '318-11' },
+];
+
+// Concrete stress-strain models for the fiber-section analysis
+export const CONCRETE_MODEL_OPTIONS: { value: ConcreteModel; label: string }[] = [
+  { value: 'hognestad', label: 'Hognestad parabola' },
+  { value: 'todeschini', label: 'Todeschini' },
+];
+
+// Steel stress-strain models for the fiber-section analysis
+export const STEEL_MODEL_OPTIONS: { value: SteelModel; label: string }[] = [
+  { value: 'elastic-plastic', label: 'Elastic-perfectly plastic' },
+  { value: 'strain-hardening', label: 'With strain hardening' },
+];
+
+// Support conditions for member deflection
+export const SUPPORT_OPTIONS: { value: SupportCondition; label: string }[] = [
+  { value: 'simple', label: 'Simply supported' },
+  { value: 'one-end-continuous', label: 'One end continuous' },
+  { value: 'both-ends-continuous', label: 'Both ends continuous' },
+  { value: 'cantilever', label: 'Cantilever' },
+];
+
+// Member types and deflection limits (ACI 318-19 Table 24.2.2)
+export const DEFLECTION_LIMIT_OPTIONS: { value: DeflectionLimitCase; label: string }[] = [
+  { value: 'flat-roof', label: 'Flat roof, live load (\u2113/180)' },
+  { value: 'floor', label: 'Floor, live load (\u2113/360)' },
+  { value: 'attached-sensitive', label: 'Supports elements likely damaged (\u2113/480)' },
+  { value: 'attached-nonsensitive', label: 'Supports elements not likely damaged (\u2113/240)' },
+];
+
+// Exposure conditions for minimum cover (ACI 318-19 Table 20.5.1.3.1)
+export const EXPOSURE_OPTIONS: { value: ExposureCondition; label: string }[] = [
+  { value: 'interior', label: 'Not exposed to weather or ground' },
+  { value: 'exterior', label: 'Exposed to weather or ground' },
+  { value: 'cast-against-earth', label: 'Cast against earth' },
+];
@@ -1,26 +1,46 @@
-import type { BeamInput, BeamResults } from '../types/beam';
+import type {
+  BarLayer,
+  BeamInput,
+  BeamResults,
+  CodeCheckItem,
+  DesignCodeId,
+  InteractionPoint,
+  InteractionResults,
+  SectionShape,
+  UnitSystem,
+} from '../types/beam';
+import { REBAR_AREAS, REBAR_DIAMETERS } from '../types/beam';
+import { analyzeShear } from './shearCalculations';
+import {
+  analyzeCrackControl,
+  analyzeDeflection,
+  analyzeMinimumThickness,
+  analyzeServiceProperties,
+  calculateGrossSection,
+} from './serviceCalculations';
+import { analyzeFiberSection } from './fiberAnalysis';
+import { analyzeMomentCurvature } from './momentCurvature';
+import {
+  calculateLayerArea,
+  calculateMaxBarsPerLayer,
+  checkBarLayout,
+  summarizeReinforcement,
+} from './reinforcement';
+import { formatBarSize, formatQuantity } from './units';
+import { getDesignCode } from './designCodes';
 
 /**
- * ACI 318 Reinforced Concrete Beam Analysis
- * Calculates flexural strength of rectangular beam sections
+ * Reinforced Concrete Beam Analysis
+ * Calculates flexural strength of rectangular and flanged (T/L) beam sections.
+ * Stress block, resistance factors, strain limits and minimum steel come from
+ * the selected design code (see designCodes.ts); defaults follow ACI 318.
  */
 
 // Constants
 const EPSILON_CU = 0.003; // Ultimate concrete strain per ACI 318
 
-/**
- * Calculate β1 (stress block depth factor) per ACI 318-19 Section 22.2.2.4.3
- * β1 = 0.85 for f'c ≤ 4000 psi
- * β1 decreases by 0.05 for each 1000 psi above 4000 psi
- * β1 minimum = 0.65
- */
-export function calculateBeta1(fc: number): number {
-  if (fc <= 4000) {
-    return 0.85;
-  }
-  const beta1 = 0.85 - 0.05 * ((fc - 4000) / 1000);
-  return Math.max(beta1, 0.65);
-}
+// Interaction diagram: strain steps from pure compression to the tension-controlled limit
+const INTERACTION_STEPS = 30;
 
 /**
  * Calculate yield strain of steel
@@ -31,15 +51,16 @@ export function calculateEpsilonY(fy: number, Es: number): number {
 
 /**
  * Calculate depth of equivalent rectangular stress block
- * a = As * fy / (0.85 * f'c * b)
+ * a = As * fy / (α1 * f'c * b), α1 = 0.85 in ACI 318
  */
 export function calculateStressBlockDepth(
   As: number,
   fy: number,
   fc: number,
-  b: number
+  b: number,
+  alpha1: number = 0.85
 ): number {
-  return (As * fy) / (0.85 * fc * b);
+  return (As * fy) / (alpha1 * fc * b);
 }
 
 /**
@@ -64,36 +85,19 @@ export function calculateTensionStrain(
 }
 
 /**
- * Calculate strength reduction factor φ per ACI 318-19 Table 21.2.2
- * Tension-controlled (εt ≥ 0.005): φ = 0.90
- * Compression-controlled (εt ≤ εy): φ = 0.65
- * Transition zone: linear interpolation
- */
-export function calculatePhi(
-  epsilon_t: number,
-  epsilon_y: number
-): number {
-  if (epsilon_t >= 0.005) {
-    return 0.90; // Tension-controlled
-  }
-  if (epsilon_t <= epsilon_y) {
-    return 0.65; // Compression-controlled
-  }
-  // Transition zone - linear interpolation
-  return 0.65 + 0.25 * (epsilon_t - epsilon_y) / (0.005 - epsilon_y);
-}
-
-/**
- * Determine section classification
+ * Determine section classification (tension-controlled at εt ≥ εty + 0.003 in
+ * ACI 318-19 or 0.005 in earlier editions, compression-controlled at εt ≤ εy,
+ * or 0.002 for Grade 60 in ACI 318-11)
  */
 export function classifySection(
   epsilon_t: number,
-  epsilon_y: number
+  epsilon_cc: number,
+  epsilon_tc: number = 0.005
 ): 'tension-controlled' | 'transition' | 'compression-controlled' {
-  if (epsilon_t >= 0.005) {
+  if (epsilon_t >= epsilon_tc) {
     return 'tension-controlled';
   }
-  if (epsilon_t <= epsilon_y) {
+  if (epsilon_t <= epsilon_cc) {
     return 'compression-controlled';
   }
   return 'transition';
@@ -101,41 +105,32 @@ export function classifySection(
 
 /**
  * Calculate balanced reinforcement ratio per ACI 318
- * ρb = (0.85 * β1 * f'c / fy) * (εcu / (εcu + εy))
+ * ρb = (α1 * β1 * f'c / fy) * (εcu / (εcu + εy))
  */
 export function calculateRhoBalanced(
   fc: number,
   fy: number,
   beta1: number,
   epsilon_y: number,
-  epsilon_cu: number = EPSILON_CU
+  epsilon_cu: number = EPSILON_CU,
+  alpha1: number = 0.85
 ): number {
-  return (0.85 * beta1 * fc / fy) * (epsilon_cu / (epsilon_cu + epsilon_y));
+  return (alpha1 * beta1 * fc / fy) * (epsilon_cu / (epsilon_cu + epsilon_y));
 }
 
 /**
  * Calculate maximum reinforcement ratio
- * Based on ensuring εt ≥ 0.004 for adequate ductility per ACI 318-19
+ * Based on ensuring εt ≥ εt,min for adequate ductility (εy + 0.003 per ACI 318-19, 0.004 per 318-14)
  */
 export function calculateRhoMax(
   fc: number,
   fy: number,
   beta1: number,
-  epsilon_cu: number = EPSILON_CU
+  epsilon_cu: number = EPSILON_CU,
+  epsilon_t_min: number = 0.004,
+  alpha1: number = 0.85
 ): number {
-  // For εt = 0.004 (minimum for non-prestressed members)
-  const epsilon_t_min = 0.004;
-  return (0.85 * beta1 * fc / fy) * (epsilon_cu / (epsilon_cu + epsilon_t_min));
-}
-
-/**
- * Calculate minimum reinforcement ratio per ACI 318-19 Section 9.6.1.2
- * ρmin = max(3 * √f'c / fy, 200 / fy)
- */
-export function calculateRhoMin(fc: number, fy: number): number {
-  const rho1 = (3 * Math.sqrt(fc)) / fy;
-  const rho2 = 200 / fy;
-  return Math.max(rho1, rho2);
+  return (alpha1 * beta1 * fc / fy) * (epsilon_cu / (epsilon_cu + epsilon_t_min));
 }
 
 /**
@@ -151,6 +146,187 @@ export function calculateMn(
   return As * fy * (d - a / 2);
 }
 
+/**
+ * Calculate effective flange width per ACI 318-19 Table 6.3.2.1
+ * T-beam (flange each side): overhang = min(8hf, sw/2, ℓn/8)
+ * L-beam (flange one side):  overhang = min(6hf, sw/2, ℓn/12)
+ * be = bw + overhang(s), not more than the actual flange width
+ */
+export function calculateEffectiveFlangeWidth(
+  shape: SectionShape,
+  bw: number,
+  bf: number,
+  hf: number,
+  spanLength_ft: number,
+  sw: number
+): number {
+  if (shape === 'rectangular') {
+    return bw;
+  }
+  const ln = spanLength_ft * 12;
+  const spanLimit = ln > 0 ? ln : Infinity;
+  const spacingLimit = sw > 0 ? sw / 2 : Infinity;
+
+  const be = shape === 'T'
+    ? bw + 2 * Math.min(8 * hf, spacingLimit, spanLimit / 8)
+    : bw + Math.min(6 * hf, spacingLimit, spanLimit / 12);
+
+  return Math.min(bf, be);
+}
+
+/**
+ * Calculate area and centroid depth of the concrete compression zone
+ * for a stress block of depth a. For flanged sections the zone is the
+ * flange (width bf, thickness hf) plus the web (width bw) below it;
+ * rectangular sections pass bf = bw and hf = 0.
+ */
+export function calculateCompressionZone(
+  a: number,
+  bw: number,
+  bf: number,
+  hf: number
+): { area: number; centroid: number } {
+  if (a <= hf) {
+    return { area: bf * a, centroid: a / 2 };
+  }
+  const flangeArea = bf * hf;
+  const webArea = bw * (a - hf);
+  const area = flangeArea + webArea;
+  const centroid = (flangeArea * hf / 2 + webArea * (hf + a) / 2) / area;
+  return { area, centroid };
+}
+
+/**
+ * Calculate strain in compression steel
+ * ε's = εcu * (c - d') / c
+ */
+export function calculateCompressionSteelStrain(
+  c: number,
+  d_prime: number,
+  epsilon_cu: number = EPSILON_CU
+): number {
+  if (c <= 0) return -Infinity;
+  return epsilon_cu * (c - d_prime) / c;
+}
+
+/**
+ * Calculate steel stress from strain (elastic-perfectly plastic)
+ * fs = Es * εs, limited to ±fy
+ */
+export function calculateSteelStress(
+  epsilon_s: number,
+  fy: number,
+  Es: number
+): number {
+  return Math.max(-fy, Math.min(fy, epsilon_s * Es));
+}
+
+/**
+ * Result of the doubly reinforced strain compatibility solution
+ */
+export interface DoublyReinforcedSolution {
+  c: number;               // neutral axis depth (in)
+  a: number;               // depth of equivalent stress block (in)
+  epsilon_t: number;       // strain in extreme tension steel (at dt)
+  fs: number;              // stress in extreme tension steel (psi)
+  epsilon_s_prime: number; // strain in compression steel (at centroid d')
+  fs_prime: number;        // stress in compression steel (at centroid d') (psi)
+  Cc: number;              // concrete compression force (lb)
+  Cs: number;              // compression steel force, net of displaced concrete (lb)
+  T: number;               // total tension steel force (lb)
+  Mn: number;              // nominal moment capacity (lb-in)
+}
+
+/**
+ * Solve a doubly reinforced section by strain compatibility
+ *
+ * The neutral axis depth c is found by bisection on force equilibrium:
+ *   α1·f'c·Ac + Σ A's,i·(f's,i − α1·f'c) = Σ As,i·fs,i
+ * where each bar layer's stress follows from the linear strain profile
+ * (εcu at the compression face). Displaced concrete is only deducted when
+ * a compression layer lies within the stress block (a > d'i).
+ * Mn is the moment of the internal forces about the compression face:
+ *   Mn = Σ Ti·di − Cc·ȳ − Σ Cs,j·d'j
+ * where ȳ is the centroid of the compression zone (a/2 when rectangular).
+ * For flanged sections pass the effective flange width be. Codes that factor
+ * the materials pass the reduced strengths in fc and fy, and φs·Es in Es so
+ * the elastic branch of the steel is factored as well.
+ */
+export function solveDoublyReinforced(
+  input: BeamInput,
+  beta1: number,
+  bf_eff: number = input.b,
+  epsilon_cu: number = EPSILON_CU,
+  alpha1: number = 0.85
+): DoublyReinforcedSolution {
+  const { b, h, fc, fy, Es, tensionLayers, compressionLayers } = input;
+  const { dt, d_prime } = summarizeReinforcement(input);
+  const hf = input.sectionShape === 'rectangular' ? 0 : input.hf;
+
+  const evaluate = (c: number): DoublyReinforcedSolution => {
+    const a = beta1 * c;
+    const zone = calculateCompressionZone(a, b, bf_eff, hf);
+    const Cc = alpha1 * fc * zone.area;
+
+    let T = 0;
+    let Cs = 0;
+    let moment = -Cc * zone.centroid;
+
+    tensionLayers.forEach((layer) => {
+      const fs_i = calculateSteelStress(calculateTensionStrain(layer.depth, c, epsilon_cu), fy, Es);
+      const T_i = calculateLayerArea(layer) * fs_i;
+      T += T_i;
+      moment += T_i * layer.depth;
+    });
+
+    compressionLayers.forEach((layer) => {
+      const fs_j = calculateSteelStress(calculateCompressionSteelStrain(c, layer.depth, epsilon_cu), fy, Es);
+      const displacedConcrete = a > layer.depth ? alpha1 * fc : 0;
+      const Cs_j = calculateLayerArea(layer) * (fs_j - displacedConcrete);
+      Cs += Cs_j;
+      moment -= Cs_j * layer.depth;
+    });
+
+    const epsilon_t = calculateTensionStrain(dt, c, epsilon_cu);
+    const fs = calculateSteelStress(epsilon_t, fy, Es);
+    const epsilon_s_prime = calculateCompressionSteelStrain(c, d_prime, epsilon_cu);
+    const fs_prime = calculateSteelStress(epsilon_s_prime, fy, Es);
+
+    return { c, a, epsilon_t, fs, epsilon_s_prime, fs_prime, Cc, Cs, T, Mn: moment };
+  };
+
+  // Net compression (Cc + Cs − T) increases with c except where the stress
+  // block reaches a compression layer (a = d'i): there the displaced concrete
+  // is deducted and the net force drops. Bisect within the first interval
+  // between these depths that brings the forces into balance, so the search
+  // never straddles a drop.
+  const netCompression = (c: number) => {
+    const { Cc, Cs, T } = evaluate(c);
+    return Cc + Cs - T;
+  };
+  const cMax = h / beta1;
+  const bounds = [
+    1e-6,
+    ...compressionLayers.map((layer) => layer.depth / beta1).filter((c) => c > 1e-6 && c < cMax).sort((x, y) => x - y),
+    cMax,
+  ];
+  const interval = bounds.findIndex((c, i) => i > 0 && netCompression(c) > 0);
+  let cLow = bounds[interval > 0 ? interval - 1 : bounds.length - 2];
+  let cHigh = interval > 0 ? bounds[interval] : cMax;
+  for (let i = 0; i < 100; i++) {
+    const cMid = (cLow + cHigh) / 2;
+    const { Cc, Cs, T } = evaluate(cMid);
+    if (Cc + Cs > T) {
+      cHigh = cMid;
+    } else {
+      cLow = cMid;
+    }
+    if (cHigh - cLow < 1e-9) break;
+  }
+
+  return evaluate((cLow + cHigh) / 2);
+}
+
 /**
  * Convert moment from lb-in to kip-ft
  */
@@ -159,129 +335,577 @@ export function convertToKipFt(moment_lb_in: number): number {
 }
 
 /**
- * Main calculation function - performs complete beam analysis
+ * Calculate the tension steel ratio As/(bw·d) that puts the extreme
+ * tension steel at strain εt, for a flanged section without compression steel
+ * As = α1·f'c·Ac(a) / fy, where a = β1·c and c = εcu·dt / (εcu + εt)
+ */
+export function calculateFlangedRhoAtStrain(
+  epsilon_t: number,
+  bw: number,
+  bf_eff: number,
+  hf: number,
+  d: number,
+  dt: number,
+  fc: number,
+  fy: number,
+  beta1: number,
+  epsilon_cu: number = EPSILON_CU,
+  alpha1: number = 0.85
+): number {
+  const c = epsilon_cu * dt / (epsilon_cu + epsilon_t);
+  const { area } = calculateCompressionZone(beta1 * c, bw, bf_eff, hf);
+  return (alpha1 * fc * area / fy) / (bw * d);
+}
+
+/**
+ * Intersection of the ray from the origin through (Mu, Pu) with the design
+ * interaction diagram, as a demand/capacity ratio (1 on the diagram)
  */
-export function analyzeBeam(input: BeamInput): BeamResults {
-  const { b, d, fc, fy, Es, As } = input;
-  const warnings: string[] = [];
+function calculateRadialRatio(points: InteractionPoint[], Mu: number, Pu: number): number {
+  if (Mu === 0 && Pu === 0) return 0;
+  const cross = (x1: number, y1: number, x2: number, y2: number) => x1 * y2 - y1 * x2;
+  let t_min = Infinity;
+  points.slice(1).forEach((q, i) => {
+    const p = points[i];
+    const eM = q.phiMn_kip_ft - p.phiMn_kip_ft;
+    const eP = q.phiPn - p.phiPn;
+    const denom = cross(Mu, Pu, eM, eP);
+    if (denom === 0) return;
+    const t = cross(p.phiMn_kip_ft, p.phiPn, eM, eP) / denom;
+    const s = cross(p.phiMn_kip_ft, p.phiPn, Mu, Pu) / denom;
+    if (t > 0 && s >= 0 && s <= 1) t_min = Math.min(t_min, t);
+  });
+  return isFinite(t_min) ? 1 / t_min : Infinity;
+}
 
-  // Calculate basic parameters
-  const beta1 = calculateBeta1(fc);
+/**
+ * Axial load-moment interaction diagram
+ *
+ * The neutral axis is swept from pure compression to pure tension. For each
+ * depth c the stress block a = β1·c (limited to h) and the strain profile
+ * (εcu at the compression face) give
+ *   Pn = α1·f'c·Ac + Σ As,i·fs,i
+ *   Mn = α1·f'c·Ac·(yg − ȳ) + Σ As,i·fs,i·(yg − di)
+ * about the gross-section centroid yg, with displaced concrete deducted for
+ * bars within the stress block and φ from εt at dt. φPn is limited to
+ * φ·Pn,max = φ·0.80·Po for tied members (ACI 318-19 22.4.2.1), where
+ * Po = α1·f'c·(Ag − Ast) + fy·Ast. The demand/capacity ratio is radial: the
+ * demand is compared with the capacity at the same eccentricity Mu/Pu.
+ */
+export function analyzeInteraction(input: BeamInput, bf_eff: number): InteractionResults {
+  const { b, h, unitSystem: units } = input;
+  const code = getDesignCode(input.designCode);
+  const { dt } = summarizeReinforcement(input);
+  const layers = [...input.compressionLayers, ...input.tensionLayers];
+
+  // Strengths, stress block and strain limits as in analyzeBeam
+  const fc = code.phi_c * input.fc;
+  const fy = code.phi_s * input.fy;
+  const Es = code.phi_s * input.Es;
+  const { alpha1, beta1 } = code.calculateStressBlock(input.fc, units);
+  const epsilon_cu = code.calculateEpsilonCu(input.fc);
   const epsilon_y = calculateEpsilonY(fy, Es);
+  const epsilon_t_cc = code.calculateCompressionControlStrain(epsilon_y, input.fy);
+  const epsilon_t_tc = code.calculateTensionControlStrain(input.fc, input.fy, epsilon_cu, epsilon_y);
+
+  // Gross section
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const hf = isFlanged ? input.hf : 0;
+  const bf = isFlanged ? bf_eff : b;
+  const Ag = b * h + (bf - b) * hf;
+  const yg = h - calculateGrossSection(h, b, bf, hf).yt;
+  const Ast = layers.reduce((sum, layer) => sum + calculateLayerArea(layer), 0);
+
+  // Axial strength at zero eccentricity and its cap
+  const Po = alpha1 * fc * (Ag - Ast) + fy * Ast;
+  const Pn_max = code.axialCapFactor * Po;
+  const phiPn_max = code.calculatePhi(-epsilon_cu, epsilon_y, input.fy) * Pn_max;
+
+  const evaluate = (c: number): InteractionPoint => {
+    const a = Math.min(beta1 * c, h);
+    const zone = calculateCompressionZone(a, b, bf, hf);
+    const Cc = alpha1 * fc * zone.area;
+    let Pn = Cc;
+    let Mn = Cc * (yg - zone.centroid);
+    layers.forEach((layer) => {
+      const epsilon_s = calculateCompressionSteelStrain(c, layer.depth, epsilon_cu);
+      const displaced = layer.depth < a ? alpha1 * fc : 0;
+      const force = calculateLayerArea(layer) * (calculateSteelStress(epsilon_s, fy, Es) - displaced);
+      Pn += force;
+      Mn += force * (yg - layer.depth);
+    });
+    const epsilon_t = calculateTensionStrain(dt, c, epsilon_cu);
+    const phi = code.calculatePhi(epsilon_t, epsilon_y, input.fy);
+    return {
+      c,
+      epsilon_t,
+      phi,
+      Pn: Pn / 1000,
+      Mn_kip_ft: convertToKipFt(Mn),
+      phiPn: Math.min(phi * Pn, phiPn_max) / 1000,
+      phiMn_kip_ft: convertToKipFt(phi * Mn),
+    };
+  };
+
+  // Neutral axis depth for a tension steel strain εt: c = εcu·dt / (εcu + εt)
+  const depthAtStrain = (epsilon_t: number) => (epsilon_cu * dt) / (epsilon_cu + epsilon_t);
+  const strains = [
+    ...Array.from({ length: INTERACTION_STEPS }, (_, i) => -epsilon_cu + ((epsilon_t_tc + epsilon_cu) * (i + 1)) / INTERACTION_STEPS),
+    epsilon_t_cc,
+    // Tension-controlled branch down to pure tension
+    ...[0.003, 0.004, 0.005, 0.0075, 0.01, 0.015, 0.02, 0.03, 0.05, 0.1, 0.3].filter((epsilon_t) => epsilon_t > epsilon_t_tc),
+  ].sort((x, y) => x - y);
 
-  // Calculate stress block and neutral axis
-  const a = calculateStressBlockDepth(As, fy, fc, b);
-  const c = calculateNeutralAxisDepth(a, beta1);
+  // Very deep and very shallow neutral axes stand in for pure compression and pure tension
+  const points = [1e6 * h, ...strains.map(depthAtStrain), 1e-6 * h].map(evaluate);
 
-  // Calculate strain in tension steel
-  const epsilon_t = calculateTensionStrain(d, c);
+  const Pu = input.Pu;
+  const Mu_kip_ft = input.Mu;
+  const demandCapacityRatio = calculateRadialRatio(points, Mu_kip_ft, Pu);
+
+  return {
+    points,
+    Ag,
+    yg,
+    Po: Po / 1000,
+    Pn_max: Pn_max / 1000,
+    phiPn_max: phiPn_max / 1000,
+    balanced: evaluate(depthAtStrain(epsilon_t_cc)),
+    tensionControlled: evaluate(depthAtStrain(epsilon_t_tc)),
+    Pu,
+    Mu_kip_ft,
+    demandCapacityRatio,
+    isAdequate: demandCapacityRatio <= 1,
+  };
+}
+
+/**
+ * Number of slab top bars within the effective flange width outside the web,
+ * counted as tension steel in negative bending
+ */
+export function calculateSlabBarCount(input: BeamInput): number {
+  if (input.sectionShape === 'rectangular' || input.slabSpacing <= 0) {
+    return 0;
+  }
+  const bf_eff = calculateEffectiveFlangeWidth(
+    input.sectionShape, input.b, input.bf, input.hf, input.spanLength, input.webClearSpacing
+  );
+  return Math.floor((bf_eff - input.b) / input.slabSpacing);
+}
+
+/**
+ * Section as analyzed for the selected moment sign
+ * Bar layers are entered on their physical faces with depths from the top.
+ * Negative bending turns the section over: the top bars (and the slab bars
+ * within the effective flange width) become the tension steel, the bottom
+ * bars the compression steel, and depths are measured from the bottom face.
+ * The flange is then in tension and only the web is in compression, so the
+ * section is analyzed as rectangular.
+ */
+export function orientSection(input: BeamInput, includeSlabBars: boolean = true): BeamInput {
+  if (input.momentSign !== 'negative') {
+    return input;
+  }
+  const flip = (layer: BarLayer): BarLayer => ({ ...layer, depth: input.h - layer.depth });
+  const slabBarCount = includeSlabBars ? calculateSlabBarCount(input) : 0;
+  const slabLayers = slabBarCount > 0
+    ? [{ barSize: input.slabBar, count: slabBarCount, depth: input.slabDepth }]
+    : [];
+
+  return {
+    ...input,
+    sectionShape: 'rectangular',
+    tensionLayers: [...input.compressionLayers, ...slabLayers].map(flip).sort((p, q) => q.depth - p.depth),
+    compressionLayers: input.tensionLayers.map(flip),
+  };
+}
+
+/**
+ * Main calculation function - performs complete beam analysis
+ * @param layout - section with the bar layers on their physical faces
+ */
+export function analyzeBeam(layout: BeamInput): BeamResults {
+  const input = orientSection(layout);
+  const { sectionShape, b, unitSystem: units } = input;
+  const code = getDesignCode(input.designCode);
+  const warnings: CodeCheckItem[] = [];
+  const isNegativeMoment = layout.momentSign === 'negative';
+  const slabBarCount = isNegativeMoment ? calculateSlabBarCount(layout) : 0;
+
+  // Steel areas and depths from the bar layers
+  const { As, d, dt, As_prime, d_prime } = summarizeReinforcement(input);
+
+  // Material strengths reduced by the code's resistance factors
+  // (unchanged for ACI 318, which applies φ to the nominal moment); Es is
+  // factored with fy so the steel stress below yield is φs·Es·εs and εy = fy/Es
+  const { phi_c, phi_s } = code;
+  const fc = phi_c * input.fc;
+  const fy = phi_s * input.fy;
+  const Es = phi_s * input.Es;
+
+  // Calculate basic parameters
+  const { alpha1, beta1 } = code.calculateStressBlock(input.fc, units);
+  const epsilon_cu = code.calculateEpsilonCu(input.fc);
+  const epsilon_y = calculateEpsilonY(fy, Es);
+  const epsilon_t_cc = code.calculateCompressionControlStrain(epsilon_y, input.fy);
+  const epsilon_t_tc = code.calculateTensionControlStrain(input.fc, input.fy, epsilon_cu, epsilon_y);
+  const epsilon_t_min = code.calculateStrainLimit(input.fc, input.fy, epsilon_cu, epsilon_y);
+  const isDoublyReinforced = As_prime > 0;
+
+  // Flange geometry per ACI 318-19 Table 6.3.2.1
+  const isFlanged = sectionShape !== 'rectangular';
+  const hf = isFlanged ? input.hf : 0;
+  const bf_eff = calculateEffectiveFlangeWidth(
+    sectionShape, b, input.bf, input.hf, input.spanLength, input.webClearSpacing
+  );
+
+  let a: number;
+  let c: number;
+  let epsilon_t: number;
+  let Mn: number;
+  let epsilon_s_prime = 0;
+  let fs_prime = 0;
+  let Cs = 0;
+  let Cf = 0;
+
+  if (isDoublyReinforced) {
+    // Doubly reinforced - iterate on equilibrium with strain compatibility
+    const solution = solveDoublyReinforced({ ...input, fc, fy, Es }, beta1, bf_eff, epsilon_cu, alpha1);
+    ({ a, c, epsilon_t, epsilon_s_prime, fs_prime, Cs, Mn } = solution);
+    if (isFlanged && a > hf) {
+      Cf = alpha1 * fc * (bf_eff - b) * hf;
+    }
+  } else if (isFlanged) {
+    // Try rectangular behavior with the full effective flange width
+    a = calculateStressBlockDepth(As, fy, fc, bf_eff, alpha1);
+    if (a <= hf) {
+      Mn = calculateMn(As, fy, d, a);
+    } else {
+      // Stress block extends into the web:
+      // Cf = α1·f'c·(be − bw)·hf carried by the overhangs, the rest by the web
+      Cf = alpha1 * fc * (bf_eff - b) * hf;
+      a = (As * fy - Cf) / (alpha1 * fc * b);
+      Mn = Cf * (d - hf / 2) + (As * fy - Cf) * (d - a / 2);
+    }
+    c = calculateNeutralAxisDepth(a, beta1);
+    epsilon_t = calculateTensionStrain(dt, c, epsilon_cu);
+  } else {
+    // Calculate stress block and neutral axis
+    a = calculateStressBlockDepth(As, fy, fc, b, alpha1);
+    c = calculateNeutralAxisDepth(a, beta1);
+
+    // Calculate strain in extreme tension steel (at dt)
+    epsilon_t = calculateTensionStrain(dt, c, epsilon_cu);
+
+    // Calculate moment capacity
+    Mn = calculateMn(As, fy, d, a);
+  }
 
   // Calculate strength reduction factor
-  const phi = calculatePhi(epsilon_t, epsilon_y);
+  const phi = code.calculatePhi(epsilon_t, epsilon_y, input.fy);
 
   // Classify section
-  const sectionType = classifySection(epsilon_t, epsilon_y);
+  const sectionType = classifySection(epsilon_t, epsilon_t_cc, epsilon_t_tc);
 
   // Calculate reinforcement ratios
+  // (flanged sections use the web width bw; strain limits apply at dt,
+  // so the rectangular-section ratios are scaled by dt/d)
   const rho = As / (b * d);
-  const rho_b = calculateRhoBalanced(fc, fy, beta1, epsilon_y);
-  const rho_max = calculateRhoMax(fc, fy, beta1);
-  const rho_min = calculateRhoMin(fc, fy);
+  const rho_b = isFlanged
+    ? calculateFlangedRhoAtStrain(epsilon_y, b, bf_eff, hf, d, dt, fc, fy, beta1, epsilon_cu, alpha1)
+    : calculateRhoBalanced(fc, fy, beta1, epsilon_y, epsilon_cu, alpha1) * dt / d;
+  // Compression steel that reaches f's raises the permissible tension steel
+  const rho_prime = As_prime / (b * d);
+  const rho_max = (isFlanged
+    ? calculateFlangedRhoAtStrain(epsilon_t_min, b, bf_eff, hf, d, dt, fc, fy, beta1, epsilon_cu, alpha1)
+    : calculateRhoMax(fc, fy, beta1, epsilon_cu, epsilon_t_min, alpha1) * dt / d) + rho_prime * Math.max(0, fs_prime) / fy;
+  const rho_min = code.calculateRhoMin(input.fc, input.fy, d, input.h, units);
 
-  // Calculate moment capacity
-  const Mn = calculateMn(As, fy, d, a);
   const phiMn = phi * Mn;
+  const phiMn_kip_ft = convertToKipFt(phiMn);
+
+  // Compare with the factored moment demand, if one was entered
+  const hasMomentDemand = input.Mu > 0;
+  const demandCapacityRatio = hasMomentDemand && phiMn_kip_ft > 0 ? input.Mu / phiMn_kip_ft : 0;
+  const isMomentAdequate = !hasMomentDemand || demandCapacityRatio <= 1;
+  const isNearCapacity = isMomentAdequate && hasMomentDemand
+    && demandCapacityRatio >= 1 - input.demandMargin / 100;
 
   // Perform checks
   const steelYields = epsilon_t >= epsilon_y;
+  const compressionSteelYields = isDoublyReinforced && epsilon_s_prime >= epsilon_y;
   const isAdequatelyReinforced = rho >= rho_min;
   const isNotOverReinforced = rho <= rho_max;
 
   // Generate warnings
+  if (!isMomentAdequate) {
+    warnings.push({ severity: 'warning', message: `Design moment capacity (${formatQuantity(phiMn_kip_ft, 'moment', units, 1)}) is less than Mu (${formatQuantity(input.Mu, 'moment', units, 1)}). D/C = ${demandCapacityRatio.toFixed(3)}.` });
+  } else if (isNearCapacity) {
+    warnings.push({ severity: 'note', message: `Mu is within ${input.demandMargin}% of φMn (D/C = ${demandCapacityRatio.toFixed(3)}).` });
+  }
+
   if (!steelYields) {
-    warnings.push('Warning: Tension steel does not yield at ultimate. Section is over-reinforced.');
+    warnings.push({ severity: 'warning', message: 'Tension steel does not yield at ultimate. Section is over-reinforced.' });
   }
 
   if (!isAdequatelyReinforced) {
-    warnings.push(`Warning: Reinforcement ratio (${(rho * 100).toFixed(3)}%) is less than minimum (${(rho_min * 100).toFixed(3)}%). Per ACI 318, As,min requirements may govern.`);
+    warnings.push({ severity: 'warning', message: `Reinforcement ratio (${(rho * 100).toFixed(3)}%) is less than minimum (${(rho_min * 100).toFixed(3)}%). Per ${code.name}, As,min requirements may govern.` });
   }
 
   if (!isNotOverReinforced) {
-    warnings.push(`Warning: Reinforcement ratio (${(rho * 100).toFixed(3)}%) exceeds maximum (${(rho_max * 100).toFixed(3)}%). Section may not have adequate ductility.`);
+    warnings.push({ severity: 'warning', message: `Reinforcement ratio (${(rho * 100).toFixed(3)}%) exceeds maximum (${(rho_max * 100).toFixed(3)}%). Section may not have adequate ductility.` });
   }
 
   if (sectionType === 'compression-controlled') {
-    warnings.push('Warning: Section is compression-controlled. Consider reducing reinforcement for better ductility.');
+    warnings.push({ severity: 'warning', message: 'Section is compression-controlled. Consider reducing reinforcement for better ductility.' });
   }
 
   if (sectionType === 'transition') {
-    warnings.push('Note: Section is in the transition zone between tension and compression controlled.');
+    warnings.push({ severity: 'note', message: 'Section is in the transition zone between tension and compression controlled.' });
+  }
+
+  if (isDoublyReinforced && epsilon_s_prime < 0) {
+    warnings.push({ severity: 'warning', message: "Compression steel lies below the neutral axis and is in tension. Check d' and A's." });
+  } else if (isDoublyReinforced && !compressionSteelYields) {
+    warnings.push({ severity: 'note', message: `Compression steel does not yield at ultimate (f's = ${formatQuantity(fs_prime, 'stress', units, 0)} < fy).` });
+  }
+
+  if (isFlanged && bf_eff < input.bf) {
+    warnings.push({ severity: 'note', message: `Flange width limited to effective width be = ${formatQuantity(bf_eff, 'length', units, 1)} per ACI 318-19 Table 6.3.2.1.` });
+  }
+
+  if (isFlanged && input.bf < b) {
+    warnings.push({ severity: 'error', message: 'Flange width is less than web width. Check input values.' });
+  }
+
+  if (isFlanged && input.hf >= input.h) {
+    warnings.push({ severity: 'error', message: 'Flange thickness must be less than total height. Check input values.' });
   }
 
   if (a > d) {
-    warnings.push('Error: Stress block depth exceeds effective depth. Check input values.');
+    warnings.push({ severity: 'error', message: 'Stress block depth exceeds effective depth. Check input values.' });
   }
 
   if (c >= d) {
-    warnings.push('Error: Neutral axis is at or below tension steel. Invalid configuration.');
+    warnings.push({ severity: 'error', message: 'Neutral axis is at or below tension steel. Invalid configuration.' });
+  }
+
+  if (input.tensionLayers.some((layer) => layer.depth > input.h || layer.depth <= 0)) {
+    warnings.push({ severity: 'error', message: 'A tension bar layer lies outside the section depth. Check layer depths.' });
+  }
+
+  if (isNegativeMoment && layout.sectionShape !== 'rectangular') {
+    const slabSteel = slabBarCount > 0
+      ? `${slabBarCount} ${formatBarSize(layout.slabBar, units)} slab bars within the effective flange width are included in As.`
+      : 'No slab bars are included in As.';
+    warnings.push({
+      severity: 'note',
+      message: `Negative bending: the flange is in tension and only the web is in compression. ${slabSteel} Service properties use the web alone.`,
+      clause: 'ACI 318-19 24.3.4',
+    });
+  }
+
+  // Only the flexural strength follows the selected code
+  if (code.id !== 'aci-318-19') {
+    warnings.push({ severity: 'note', message: `Shear, detailing and serviceability checks follow ACI 318-19; flexural strength follows ${code.name}.` });
+  }
+
+  // Bar spacing, fit and cover (ACI 318-19 Sections 25.2 and 20.5)
+  // (checked on the physical layout; the slab bars are not part of the web layers)
+  warnings.push(...checkBarLayout(layout));
+
+  // Crack control by bar spacing (ACI 318-19 Section 24.3.2)
+  const crackControl = analyzeCrackControl(orientSection(layout, false));
+  if (!crackControl.isSpacingAdequate) {
+    warnings.push({
+      severity: 'warning',
+      message: `Tension bar spacing (${formatQuantity(crackControl.s, 'length', units, 2)}) exceeds the crack control limit (${formatQuantity(crackControl.s_max, 'length', units, 2)}) per ACI 318-19 Section 24.3.2.`,
+      clause: 'ACI 318-19 24.3.2',
+    });
+  }
+
+  // Minimum depth for deflection control (ACI 318-19 Table 9.3.1.1)
+  const minimumThickness = analyzeMinimumThickness(input);
+  if (minimumThickness.hasSpan && !minimumThickness.isThicknessAdequate) {
+    warnings.push({
+      severity: 'note',
+      message: `h = ${formatQuantity(input.h, 'length', units, 2)} is less than the minimum depth of ${formatQuantity(minimumThickness.h_min, 'length', units, 2)} per ACI 318-19 Table 9.3.1.1. Deflections must be calculated.`,
+      clause: 'ACI 318-19 Table 9.3.1.1',
+    });
+  }
+
+  // Member deflection under service loads (ACI 318-19 Section 24.2)
+  const service = analyzeServiceProperties(input, bf_eff);
+  const deflection = analyzeDeflection(input, service, rho_prime);
+  if (deflection.hasLoads && !deflection.isDeflectionAdequate) {
+    warnings.push({
+      severity: 'warning',
+      message: `Deflection (${formatQuantity(deflection.delta_check, 'length', units, 3)}) exceeds the limit of span/${deflection.limitDivisor} = ${formatQuantity(deflection.delta_allow, 'length', units, 3)} per ACI 318-19 Table 24.2.2.`,
+      clause: 'ACI 318-19 Table 24.2.2',
+    });
+  }
+
+  // Optional fiber-section analysis with nonlinear material models
+  const fiber = input.refinedAnalysis ? analyzeFiberSection(input, bf_eff) : null;
+  if (fiber && !fiber.isConverged) {
+    warnings.push({
+      severity: 'note',
+      message: 'The fiber-section analysis did not find a neutral axis in equilibrium. Check the section and the extreme fiber strain.',
+    });
+  }
+
+  // Moment-curvature response up to crushing at εcu and beyond
+  const momentCurvature = analyzeMomentCurvature(input, bf_eff, service, epsilon_cu);
+
+  // Axial load-moment interaction for beam-columns
+  const interaction = input.Pu !== 0 ? analyzeInteraction(input, bf_eff) : null;
+  if (interaction) {
+    const P_limit = 0.10 * input.fc * interaction.Ag / 1000;
+    if (input.Pu > P_limit) {
+      warnings.push({
+        severity: 'note',
+        message: `Pu exceeds 0.10f'c·Ag = ${formatQuantity(P_limit, 'force', units, 1)}. Check the member as a beam-column with the P-M interaction diagram rather than for flexure alone.`,
+      });
+    }
+    if (!interaction.isAdequate) {
+      warnings.push({
+        severity: 'warning',
+        message: `The factored load (Pu = ${formatQuantity(input.Pu, 'force', units, 1)}, Mu = ${formatQuantity(input.Mu, 'moment', units, 1)}) lies outside the design interaction diagram. D/C = ${formatNumber(interaction.demandCapacityRatio, 3)}.`,
+      });
+    }
   }
 
   return {
+    designCode: code.id,
+    alpha1,
+    phi_c,
+    phi_s,
     beta1,
     a,
     c,
+    As,
+    d,
+    dt,
+    As_prime,
+    d_prime,
     epsilon_t,
     epsilon_y,
-    epsilon_cu: EPSILON_CU,
+    epsilon_cu,
+    epsilon_t_cc,
+    epsilon_t_tc,
+    epsilon_t_min,
+    isNegativeMoment,
+    slabBarCount,
+    As_slab: slabBarCount * (REBAR_AREAS[layout.slabBar] ?? 0),
+    isFlanged,
+    bf_eff,
+    stressBlockInFlange: isFlanged && a <= hf,
+    Cf,
     rho,
     rho_b,
     rho_max,
     rho_min,
+    isDoublyReinforced,
+    epsilon_s_prime,
+    fs_prime,
+    Cs,
+    compressionSteelYields,
     Mn,
     Mn_kip_ft: convertToKipFt(Mn),
     phi,
     phiMn,
-    phiMn_kip_ft: convertToKipFt(phiMn),
+    phiMn_kip_ft,
+    hasMomentDemand,
+    Mu_kip_ft: input.Mu,
+    demandCapacityRatio,
+    isMomentAdequate,
+    isNearCapacity,
     sectionType,
     isAdequatelyReinforced,
     isNotOverReinforced,
     steelYields,
+    shear: analyzeShear(input),
+    crackControl,
+    service,
+    deflection,
+    minimumThickness,
+    fiber,
+    momentCurvature,
+    interaction,
     warnings,
   };
 }
 
 /**
  * Calculate required steel area for a given moment demand
+ *
+ * φ is not assumed: starting from φ = 0.90 the required ρ is found from
+ * Rn = Mu / (φ·b·d²), then εt is recomputed for that steel and φ updated
+ * per Table 21.2.2 until it converges. This keeps the result conservative
+ * for sections that fall in the transition zone. Codes that factor the
+ * materials instead use φ = 1 with the reduced strengths.
  */
 export function calculateRequiredSteel(
   Mu: number, // factored moment demand (lb-in)
   b: number,
   d: number,
-  fc: number,
-  fy: number
-): { As_required: number; isValid: boolean; message: string } {
+  fc_specified: number,
+  fy_specified: number,
+  Es: number = 29000000,
+  units: UnitSystem = 'US',
+  designCode: DesignCodeId = 'aci-318-19',
+  h: number = d
+): { As_required: number; As_min: number; As_design: number; phi: number; isValid: boolean; message: string } {
   // Using the quadratic formula approach
   // Mu = φ * As * fy * (d - a/2)
-  // where a = As * fy / (0.85 * f'c * b)
+  // where a = As * fy / (α1 * f'c * b)
+
+  const code = getDesignCode(designCode);
+  const fc = code.phi_c * fc_specified;
+  const fy = code.phi_s * fy_specified;
+  const { alpha1, beta1 } = code.calculateStressBlock(fc_specified, units);
+  const epsilon_cu = code.calculateEpsilonCu(fc_specified);
+  const epsilon_y = calculateEpsilonY(fy, code.phi_s * Es);
+
+  let phi = code.calculatePhi(Infinity, epsilon_y, fy_specified); // Assume tension-controlled initially
+  let rho_required = NaN;
+  for (let i = 0; i < 50; i++) {
+    const R_n = Mu / (phi * b * d * d);
+    rho_required = (alpha1 * fc / fy) * (1 - Math.sqrt(1 - (2 * R_n) / (alpha1 * fc)));
+    if (isNaN(rho_required)) break;
+
+    const a = calculateStressBlockDepth(rho_required * b * d, fy, fc, b, alpha1);
+    const epsilon_t = calculateTensionStrain(d, calculateNeutralAxisDepth(a, beta1), epsilon_cu);
+    const phiNew = code.calculatePhi(epsilon_t, epsilon_y, fy_specified);
+    if (Math.abs(phiNew - phi) < 1e-6) break;
+    phi = phiNew;
+  }
 
-  const phi = 0.9; // Assume tension-controlled initially
-  const R_n = Mu / (phi * b * d * d);
-  const rho_required = (0.85 * fc / fy) * (1 - Math.sqrt(1 - (2 * R_n) / (0.85 * fc)));
+  const As_min = code.calculateRhoMin(fc_specified, fy_specified, d, h, units) * b * d;
 
   if (isNaN(rho_required) || rho_required < 0) {
     return {
       As_required: 0,
+      As_min,
+      As_design: 0,
+      phi,
       isValid: false,
       message: 'Section cannot carry the applied moment. Increase section size.',
     };
   }
 
   const As_required = rho_required * b * d;
-  const rho_max = calculateRhoMax(fc, fy, calculateBeta1(fc));
+  // As,min need not be provided if As ≥ 4/3 As,req (ACI 318-19 Section 9.6.1.3)
+  const As_design = Math.max(As_required, Math.min(As_min, (4 / 3) * As_required));
+  const epsilon_t_min = code.calculateStrainLimit(fc_specified, fy_specified, epsilon_cu, epsilon_y);
+  const rho_max = calculateRhoMax(fc, fy, beta1, epsilon_cu, epsilon_t_min, alpha1);
 
   if (rho_required > rho_max) {
     return {
       As_required,
+      As_min,
+      As_design,
+      phi,
       isValid: false,
       message: `Required reinforcement ratio (${(rho_required * 100).toFixed(3)}%) exceeds maximum (${(rho_max * 100).toFixed(3)}%).`,
     };
@@ -289,11 +913,61 @@ export function calculateRequiredSteel(
 
   return {
     As_required,
+    As_min,
+    As_design,
+    phi,
     isValid: true,
-    message: 'OK',
+    message: phi < 0.9
+      ? `OK - section is in the transition zone (φ = ${phi.toFixed(3)}).`
+      : 'OK',
   };
 }
 
+/**
+ * A single-layer bar arrangement proposed by the design mode
+ */
+export interface BarCombination {
+  barSize: string;  // key of REBAR_AREAS
+  count: number;    // number of bars
+  As: number;       // provided area (sq in)
+  maxBars: number;  // bars of this size that fit in one layer
+}
+
+/**
+ * Propose single-layer bar combinations that provide at least As,req and fit
+ * within the width b for the given cover, stirrup and aggregate size.
+ * Results are sorted by provided area (least excess first).
+ */
+export function proposeBarCombinations(
+  As_required: number,
+  b: number,
+  clearCover: number,
+  stirrupBar: string,
+  aggregateSize: number,
+  units: UnitSystem = 'US'
+): BarCombination[] {
+  const stirrupDiameter = REBAR_DIAMETERS[stirrupBar] ?? 0;
+  const combinations: BarCombination[] = [];
+
+  Object.entries(REBAR_AREAS).forEach(([barSize, area]) => {
+    const count = Math.max(2, Math.ceil(As_required / area));
+    const maxBars = calculateMaxBarsPerLayer(b, REBAR_DIAMETERS[barSize], clearCover, stirrupDiameter, aggregateSize, units);
+    if (count <= maxBars) {
+      combinations.push({ barSize, count, As: count * area, maxBars });
+    }
+  });
+
+  return combinations.sort((x, y) => x.As - y.As);
+}
+
+/**
+ * Format a code check item for display, e.g. "Warning: ..."
+ */
+export function formatCodeCheck(item: CodeCheckItem): string {
+  const label = item.severity.charAt(0).toUpperCase() + item.severity.slice(1);
+  return `${label}: ${item.message}`;
+}
+
 /**
  * Format number for display with appropriate precision
  */
@@ -0,0 +1,379 @@
+import type { DesignCodeId, UnitSystem } from '../types/beam';
+import { fromCustomary } from './units';
+
+/**
+ * Design codes for flexural strength
+ *
+ * analyzeBeam takes the stress block, resistance factors, strain limits and
+ * minimum steel from the selected code. ACI 318 applies a strength reduction
+ * factor φ to the nominal moment. CSA A23.3 and EN 1992-1-1 factor the
+ * material strengths instead (φc·f'c and φs·fy, or fck/γc and fyk/γs), so
+ * their φ is 1 and φMn is the factored resistance Mr (MRd).
+ *
+ * Functions take customary values (psi) like the rest of the engine. CSA
+ * A23.3 and EN 1992-1-1 are metric codes and are evaluated in MPa whatever
+ * the display units; ACI 318 uses the ACI 318M form when SI is selected.
+ */
+
+// Equivalent rectangular stress block: intensity alpha1·f'c over depth beta1·c
+export interface StressBlock {
+  alpha1: number;
+  beta1: number;
+}
+
+export interface DesignCode {
+  id: DesignCodeId;
+  name: string;                // designation, e.g. 'ACI 318-19'
+  metricName: string;          // designation when SI units are selected
+  title: string;               // document title, cited after the designation
+  phi_c: number;               // concrete resistance factor φc (1/γc), 1 for ACI 318
+  phi_s: number;               // steel resistance factor φs (1/γs), 1 for ACI 318
+  materialFactors: 'phi' | 'gamma' | null; // how the code states phi_c and phi_s
+  axialCapFactor: number;      // maximum axial strength of tied members as a fraction of Po
+  calculateStressBlock(fc: number, units: UnitSystem): StressBlock;
+  calculateEpsilonCu(fc: number): number;
+  // Strength reduction factor applied to the nominal moment
+  calculatePhi(epsilon_t: number, epsilon_y: number, fy: number): number;
+  // Tension strain at or below which a section is compression-controlled
+  calculateCompressionControlStrain(epsilon_y: number, fy: number): number;
+  // Tension strain at which a section is tension-controlled (ductile)
+  calculateTensionControlStrain(fc: number, fy: number, epsilon_cu: number, epsilon_y: number): number;
+  // Minimum tension strain at the maximum reinforcement ratio
+  calculateStrainLimit(fc: number, fy: number, epsilon_cu: number, epsilon_y: number): number;
+  // Minimum tension steel as a ratio of bw·d
+  calculateRhoMin(fc: number, fy: number, d: number, h: number, units: UnitSystem): number;
+  // Equations for the results and the calculation sheet
+  formulas: {
+    stressBlock(fc: number, units: UnitSystem): string[];
+    rhoMin(units: UnitSystem): string;
+  };
+  symbols: {
+    alpha1: string;            // stress block intensity, e.g. '0.85'
+    fc: string;                // concrete strength in the equations, e.g. "f'c"
+    fy: string;                // steel strength in the equations, e.g. 'fy'
+  };
+  clauses: {
+    epsilonCu: string;
+    stressBlock: string;
+    equilibrium: string;
+    strainCompatibility: string;
+    phi: string;
+    rhoMin: string;
+    rhoMax: string;
+    axialCap: string;
+  };
+}
+
+// ACI 318-14 and 318-11 ductility limit for the maximum reinforcement ratio
+// (318-14 Section 9.3.3.1, 318-11 Section 10.3.5); 318-19 requires εty + 0.003
+const ACI_MIN_TENSION_STRAIN = 0.004;
+
+// ACI 318-11 compression-controlled strain limit permitted for Grade 60
+// (Section 10.3.3); other grades use εy
+const ACI_318_11_COMPRESSION_CONTROL_STRAIN = 0.002;
+
+// ACI 318-14 and 318-11 tension-controlled strain limit (318-14 Table 21.2.2,
+// 318-11 Section 10.3.4); 318-19 uses εty + 0.003
+const ACI_TENSION_CONTROL_STRAIN = 0.005;
+
+// Strain beyond εty at which a section is tension-controlled, ACI 318-19 Table 21.2.2
+const ACI_318_19_TENSION_CONTROL_MARGIN = 0.003;
+
+/**
+ * Calculate β1 (stress block depth factor) per ACI 318-19 Section 22.2.2.4.3
+ * β1 = 0.85 for f'c ≤ 4000 psi (28 MPa)
+ * β1 decreases by 0.05 for each 1000 psi (7 MPa) above 4000 psi (28 MPa)
+ * β1 minimum = 0.65
+ */
+export function calculateBeta1(fc: number, units: UnitSystem = 'US'): number {
+  const [fcLimit, fcStep] = units === 'SI' ? [28, 7] : [4000, 1000];
+  const fcValue = fromCustomary(fc, 'stress', units);
+  if (fcValue <= fcLimit) {
+    return 0.85;
+  }
+  const beta1 = 0.85 - 0.05 * ((fcValue - fcLimit) / fcStep);
+  return Math.max(beta1, 0.65);
+}
+
+/**
+ * Calculate strength reduction factor φ per ACI 318-19 Table 21.2.2
+ * Tension-controlled (εt ≥ εty + 0.003): φ = 0.90
+ * Compression-controlled (εt ≤ εty): φ = 0.65
+ * Transition zone: linear interpolation
+ * Earlier editions pass their own limits, e.g. 0.005 for tension control.
+ */
+export function calculatePhi(
+  epsilon_t: number,
+  epsilon_y: number,
+  epsilon_cc: number = epsilon_y,
+  epsilon_tc: number = epsilon_y + ACI_318_19_TENSION_CONTROL_MARGIN
+): number {
+  if (epsilon_t >= epsilon_tc) {
+    return 0.90; // Tension-controlled
+  }
+  if (epsilon_t <= epsilon_cc) {
+    return 0.65; // Compression-controlled
+  }
+  // Transition zone - linear interpolation
+  return 0.65 + 0.25 * (epsilon_t - epsilon_cc) / (epsilon_tc - epsilon_cc);
+}
+
+/**
+ * ACI 318-11 compression-controlled strain limit: 0.002 for Grade 60
+ * (60,000 psi or 420 MPa), εy otherwise
+ */
+function calculateACI318_11CompressionControlStrain(epsilon_y: number, fy: number): number {
+  const isGrade60 = Math.abs(fy - 60000) < 1 || Math.abs(toMPa(fy) - 420) < 0.01;
+  return isGrade60 ? ACI_318_11_COMPRESSION_CONTROL_STRAIN : epsilon_y;
+}
+
+/**
+ * Calculate minimum reinforcement ratio per ACI 318-19 Section 9.6.1.2
+ * ρmin = max(3 * √f'c / fy, 200 / fy) in psi
+ * ρmin = max(0.25 * √f'c / fy, 1.4 / fy) in MPa (ACI 318M)
+ */
+export function calculateRhoMin(fc: number, fy: number, units: UnitSystem = 'US'): number {
+  const [k1, k2] = units === 'SI' ? [0.25, 1.4] : [3, 200];
+  const fcValue = fromCustomary(fc, 'stress', units);
+  const fyValue = fromCustomary(fy, 'stress', units);
+  const rho1 = (k1 * Math.sqrt(fcValue)) / fyValue;
+  const rho2 = k2 / fyValue;
+  return Math.max(rho1, rho2);
+}
+
+/**
+ * Strain in the extreme tension steel when the neutral axis is at c/d = k
+ */
+function strainAtDepthRatio(k: number, epsilon_cu: number): number {
+  return epsilon_cu * (1 - k) / k;
+}
+
+/**
+ * Convert a customary stress to MPa, for the metric codes
+ */
+function toMPa(stress: number): number {
+  return fromCustomary(stress, 'stress', 'SI');
+}
+
+const ACI_318_19: DesignCode = {
+  id: 'aci-318-19',
+  name: 'ACI 318-19',
+  metricName: 'ACI 318M-19',
+  title: 'Building Code Requirements for Structural Concrete',
+  phi_c: 1,
+  phi_s: 1,
+  materialFactors: null,
+  axialCapFactor: 0.80,
+  calculateStressBlock: (fc, units) => ({ alpha1: 0.85, beta1: calculateBeta1(fc, units) }),
+  calculateEpsilonCu: () => 0.003,
+  calculatePhi: (epsilon_t, epsilon_y) => calculatePhi(epsilon_t, epsilon_y),
+  calculateCompressionControlStrain: (epsilon_y) => epsilon_y,
+  calculateTensionControlStrain: (_fc, _fy, _epsilon_cu, epsilon_y) => epsilon_y + ACI_318_19_TENSION_CONTROL_MARGIN,
+  calculateStrainLimit: (_fc, _fy, _epsilon_cu, epsilon_y) => epsilon_y + 0.003,
+  calculateRhoMin: (fc, fy, _d, _h, units) => calculateRhoMin(fc, fy, units),
+  formulas: {
+    stressBlock: (fc, units) => {
+      const [fcLimit, fcStep] = units === 'SI' ? [28, 7] : [4000, 1000];
+      const unit = units === 'SI' ? 'MPa' : 'psi';
+      return fromCustomary(fc, 'stress', units) <= fcLimit
+        ? [`For f'c ≤ ${fcLimit} ${unit}:`, 'β1 = 0.85']
+        : [`For f'c > ${fcLimit} ${unit}:`, `β1 = 0.85 - 0.05·(f'c - ${fcLimit}) / ${fcStep}, but not less than 0.65`];
+    },
+    rhoMin: (units) => units === 'SI'
+      ? "ρmin = max(0.25√f'c / fy, 1.4 / fy)"
+      : "ρmin = max(3√f'c / fy, 200 / fy)",
+  },
+  symbols: { alpha1: '0.85', fc: "f'c", fy: 'fy' },
+  clauses: {
+    epsilonCu: 'ACI 318-19 Sec. 22.2.2.1',
+    stressBlock: 'ACI 318-19 Sec. 22.2.2.4.3',
+    equilibrium: 'ACI 318-19 Sec. 22.2.2.4.1',
+    strainCompatibility: 'ACI 318-19 Sec. 22.2.1.2',
+    phi: 'ACI 318-19 Table 21.2.2',
+    rhoMin: 'ACI 318-19 Sec. 9.6.1.2',
+    rhoMax: 'ACI 318-19 Sec. 9.3.3.1',
+    axialCap: 'ACI 318-19 Sec. 22.4.2.1',
+  },
+};
+
+/**
+ * ACI 318-14: same flexural provisions and section numbers as 318-19, except
+ * that sections are tension-controlled at εt = 0.005 and beams need only
+ * εt ≥ 0.004 at the maximum reinforcement ratio.
+ */
+const ACI_318_14: DesignCode = {
+  ...ACI_318_19,
+  id: 'aci-318-14',
+  name: 'ACI 318-14',
+  metricName: 'ACI 318M-14',
+  calculatePhi: (epsilon_t, epsilon_y) => calculatePhi(epsilon_t, epsilon_y, epsilon_y, ACI_TENSION_CONTROL_STRAIN),
+  calculateTensionControlStrain: () => ACI_TENSION_CONTROL_STRAIN,
+  calculateStrainLimit: () => ACI_MIN_TENSION_STRAIN,
+  clauses: {
+    epsilonCu: 'ACI 318-14 Sec. 22.2.2.1',
+    stressBlock: 'ACI 318-14 Sec. 22.2.2.4.3',
+    equilibrium: 'ACI 318-14 Sec. 22.2.2.4.1',
+    strainCompatibility: 'ACI 318-14 Sec. 22.2.1.2',
+    phi: 'ACI 318-14 Table 21.2.2',
+    rhoMin: 'ACI 318-14 Sec. 9.6.1.2',
+    rhoMax: 'ACI 318-14 Sec. 9.3.3.1',
+    axialCap: 'ACI 318-14 Sec. 22.4.2.1',
+  },
+};
+
+/**
+ * ACI 318-11: as 318-14, except that the φ transition may start at εt = 0.002
+ * rather than εy for Grade 60 (Section 10.3.3), and the provisions are
+ * numbered by chapter 10.
+ */
+const ACI_318_11: DesignCode = {
+  ...ACI_318_19,
+  id: 'aci-318-11',
+  name: 'ACI 318-11',
+  metricName: 'ACI 318M-11',
+  calculatePhi: (epsilon_t, epsilon_y, fy) => calculatePhi(
+    epsilon_t, epsilon_y, calculateACI318_11CompressionControlStrain(epsilon_y, fy), ACI_TENSION_CONTROL_STRAIN
+  ),
+  calculateCompressionControlStrain: calculateACI318_11CompressionControlStrain,
+  calculateTensionControlStrain: () => ACI_TENSION_CONTROL_STRAIN,
+  calculateStrainLimit: () => ACI_MIN_TENSION_STRAIN,
+  clauses: {
+    epsilonCu: 'ACI 318-11 Sec. 10.2.3',
+    stressBlock: 'ACI 318-11 Sec. 10.2.7.3',
+    equilibrium: 'ACI 318-11 Sec. 10.2.7.1',
+    strainCompatibility: 'ACI 318-11 Sec. 10.2.2',
+    phi: 'ACI 318-11 Sec. 9.3.2, 10.3.4',
+    rhoMin: 'ACI 318-11 Sec. 10.5.1',
+    rhoMax: 'ACI 318-11 Sec. 10.3.5',
+    axialCap: 'ACI 318-11 Sec. 10.3.6.2',
+  },
+};
+
+/**
+ * CSA A23.3-19: α1 = 0.85 − 0.0015·f'c ≥ 0.67 and β1 = 0.97 − 0.0025·f'c ≥ 0.67
+ * (Clause 10.1.7), εcu = 0.0035, φc = 0.65 and φs = 0.85 (Clause 8.4).
+ * Tension steel yields while c/d ≤ 700 / (700 + fy) (Clause 10.5.2), and
+ * As,min = 0.2·√f'c·bt·h / fy (Clause 10.5.1.2).
+ */
+const CSA_A23_3_19: DesignCode = {
+  id: 'csa-a23.3-19',
+  name: 'CSA A23.3-19',
+  metricName: 'CSA A23.3-19',
+  title: 'Design of Concrete Structures',
+  phi_c: 0.65,
+  phi_s: 0.85,
+  materialFactors: 'phi',
+  axialCapFactor: 0.80,
+  calculateStressBlock: (fc) => ({
+    alpha1: Math.max(0.85 - 0.0015 * toMPa(fc), 0.67),
+    beta1: Math.max(0.97 - 0.0025 * toMPa(fc), 0.67),
+  }),
+  calculateEpsilonCu: () => 0.0035,
+  calculatePhi: () => 1,
+  calculateCompressionControlStrain: (epsilon_y) => epsilon_y,
+  calculateTensionControlStrain: (_fc, fy, epsilon_cu) => strainAtDepthRatio(700 / (700 + toMPa(fy)), epsilon_cu),
+  calculateStrainLimit: (_fc, fy, epsilon_cu) => strainAtDepthRatio(700 / (700 + toMPa(fy)), epsilon_cu),
+  calculateRhoMin: (fc, fy, d, h) => (0.2 * Math.sqrt(toMPa(fc)) * h) / (toMPa(fy) * d),
+  formulas: {
+    stressBlock: () => [
+      "α1 = 0.85 - 0.0015·f'c ≥ 0.67 (MPa)",
+      "β1 = 0.97 - 0.0025·f'c ≥ 0.67",
+    ],
+    rhoMin: () => "ρmin = 0.2√f'c·h / (fy·d) (MPa)",
+  },
+  symbols: { alpha1: 'α1', fc: "φc·f'c", fy: 'φs·fy' },
+  clauses: {
+    epsilonCu: 'CSA A23.3-19 Cl. 10.1.3',
+    stressBlock: 'CSA A23.3-19 Cl. 10.1.7',
+    equilibrium: 'CSA A23.3-19 Cl. 10.1.7',
+    strainCompatibility: 'CSA A23.3-19 Cl. 10.1.2',
+    phi: 'CSA A23.3-19 Cl. 8.4.2, 8.4.3',
+    rhoMin: 'CSA A23.3-19 Cl. 10.5.1.2',
+    rhoMax: 'CSA A23.3-19 Cl. 10.5.2',
+    axialCap: 'CSA A23.3-19 Cl. 10.10.4',
+  },
+};
+
+/**
+ * EN 1992-1-1: λ = 0.8 and η = 1.0 up to fck = 50 MPa, reducing above
+ * (3.1.7(3)), εcu3 from Table 3.1, γc = 1.5 and γs = 1.15 (Table 2.1N) with
+ * αcc = 1.0. The neutral axis is limited to x/d ≤ 0.45 (0.35 above C50/60)
+ * per 5.6.3(2), and As,min = max(0.26·fctm/fyk, 0.0013)·bt·d (9.2.1.1).
+ * There is no cap on the axial resistance; the εc2 strain limit of 6.1(5)
+ * for pure compression is not applied.
+ */
+const EN_1992_1_1: DesignCode = {
+  id: 'en-1992-1-1',
+  name: 'EN 1992-1-1',
+  metricName: 'EN 1992-1-1',
+  title: 'Eurocode 2: Design of Concrete Structures',
+  phi_c: 1 / 1.5,
+  phi_s: 1 / 1.15,
+  materialFactors: 'gamma',
+  axialCapFactor: 1,
+  calculateStressBlock: (fc) => {
+    const fck = toMPa(fc);
+    return fck <= 50
+      ? { alpha1: 1.0, beta1: 0.8 }
+      : { alpha1: 1.0 - (fck - 50) / 200, beta1: 0.8 - (fck - 50) / 400 };
+  },
+  calculateEpsilonCu: (fc) => {
+    const fck = toMPa(fc);
+    return fck <= 50 ? 0.0035 : (2.6 + 35 * Math.pow((90 - fck) / 100, 4)) / 1000;
+  },
+  calculatePhi: () => 1,
+  calculateCompressionControlStrain: (epsilon_y) => epsilon_y,
+  calculateTensionControlStrain: (fc, _fy, epsilon_cu) => strainAtDepthRatio(toMPa(fc) <= 50 ? 0.45 : 0.35, epsilon_cu),
+  calculateStrainLimit: (fc, _fy, epsilon_cu) => strainAtDepthRatio(toMPa(fc) <= 50 ? 0.45 : 0.35, epsilon_cu),
+  calculateRhoMin: (fc, fy) => {
+    const fck = toMPa(fc);
+    const fctm = fck <= 50 ? 0.3 * Math.pow(fck, 2 / 3) : 2.12 * Math.log(1 + (fck + 8) / 10);
+    return Math.max((0.26 * fctm) / toMPa(fy), 0.0013);
+  },
+  formulas: {
+    stressBlock: (fc) => toMPa(fc) <= 50
+      ? ['For fck ≤ 50 MPa:', 'λ = 0.8, η = 1.0']
+      : ['λ = 0.8 - (fck - 50) / 400', 'η = 1.0 - (fck - 50) / 200'],
+    rhoMin: () => 'ρmin = max(0.26·fctm / fyk, 0.0013)',
+  },
+  symbols: { alpha1: 'η', fc: 'fcd', fy: 'fyd' },
+  clauses: {
+    epsilonCu: 'EN 1992-1-1 Table 3.1',
+    stressBlock: 'EN 1992-1-1 3.1.7(3)',
+    equilibrium: 'EN 1992-1-1 6.1',
+    strainCompatibility: 'EN 1992-1-1 6.1(2)',
+    phi: 'EN 1992-1-1 Table 2.1N',
+    rhoMin: 'EN 1992-1-1 9.2.1.1(1)',
+    rhoMax: 'EN 1992-1-1 5.6.3(2)',
+    axialCap: 'EN 1992-1-1 6.1(5)',
+  },
+};
+
+export const DESIGN_CODES: Record<DesignCodeId, DesignCode> = {
+  'aci-318-19': ACI_318_19,
+  'aci-318-14': ACI_318_14,
+  'aci-318-11': ACI_318_11,
+  'csa-a23.3-19': CSA_A23_3_19,
+  'en-1992-1-1': EN_1992_1_1,
+};
+
+/**
+ * Look up a design code, falling back to ACI 318-19 for unknown ids
+ */
+export function getDesignCode(id: DesignCodeId | undefined): DesignCode {
+  return (id && DESIGN_CODES[id]) || ACI_318_19;
+}
+
+/**
+ * Whether a code is an edition of ACI 318
+ */
+export function isAciCode(id: DesignCodeId): boolean {
+  return id.startsWith('aci-');
+}
+
+/**
+ * Designation of a code in the display units, e.g. 'ACI 318M-19' in SI
+ */
+export function formatCodeName(code: DesignCode, units: UnitSystem): string {
+  return units === 'SI' ? code.metricName : code.name;
+}
@@ -0,0 +1,232 @@
+import type { BeamInput, ConcreteModel, FiberSectionResults, SteelModel } from '../types/beam';
+import { calculateLayerArea, summarizeReinforcement } from './reinforcement';
+import { calculateEc } from './serviceCalculations';
+
+/**
+ * Refined Fiber-Section Analysis
+ * The section is divided into horizontal concrete fibers and the bar layers
+ * are taken as steel fibers. For a linear strain profile each fiber's stress
+ * follows from a nonlinear stress-strain model, and the neutral axis is found
+ * from force equilibrium. Strengths are nominal (no code resistance factors)
+ * and concrete in tension is ignored. Strains and forces are positive in
+ * compression.
+ */
+
+// Number of concrete fibers over the section height
+const FIBER_COUNT = 200;
+
+// Peak stress of the parabolic models f''c = 0.9·f'c (in-place strength)
+const PEAK_STRESS_RATIO = 0.9;
+
+// Hognestad: linear descending branch to 0.85·f''c at εcu = 0.0038
+const HOGNESTAD_ULTIMATE_STRAIN = 0.0038;
+
+// Todeschini: strain at peak stress ε0 = 1.71·f'c / Ec
+const TODESCHINI_STRAIN_RATIO = 1.71;
+
+// Strain hardening of Grade 60 bars: onset at εsh, ultimate fu = 1.5·fy at εsu
+const STRAIN_HARDENING_ONSET = 0.01;
+const ULTIMATE_STEEL_STRAIN = 0.09;
+const ULTIMATE_STRENGTH_RATIO = 1.5;
+
+// Number of points sampled for the concrete stress profile
+const PROFILE_POINTS = 25;
+
+/**
+ * A horizontal strip of the section at depth y below the compression face
+ */
+export interface Fiber {
+  depth: number;  // depth of the fiber centroid (in)
+  area: number;   // area (in²)
+}
+
+/**
+ * Internal forces for a linear strain profile
+ */
+export interface SectionForces {
+  Cc: number;     // concrete compression force (lb)
+  yc: number;     // depth of the concrete force (in)
+  Cs: number;     // compression steel force, net of displaced concrete (lb)
+  T: number;      // tension steel force (lb)
+  P: number;      // net axial force Cc + Cs − T, positive in compression (lb)
+  M: number;      // moment of the internal forces about the compression face (lb-in)
+}
+
+/**
+ * Peak concrete stress f''c of the parabolic models
+ */
+export function calculatePeakStress(fc: number): number {
+  return PEAK_STRESS_RATIO * fc;
+}
+
+/**
+ * Concrete stress for a compressive strain
+ * Hognestad: fc = f''c·[2ε/ε0 − (ε/ε0)²] up to ε0 = 2·f''c/Ec, then a linear
+ * decline to 0.85·f''c at εcu = 0.0038
+ * Todeschini: fc = 2·f''c·(ε/ε0) / (1 + (ε/ε0)²) with ε0 = 1.71·f'c/Ec
+ */
+export function calculateConcreteStress(
+  epsilon: number,
+  fc: number,
+  Ec: number,
+  model: ConcreteModel
+): number {
+  if (epsilon <= 0) return 0; // Concrete in tension is ignored
+  const fc_peak = calculatePeakStress(fc);
+
+  if (model === 'todeschini') {
+    const ratio = epsilon / (TODESCHINI_STRAIN_RATIO * fc / Ec);
+    return (2 * fc_peak * ratio) / (1 + ratio * ratio);
+  }
+
+  const epsilon_0 = (2 * fc_peak) / Ec;
+  if (epsilon <= epsilon_0) {
+    const ratio = epsilon / epsilon_0;
+    return fc_peak * (2 * ratio - ratio * ratio);
+  }
+  const decline = (0.15 * (epsilon - epsilon_0)) / (HOGNESTAD_ULTIMATE_STRAIN - epsilon_0);
+  return Math.max(0, fc_peak * (1 - decline));
+}
+
+/**
+ * Steel stress for a strain of either sign
+ * Elastic-perfectly plastic: fs = Es·εs ≤ fy
+ * Strain hardening: the yield plateau ends at εsh and the stress rises on a
+ * parabola to fu = 1.5·fy at εsu = 0.09, held beyond εsu
+ */
+export function calculateFiberSteelStress(
+  epsilon: number,
+  fy: number,
+  Es: number,
+  model: SteelModel
+): number {
+  const strain = Math.abs(epsilon);
+  if (strain * Es <= fy) return epsilon * Es;
+  if (model === 'elastic-plastic' || strain <= STRAIN_HARDENING_ONSET) {
+    return Math.sign(epsilon) * fy;
+  }
+  const fu = ULTIMATE_STRENGTH_RATIO * fy;
+  const remaining = (ULTIMATE_STEEL_STRAIN - Math.min(strain, ULTIMATE_STEEL_STRAIN))
+    / (ULTIMATE_STEEL_STRAIN - STRAIN_HARDENING_ONSET);
+  return Math.sign(epsilon) * (fu - (fu - fy) * remaining * remaining);
+}
+
+/**
+ * Divide the concrete section into horizontal fibers. Flanged sections are
+ * split at the underside of the flange so no fiber straddles the change in
+ * width; pass the effective flange width be.
+ */
+export function discretizeSection(input: BeamInput, bf_eff: number, count: number = FIBER_COUNT): Fiber[] {
+  const { b, h } = input;
+  const hf = input.sectionShape === 'rectangular' ? 0 : Math.min(input.hf, h);
+  const flangeCount = hf > 0 ? Math.max(1, Math.round((count * hf) / h)) : 0;
+  const webCount = Math.max(1, count - flangeCount);
+
+  const strips = (top: number, bottom: number, n: number, width: number): Fiber[] => {
+    const thickness = (bottom - top) / n;
+    return Array.from({ length: n }, (_, i) => ({
+      depth: top + (i + 0.5) * thickness,
+      area: width * thickness,
+    }));
+  };
+
+  return [...strips(0, hf, flangeCount, bf_eff), ...strips(hf, h, webCount, b)];
+}
+
+/**
+ * Internal forces for a strain profile with εc at the compression face and
+ * the neutral axis at depth c: ε(y) = εc·(c − y)/c. Bars in the compression
+ * zone displace the concrete stress at their depth.
+ */
+export function integrateSection(
+  input: BeamInput,
+  fibers: Fiber[],
+  Ec: number,
+  epsilon_c: number,
+  c: number
+): SectionForces {
+  const { fc, fy, Es, concreteModel, steelModel } = input;
+  const strainAt = (depth: number) => (epsilon_c * (c - depth)) / c;
+
+  let Cc = 0;
+  let concreteMoment = 0;
+  fibers.forEach(({ depth, area }) => {
+    const force = calculateConcreteStress(strainAt(depth), fc, Ec, concreteModel) * area;
+    Cc += force;
+    concreteMoment += force * depth;
+  });
+
+  let Cs = 0;
+  let T = 0;
+  let M = -concreteMoment;
+  [...input.compressionLayers, ...input.tensionLayers].forEach((layer) => {
+    const epsilon = strainAt(layer.depth);
+    const displaced = calculateConcreteStress(epsilon, fc, Ec, concreteModel);
+    const force = calculateLayerArea(layer) * (calculateFiberSteelStress(epsilon, fy, Es, steelModel) - displaced);
+    if (force >= 0) {
+      Cs += force;
+    } else {
+      T -= force;
+    }
+    M -= force * layer.depth;
+  });
+
+  return { Cc, yc: Cc > 0 ? concreteMoment / Cc : 0, Cs, T, P: Cc + Cs - T, M };
+}
+
+/**
+ * Solve the section for zero axial force at a given extreme fiber strain
+ *
+ * The neutral axis depth c is found by bisection: the net compression
+ * Cc + Cs − T increases with c for a fixed εc. Mn is the moment of the
+ * internal forces, which is the same about any point when they balance.
+ */
+export function analyzeFiberSection(
+  input: BeamInput,
+  bf_eff: number,
+  epsilon_c: number = input.extremeFiberStrain
+): FiberSectionResults {
+  const { fc, fy, Es, h, steelModel } = input;
+  const { dt } = summarizeReinforcement(input);
+  const Ec = calculateEc(fc, input.unitSystem);
+  const fibers = discretizeSection(input, bf_eff);
+
+  let cLow = 1e-6;
+  let cHigh = 10 * h;
+  for (let i = 0; i < 100; i++) {
+    const cMid = (cLow + cHigh) / 2;
+    if (integrateSection(input, fibers, Ec, epsilon_c, cMid).P > 0) {
+      cHigh = cMid;
+    } else {
+      cLow = cMid;
+    }
+    if (cHigh - cLow < 1e-9) break;
+  }
+
+  const c = (cLow + cHigh) / 2;
+  const forces = integrateSection(input, fibers, Ec, epsilon_c, c);
+  const epsilon_t = (epsilon_c * (dt - c)) / c;
+
+  // Concrete stress from the compression face to the neutral axis
+  const profileDepth = Math.min(c, h);
+  const stressProfile = Array.from({ length: PROFILE_POINTS }, (_, i) => {
+    const depth = (profileDepth * i) / (PROFILE_POINTS - 1);
+    return { depth, stress: calculateConcreteStress((epsilon_c * (c - depth)) / c, fc, Ec, input.concreteModel) };
+  });
+
+  return {
+    epsilon_c,
+    c,
+    fc_peak: calculatePeakStress(fc),
+    Cc: forces.Cc,
+    yc: forces.yc,
+    Cs: forces.Cs,
+    T: forces.T,
+    Mn: forces.M,
+    Mn_kip_ft: forces.M / 12000, // lb-in to kip-ft
+    epsilon_t,
+    fs: -calculateFiberSteelStress(-epsilon_t, fy, Es, steelModel),
+    stressProfile,
+    isConverged: Math.abs(forces.P) <= 1e-3 * Math.max(forces.T, 1),
+  };
+}
@@ -0,0 +1,102 @@
+import type { BeamInput, MomentCurvaturePoint, MomentCurvatureResults, ServiceResults } from '../types/beam';
+import { summarizeReinforcement } from './reinforcement';
+import { analyzeFiberSection } from './fiberAnalysis';
+
+/**
+ * Moment-Curvature Response
+ * The uncracked branch is linear up to the cracking moment of the gross
+ * section. Beyond cracking each point is a fiber-section solution (concrete
+ * in tension ignored) for an increasing extreme compression fiber strain,
+ * using the concrete and steel models of the refined analysis. Curvature is
+ * φ = εc / c. Strengths are nominal.
+ */
+
+// Compression strain steps from cracking to the end of the curve
+const CURVE_STEPS = 40;
+
+// The curve continues past crushing (εc = εcu) to show the post-peak branch
+const POST_PEAK_STRAIN_RATIO = 2;
+
+/**
+ * Point of the curve for a cracked section at extreme fiber strain εc
+ */
+function solvePoint(input: BeamInput, bf_eff: number, epsilon_c: number): MomentCurvaturePoint {
+  const { c, Mn_kip_ft, epsilon_t } = analyzeFiberSection(input, bf_eff, epsilon_c);
+  return { curvature: epsilon_c / c, M_kip_ft: Mn_kip_ft, epsilon_c, c, epsilon_t };
+}
+
+/**
+ * First yield of the extreme tension steel: bisection on εc for εt = εy.
+ * Returns null when the steel is still elastic when the concrete crushes.
+ */
+function solveFirstYield(
+  input: BeamInput,
+  bf_eff: number,
+  epsilon_cu: number
+): MomentCurvaturePoint | null {
+  const epsilon_y = input.fy / input.Es;
+  const crushing = solvePoint(input, bf_eff, epsilon_cu);
+  if (crushing.epsilon_t < epsilon_y) return null;
+
+  let low = 0;
+  let high = epsilon_cu;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (solvePoint(input, bf_eff, mid).epsilon_t < epsilon_y) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return solvePoint(input, bf_eff, high);
+}
+
+/**
+ * Moment-curvature curve and its key points
+ * @param epsilon_cu - concrete crushing strain that defines the ultimate point
+ */
+export function analyzeMomentCurvature(
+  input: BeamInput,
+  bf_eff: number,
+  service: ServiceResults,
+  epsilon_cu: number
+): MomentCurvatureResults {
+  const { dt } = summarizeReinforcement(input);
+
+  // Cracking of the gross section: φcr = Mcr / (Ec·Ig)
+  const curvature_cr = service.Mcr / (service.Ec * service.Ig);
+  const c_cr = input.h - service.yt;
+  const cracking: MomentCurvaturePoint = {
+    curvature: curvature_cr,
+    M_kip_ft: service.Mcr_kip_ft,
+    epsilon_c: curvature_cr * c_cr,
+    c: c_cr,
+    epsilon_t: curvature_cr * (dt - c_cr),
+  };
+
+  const firstYield = solveFirstYield(input, bf_eff, epsilon_cu);
+  const ultimate = solvePoint(input, bf_eff, epsilon_cu);
+
+  // Cracked points follow the cracking point; in a lightly reinforced section
+  // they lie below Mcr, as the moment drops when the section cracks
+  const maxStrain = POST_PEAK_STRAIN_RATIO * epsilon_cu;
+  const steps = Array.from({ length: CURVE_STEPS }, (_, i) => solvePoint(input, bf_eff, (maxStrain * (i + 1)) / CURVE_STEPS));
+  const cracked = [...steps, ultimate, ...(firstYield ? [firstYield] : [])]
+    .filter((point) => point.curvature > curvature_cr)
+    .sort((p, q) => p.curvature - q.curvature);
+
+  const origin: MomentCurvaturePoint = { curvature: 0, M_kip_ft: 0, epsilon_c: 0, c: c_cr, epsilon_t: 0 };
+  const curve = [origin, cracking, ...cracked];
+  const peak = curve.reduce((max, point) => (point.M_kip_ft > max.M_kip_ft ? point : max), curve[0]);
+  const isBelowCracking = cracked.every((point) => point.M_kip_ft < cracking.M_kip_ft);
+
+  return {
+    curve,
+    cracking,
+    firstYield,
+    ultimate,
+    peak,
+    isBelowCracking,
+    ductility: firstYield && !isBelowCracking ? ultimate.curvature / firstYield.curvature : null,
+  };
+}
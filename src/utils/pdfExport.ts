@@ -1,6 +1,14 @@
 import { jsPDF } from 'jspdf';
-import type { BeamInput, BeamResults } from '../types/beam';
-import { formatNumber } from './beamCalculations';
+import type { BarLayer, BeamInput, BeamResults, MomentCurvaturePoint, Revision, TitleBlock, UnitSystem } from '../types/beam';
+import { CONCRETE_MODEL_OPTIONS, DEFAULT_TITLE_BLOCK, REBAR_DIAMETERS, STEEL_MODEL_OPTIONS, SUPPORT_OPTIONS } from '../types/beam';
+import { formatCodeCheck, formatNumber, calculateCompressionZone, calculateEffectiveFlangeWidth, orientSection } from './beamCalculations';
+import { formatCodeName, getDesignCode } from './designCodes';
+import { describeLayers } from './reinforcement';
+import { SHEAR_CONSTANTS } from './shearCalculations';
+import { currentRevision, hasBranding, HEADER_REVISIONS, logoFormat, packageSheetNumber } from './titleBlock';
+import type { Quantity } from './units';
+import { formatBarSize, formatQuantity, formatValue, fromCustomary, toInputValue, unitLabel } from './units';
+import { isBeamAdequate } from './workspace';
 
 // PDF Configuration
 const PAGE_WIDTH = 215.9; // Letter size in mm
@@ -12,6 +20,10 @@ const MARGIN_BOTTOM = 28; // Space for footer
 const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_LEFT - MARGIN_RIGHT;
 const MAX_Y = PAGE_HEIGHT - MARGIN_BOTTOM; // Maximum Y position before footer
 
+// Rows per page of the package contents and summary schedule
+const CONTENTS_ROWS_PER_PAGE = 25;
+const SCHEDULE_ROWS_PER_PAGE = 26;
+
 // Colors
 const PRIMARY_COLOR: [number, number, number] = [26, 54, 93]; // Dark blue
 const ACCENT_COLOR: [number, number, number] = [66, 153, 225]; // Light blue
@@ -20,11 +32,26 @@ const WARNING_COLOR: [number, number, number] = [237, 137, 54]; // Orange
 const ERROR_COLOR: [number, number, number] = [229, 62, 62]; // Red
 const GRAY_COLOR: [number, number, number] = [113, 128, 150];
 
-interface PDFExportOptions {
+// Conversions for the intermediate values of SI equations
+const N_PER_LB = 4.4482216;
+const NMM_PER_LBIN = 112.98483;
+
+export interface PDFExportOptions {
   projectName?: string;
   projectNumber?: string;
   engineer?: string;
   date?: string;
+  titleBlock?: TitleBlock; // branding, QA names and revisions of the header
+}
+
+/**
+ * Beam of a calculation package; beams without results are listed in the
+ * schedule as incomplete and left out of the calculations
+ */
+export interface PDFBeam {
+  name: string;
+  input: BeamInput;
+  results: BeamResults | null;
 }
 
 /**
@@ -43,38 +70,154 @@ function checkPageBreak(doc: jsPDF, y: number, neededHeight: number): number {
 }
 
 /**
- * Generate a professional PDF calculation sheet
+ * Format a customary value with its unit in the sheet's unit system
  */
-export function generatePDF(
-  input: BeamInput,
-  results: BeamResults,
-  options: PDFExportOptions = {}
-): void {
+function sheetQuantity(input: BeamInput, value: number, quantity: Quantity, decimals: number): string {
+  return formatQuantity(value, quantity, input.unitSystem, decimals, true);
+}
+
+/**
+ * Format a customary value in the sheet's unit system without its unit,
+ * for the substituted values of an equation
+ */
+function sheetValue(input: BeamInput, value: number, quantity: Quantity, decimals: number): string {
+  return formatValue(value, quantity, input.unitSystem, decimals);
+}
+
+/**
+ * Format an input value as entered, e.g. '12' (in) or '304.8' (mm)
+ */
+function inputValue(input: BeamInput, value: number, quantity: Quantity): string {
+  return String(toInputValue(value, quantity, input.unitSystem));
+}
+
+/**
+ * Format an input value as entered, with its unit
+ */
+function inputQuantity(input: BeamInput, value: number, quantity: Quantity): string {
+  return `${inputValue(input, value, quantity)} ${unitLabel(quantity, input.unitSystem, true)}`;
+}
+
+/**
+ * Steel modulus without its unit, e.g. '29 x 10^6' (psi) or '199,948' (MPa)
+ */
+function formatEs(input: BeamInput): string {
+  return input.unitSystem === 'SI'
+    ? formatValue(input.Es, 'stress', 'SI', -2)
+    : `${(input.Es / 1000000).toFixed(0)} x 10^6`;
+}
+
+/**
+ * Force term of an equation: kips, or N to go with f'c in MPa and lengths in mm
+ */
+function formatForceTerm(force: number, units: UnitSystem, decimals: number): string {
+  return units === 'SI' ? formatNumber(force * N_PER_LB, 0) : formatNumber(force / 1000, decimals);
+}
+
+/**
+ * Nominal moment in the units of the substituted equation: lb-in or N-mm
+ */
+function formatInternalMoment(moment: number, units: UnitSystem): string {
+  return units === 'SI'
+    ? `${formatNumber((moment * NMM_PER_LBIN) / 1000000, 1)} x 10^6 N-mm`
+    : `${formatNumber(moment, 0)} lb-in`;
+}
+
+/**
+ * Design code equations in the PDF fonts: Greek letters and symbols are
+ * spelled out, e.g. "ρmin = 0.2√f'c·h" becomes "rho_min = 0.2 x sqrt(f'c) x h"
+ */
+function sheetText(text: string): string {
+  return text
+    .replace(/(\d)√/g, '$1 x √')
+    .replace(/√([\w']+)/g, 'sqrt($1)')
+    .replace(/·/g, ' x ')
+    .replace(/≤/g, '<=')
+    .replace(/≥/g, '>=')
+    .replace(/φ/g, 'phi_')
+    .replace(/γ/g, 'gamma_')
+    .replace(/ρ/g, 'rho_')
+    .replace(/α/g, 'a')
+    .replace(/β/g, 'B')
+    .replace(/η/g, 'eta')
+    .replace(/λ/g, 'lambda')
+    .replace(/ε/g, 'e');
+}
+
+/**
+ * Strain limit for the sheet without trailing zeros, e.g. '0.005' or '0.00207'
+ */
+function formatStrain(strain: number): string {
+  return String(Number(strain.toFixed(5)));
+}
+
+/**
+ * Stress block and strength terms of the flexure equations. Codes that factor
+ * the materials substitute the factored strengths, e.g. phi_c x f'c.
+ */
+function flexureTerms(input: BeamInput, results: BeamResults) {
+  const { symbols } = getDesignCode(results.designCode);
+  const fy = sheetText(symbols.fy);
+  return {
+    alpha: sheetText(symbols.alpha1),
+    fc: sheetText(symbols.fc),
+    fy,
+    fyDivisor: fy.includes(' ') ? `(${fy})` : fy,
+    alphaValue: String(Number(results.alpha1.toFixed(3))),
+    fcValue: sheetValue(input, input.fc * results.phi_c, 'stress', 0),
+    fyValue: sheetValue(input, input.fy * results.phi_s, 'stress', 0),
+  };
+}
+
+/**
+ * New letter-size calculation document
+ */
+export function createCalculationDocument(): jsPDF {
   const doc = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
     format: 'letter',
   });
 
-  let y = MARGIN_TOP;
-
   // Set default font
   doc.setFont('helvetica');
+  return doc;
+}
+
+/**
+ * Draw the full calculation of one beam, starting at the top of the current
+ * page and adding pages as needed. Page footers are drawn once the document
+ * is complete, so beams can be appended to a document in turn.
+ * @param beamName - beam mark shown in the header, if any
+ */
+export function appendBeamCalculation(
+  doc: jsPDF,
+  input: BeamInput,
+  results: BeamResults,
+  options: PDFExportOptions = {},
+  beamName?: string
+): void {
+  let y = MARGIN_TOP;
 
   // === HEADER ===
-  y = drawHeader(doc, y, options);
+  y = drawHeader(doc, y, input, options, beamName);
 
   // === INPUT PARAMETERS ===
   y = drawSectionTitle(doc, y, 'INPUT PARAMETERS');
-  y = drawInputParameters(doc, y, input);
+  y = drawInputParameters(doc, y, input, results);
 
   // === MATERIAL PROPERTIES ===
+  // Check if we need a new page before this section (needs ~70mm)
+  if (y > MAX_Y - 70) {
+    doc.addPage();
+    y = MARGIN_TOP;
+  }
   y = drawSectionTitle(doc, y, 'MATERIAL PROPERTIES');
   y = drawMaterialProperties(doc, y, input, results);
 
   // === FLEXURAL ANALYSIS ===
-  // Check if we need a new page before this section (needs ~100mm)
-  if (y > MAX_Y - 100) {
+  // Check if we need a new page before this section (needs ~115mm with the figure)
+  if (y > MAX_Y - 115) {
     doc.addPage();
     y = MARGIN_TOP;
   }
@@ -82,8 +225,8 @@ export function generatePDF(
   y = drawFlexuralAnalysis(doc, y, input, results);
 
   // === STRAIN COMPATIBILITY ===
-  // Check if we need a new page before this section (needs ~90mm)
-  if (y > MAX_Y - 90) {
+  // Check if we need a new page before this section (needs ~105mm with the figure)
+  if (y > MAX_Y - 105) {
     doc.addPage();
     y = MARGIN_TOP;
   }
@@ -99,6 +242,75 @@ export function generatePDF(
   y = drawSectionTitle(doc, y, 'REINFORCEMENT LIMITS CHECK');
   y = drawReinforcementLimits(doc, y, input, results);
 
+  // === CRACK CONTROL ===
+  // Check if we need a new page before this section (needs ~45mm)
+  if (y > MAX_Y - 45) {
+    doc.addPage();
+    y = MARGIN_TOP;
+  }
+  y = drawSectionTitle(doc, y, 'CRACK CONTROL');
+  y = drawCrackControl(doc, y, input, results);
+
+  // === SERVICE PROPERTIES ===
+  // Check if we need a new page before this section (needs ~75mm)
+  if (y > MAX_Y - 75) {
+    doc.addPage();
+    y = MARGIN_TOP;
+  }
+  y = drawSectionTitle(doc, y, 'SERVICE PROPERTIES');
+  y = drawServiceProperties(doc, y, input, results);
+
+  // === MINIMUM THICKNESS ===
+  if (results.minimumThickness.hasSpan) {
+    // Check if we need a new page before this section (needs ~40mm)
+    if (y > MAX_Y - 40) {
+      doc.addPage();
+      y = MARGIN_TOP;
+    }
+    y = drawSectionTitle(doc, y, 'MINIMUM THICKNESS');
+    y = drawMinimumThickness(doc, y, input, results);
+  }
+
+  // === DEFLECTION ===
+  if (results.deflection.hasLoads) {
+    // Check if we need a new page before this section (needs ~80mm)
+    if (y > MAX_Y - 80) {
+      doc.addPage();
+      y = MARGIN_TOP;
+    }
+    y = drawSectionTitle(doc, y, 'DEFLECTION');
+    y = drawDeflection(doc, y, input, results);
+  }
+
+  // === MOMENT-CURVATURE ===
+  // Check if we need a new page before this section (needs ~75mm)
+  if (y > MAX_Y - 75) {
+    doc.addPage();
+    y = MARGIN_TOP;
+  }
+  y = drawSectionTitle(doc, y, 'MOMENT-CURVATURE RESPONSE');
+  y = drawMomentCurvature(doc, y, input, results);
+
+  // === AXIAL LOAD-MOMENT INTERACTION ===
+  if (results.interaction) {
+    // Check if we need a new page before this section (needs ~75mm)
+    if (y > MAX_Y - 75) {
+      doc.addPage();
+      y = MARGIN_TOP;
+    }
+    y = drawSectionTitle(doc, y, 'AXIAL LOAD-MOMENT INTERACTION');
+    y = drawInteraction(doc, y, input, results);
+  }
+
+  // === SHEAR DESIGN ===
+  // Check if we need a new page before this section (needs ~110mm)
+  if (y > MAX_Y - 110) {
+    doc.addPage();
+    y = MARGIN_TOP;
+  }
+  y = drawSectionTitle(doc, y, 'SHEAR DESIGN');
+  y = drawShearAnalysis(doc, y, input, results);
+
   // === SUMMARY ===
   // Check if we need a new page before this section (needs ~60mm)
   if (y > MAX_Y - 60) {
@@ -106,30 +318,125 @@ export function generatePDF(
     y = MARGIN_TOP;
   }
   y = drawSectionTitle(doc, y, 'DESIGN SUMMARY');
-  y = drawSummary(doc, y, results);
+  drawSummary(doc, y, input, results);
+}
+
+/**
+ * File name of a calculation sheet, or of a package of beams
+ */
+export function pdfFileName(options: PDFExportOptions, isPackage: boolean = false): string {
+  const base = isPackage ? 'Beam_Calc_Package' : 'Beam_Calc';
+  return options.projectNumber
+    ? `${base}_${options.projectNumber}.pdf`
+    : isPackage ? 'Beam_Calculation_Package.pdf' : 'Beam_Section_Calculation.pdf';
+}
+
+/**
+ * Download a generated PDF
+ */
+export function downloadPDF(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking at once can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Generate a professional PDF calculation sheet for one beam
+ */
+export function generatePDF(
+  input: BeamInput,
+  results: BeamResults,
+  options: PDFExportOptions = {},
+  beamName?: string
+): Blob {
+  const doc = createCalculationDocument();
+  appendBeamCalculation(doc, input, results, options, beamName);
 
   // === FOOTER ===
-  drawFooter(doc);
+  const reference = codeReference(input);
+  drawFooter(doc, () => reference);
 
-  // Save the PDF
-  const filename = options.projectNumber
-    ? `Beam_Calc_${options.projectNumber}.pdf`
-    : 'Beam_Section_Calculation.pdf';
-  doc.save(filename);
+  return doc.output('blob');
 }
 
+/**
+ * Generate a calculation package for a set of beams: a cover sheet, a table
+ * of contents, a summary schedule and the full calculation of each beam,
+ * numbered continuously
+ */
+export function generatePackagePDF(beams: PDFBeam[], options: PDFExportOptions = {}): Blob {
+  const doc = createCalculationDocument();
+  const included = beams.filter((beam): beam is PDFBeam & { results: BeamResults } => beam.results !== null);
+
+  drawCoverSheet(doc, beams, options);
+
+  // Reserve the contents and schedule pages; they are filled in once the
+  // page of each beam is known
+  const contentsPage = doc.getNumberOfPages() + 1;
+  const schedulePage = contentsPage + Math.ceil((included.length + 1) / CONTENTS_ROWS_PER_PAGE);
+  const beamsPage = schedulePage + Math.max(1, Math.ceil(beams.length / SCHEDULE_ROWS_PER_PAGE));
+  while (doc.getNumberOfPages() < beamsPage - 1) {
+    doc.addPage();
+  }
+
+  // Each beam starts on a new page, with its own sheet number in the header
+  // and its own code in the page footers
+  const startPages = new Map<PDFBeam, number>();
+  const references = new Map<number, string>();
+  const titleBlock = options.titleBlock ?? DEFAULT_TITLE_BLOCK;
+  included.forEach((beam, index) => {
+    doc.addPage();
+    const startPage = doc.getNumberOfPages();
+    startPages.set(beam, startPage);
+    const sheetNumber = packageSheetNumber(titleBlock.sheetNumber, index);
+    appendBeamCalculation(doc, beam.input, beam.results, { ...options, titleBlock: { ...titleBlock, sheetNumber } }, beam.name);
+    for (let page = startPage; page <= doc.getNumberOfPages(); page++) {
+      references.set(page, codeReference(beam.input));
+    }
+  });
+
+  drawContents(doc, contentsPage, [
+    { title: 'Beam Schedule Summary', page: schedulePage },
+    ...included.map((beam) => ({
+      title: `Beam ${sheetText(beam.name)} - Flexural Strength Calculation`,
+      page: startPages.get(beam)!,
+    })),
+  ]);
+  drawSummarySchedule(doc, schedulePage, beams.map((beam) => ({ ...beam, page: startPages.get(beam) ?? null })));
+
+  // Front pages refer to the code used, or list the codes when beams differ
+  const frontReferences = Array.from(new Set(included.map(({ input }) => codeReference(input))));
+  const frontReference = frontReferences.length > 1
+    ? Array.from(new Set(included.map(({ input }) => formatCodeName(getDesignCode(input.designCode), input.unitSystem)))).join(', ')
+    : frontReferences[0] ?? '';
+  drawFooter(doc, (page) => references.get(page) ?? frontReference);
+
+  return doc.output('blob');
+}
 function drawHeader(
   doc: jsPDF,
   y: number,
-  options: PDFExportOptions
+  input: BeamInput,
+  options: PDFExportOptions,
+  beamName?: string
 ): number {
   const {
     projectName = 'Reinforced Concrete Beam Design',
     projectNumber = '',
     engineer = '',
     date = new Date().toLocaleDateString(),
+    titleBlock = DEFAULT_TITLE_BLOCK,
   } = options;
 
+  // Branding row: logo and company, sheet and current revision
+  if (hasBranding(titleBlock)) {
+    y = drawBranding(doc, y, titleBlock);
+  }
+
   // Title box
   doc.setFillColor(...PRIMARY_COLOR);
   doc.rect(MARGIN_LEFT, y, CONTENT_WIDTH, 18, 'F');
@@ -143,34 +450,124 @@ function drawHeader(
 
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text('Per ACI 318-19', PAGE_WIDTH / 2, y + 14, { align: 'center' });
+  const codeLine = `Per ${formatCodeName(getDesignCode(input.designCode), input.unitSystem)}`;
+  doc.text(beamName ? `Beam ${sheetText(beamName)} - ${codeLine}` : codeLine, PAGE_WIDTH / 2, y + 14, { align: 'center' });
 
   y += 22;
 
   // Project info box
   doc.setFillColor(247, 250, 252);
   doc.setDrawColor(...GRAY_COLOR);
-  doc.rect(MARGIN_LEFT, y, CONTENT_WIDTH, 20, 'FD');
+  doc.rect(MARGIN_LEFT, y, CONTENT_WIDTH, 26, 'FD');
 
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(9);
-  doc.setFont('helvetica', 'bold');
 
   const col1 = MARGIN_LEFT + 5;
   const col2 = MARGIN_LEFT + CONTENT_WIDTH / 2;
+  const fields = [
+    ['Project:', projectName, 'Project No.:', projectNumber || 'N/A'],
+    ['Client:', titleBlock.client || 'N/A', 'Date:', date],
+    ['Engineer:', engineer || 'N/A', 'Checker:', titleBlock.checker || 'N/A'],
+  ];
+  fields.forEach(([label1, value1, label2, value2], index) => {
+    const rowY = y + 6 + index * 7.5;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label1, col1, rowY);
+    doc.text(label2, col2, rowY);
+    doc.setFont('helvetica', 'normal');
+    doc.text(sheetText(value1), col1 + 22, rowY);
+    doc.text(sheetText(value2), col2 + 25, rowY);
+  });
+
+  y += 30;
+
+  // Revision table
+  if (titleBlock.revisions.length > 0) {
+    y = drawRevisionTable(doc, y, titleBlock.revisions);
+  }
+
+  return y + 2;
+}
+
+/**
+ * Company logo and name on the left, sheet number and current revision on
+ * the right
+ * @returns Y position below the row
+ */
+function drawBranding(doc: jsPDF, y: number, titleBlock: TitleBlock): number {
+  const rowHeight = 12;
+  let textX = MARGIN_LEFT;
+
+  if (titleBlock.logo) {
+    try {
+      // Fit the logo in the row, keeping its proportions
+      const { width, height } = doc.getImageProperties(titleBlock.logo);
+      const scale = Math.min(40 / width, rowHeight / height);
+      doc.addImage(titleBlock.logo, logoFormat(titleBlock.logo), MARGIN_LEFT, y, width * scale, height * scale);
+      textX += width * scale + 4;
+    } catch (error) {
+      console.error('Error adding the logo to the PDF:', error);
+    }
+  }
+
+  doc.setTextColor(...PRIMARY_COLOR);
+  if (titleBlock.companyName) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(sheetText(titleBlock.companyName), textX, y + rowHeight / 2 + 1.5);
+  }
+
+  const right = MARGIN_LEFT + CONTENT_WIDTH;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Sheet:', right - 20, y + 4.5, { align: 'right' });
+  doc.text('Rev:', right - 20, y + 9.5, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.text(sheetText(titleBlock.sheetNumber) || '-', right - 18, y + 4.5);
+  doc.text(sheetText(currentRevision(titleBlock)), right - 18, y + 9.5);
+
+  return y + rowHeight + 3;
+}
+
+/**
+ * Table of the latest revisions: mark, date, description and author
+ * @returns Y position below the table
+ */
+function drawRevisionTable(doc: jsPDF, y: number, revisions: Revision[]): number {
+  const columns = {
+    rev: MARGIN_LEFT + 3,
+    date: MARGIN_LEFT + 18,
+    description: MARGIN_LEFT + 48,
+    by: MARGIN_LEFT + CONTENT_WIDTH - 25,
+  };
+  const shown = revisions.slice(-HEADER_REVISIONS);
+  const rowHeight = 5;
 
-  doc.text('Project:', col1, y + 6);
-  doc.text('Project No.:', col2, y + 6);
-  doc.text('Engineer:', col1, y + 14);
-  doc.text('Date:', col2, y + 14);
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setFillColor(237, 242, 247);
+  doc.rect(MARGIN_LEFT, y, CONTENT_WIDTH, rowHeight, 'FD');
+  doc.rect(MARGIN_LEFT, y + rowHeight, CONTENT_WIDTH, shown.length * rowHeight, 'S');
+
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Rev', columns.rev, y + 3.6);
+  doc.text('Date', columns.date, y + 3.6);
+  doc.text('Description', columns.description, y + 3.6);
+  doc.text('By', columns.by, y + 3.6);
 
   doc.setFont('helvetica', 'normal');
-  doc.text(projectName, col1 + 18, y + 6);
-  doc.text(projectNumber || 'N/A', col2 + 25, y + 6);
-  doc.text(engineer || 'N/A', col1 + 22, y + 14);
-  doc.text(date, col2 + 13, y + 14);
+  shown.forEach((revision, index) => {
+    const rowY = y + (index + 1) * rowHeight + 3.6;
+    const description: string[] = doc.splitTextToSize(sheetText(revision.description), columns.by - columns.description - 3);
+    doc.text(sheetText(revision.rev), columns.rev, rowY);
+    doc.text(sheetText(revision.date), columns.date, rowY);
+    doc.text(description.length > 1 ? `${description[0]}...` : description[0] ?? '', columns.description, rowY);
+    doc.text(sheetText(revision.by), columns.by, rowY);
+  });
 
-  return y + 28;
+  return y + (shown.length + 1) * rowHeight + 4;
 }
 
 function drawSectionTitle(doc: jsPDF, y: number, title: string): number {
@@ -185,112 +582,557 @@ function drawSectionTitle(doc: jsPDF, y: number, title: string): number {
   return y + 12;
 }
 
-function drawInputParameters(doc: jsPDF, y: number, input: BeamInput): number {
-  doc.setTextColor(...PRIMARY_COLOR);
-  doc.setFontSize(10);
+/**
+ * Draw a closed polygon from absolute points
+ */
+function drawPolygon(doc: jsPDF, points: number[][], style: 'S' | 'F' | 'FD'): void {
+  const [x0, y0] = points[0];
+  const segments = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+  doc.lines(segments, x0, y0, [1, 1], style, true);
+}
 
-  // Geometry subsection
-  doc.setFont('helvetica', 'bold');
-  doc.text('Section Geometry:', MARGIN_LEFT, y);
-  y += 6;
+/**
+ * Draw an open polyline through absolute points
+ */
+function drawPolyline(doc: jsPDF, points: number[][]): void {
+  const [x0, y0] = points[0];
+  const segments = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+  doc.lines(segments, x0, y0, [1, 1], 'S', false);
+}
 
-  doc.setFont('helvetica', 'normal');
-  const params = [
-    ['Beam Width, b', `${input.b} in`],
-    ['Total Height, h', `${input.h} in`],
-    ['Effective Depth, d', `${input.d} in`],
-  ];
+/**
+ * Extent of a drawn section, in page coordinates
+ */
+interface SectionSketch {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  webLeft: number;
+  webRight: number;
+  scale: number; // mm on the page per inch
+}
 
-  params.forEach(([label, value]) => {
-    doc.text(`${label}:`, MARGIN_LEFT + 5, y);
-    doc.text(value, MARGIN_LEFT + 55, y);
-    y += 5;
-  });
+/**
+ * Draw a to-scale cross-section sketch with the stress block shaded
+ * (at the bottom of the web in negative bending)
+ * @param showLabels - label a and be beside the sketch
+ */
+function drawSectionSketch(
+  doc: jsPDF,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxHeight: number,
+  input: BeamInput,
+  results: BeamResults,
+  showLabels: boolean = true
+): SectionSketch {
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const bf_eff = calculateEffectiveFlangeWidth(
+    input.sectionShape, input.b, input.bf, input.hf, input.spanLength, input.webClearSpacing
+  );
+  const totalWidth = Math.max(bf_eff, input.b);
+  const scale = Math.min(maxWidth / totalWidth, maxHeight / input.h);
 
-  if (input.As_prime > 0) {
-    doc.text("Compression Steel Depth, d':", MARGIN_LEFT + 5, y);
-    doc.text(`${input.d_prime} in`, MARGIN_LEFT + 55, y);
-    y += 5;
-  }
+  const W = totalWidth * scale;
+  const H = input.h * scale;
+  const hf = isFlanged ? input.hf * scale : 0;
+  const bw = input.b * scale;
+  const webX = input.sectionShape === 'T' ? x + (W - bw) / 2 : x;
 
-  y += 3;
+  const outline = isFlanged
+    ? [[x, y], [x + W, y], [x + W, y + hf], [webX + bw, y + hf], [webX + bw, y + H], [webX, y + H], [webX, y + hf], [x, y + hf]]
+    : [[x, y], [x + W, y], [x + W, y + H], [x, y + H]];
 
-  // Reinforcement subsection
-  doc.setFont('helvetica', 'bold');
-  doc.text('Reinforcement:', MARGIN_LEFT, y);
-  y += 6;
+  doc.setFillColor(237, 242, 247);
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  drawPolygon(doc, outline, 'FD');
+
+  // Stress block follows the section shape below the flange
+  const a = Math.min(results.a * scale, H);
+  const block = results.isNegativeMoment
+    ? [[webX, y + H - a], [webX + bw, y + H - a], [webX + bw, y + H], [webX, y + H]]
+    : isFlanged && a > hf
+    ? [[x, y], [x + W, y], [x + W, y + hf], [webX + bw, y + hf], [webX + bw, y + a], [webX, y + a], [webX, y + hf], [x, y + hf]]
+    : [[x, y], [x + W, y], [x + W, y + a], [x, y + a]];
+
+  doc.setFillColor(254, 178, 178);
+  doc.setDrawColor(...ERROR_COLOR);
+  drawPolygon(doc, block, 'FD');
+
+  // Reinforcing bars, spaced evenly inside the stirrups
+  doc.setFillColor(...PRIMARY_COLOR);
+  const stirrupDiameter = REBAR_DIAMETERS[input.stirrupBar] ?? 0;
+  [...input.tensionLayers, ...input.compressionLayers].forEach((layer) => {
+    const db = REBAR_DIAMETERS[layer.barSize] ?? 0;
+    const edge = (input.clearCover + stirrupDiameter + db / 2) * scale;
+    const spacing = layer.count > 1 ? (bw - 2 * edge) / (layer.count - 1) : 0;
+    for (let i = 0; i < layer.count; i++) {
+      const bx = layer.count > 1 ? webX + edge + i * spacing : webX + bw / 2;
+      doc.circle(bx, y + layer.depth * scale, Math.max(0.5, (db / 2) * scale), 'F');
+    }
+  });
 
-  doc.setFont('helvetica', 'normal');
-  doc.text('Tension Steel Area, As:', MARGIN_LEFT + 5, y);
-  doc.text(`${input.As} sq.in.`, MARGIN_LEFT + 55, y);
-  y += 5;
+  // Slab bars within be, tension steel in negative bending
+  if (results.slabBarCount > 0) {
+    const overhangs = input.sectionShape === 'T'
+      ? [[x, webX, Math.ceil(results.slabBarCount / 2)], [webX + bw, x + W, Math.floor(results.slabBarCount / 2)]]
+      : [[webX + bw, x + W, results.slabBarCount]];
+    overhangs.forEach(([x1, x2, count]) => {
+      for (let i = 0; i < count; i++) {
+        doc.circle(x1 + ((i + 0.5) * (x2 - x1)) / count, y + input.slabDepth * scale, 0.4, 'F');
+      }
+    });
+  }
 
-  if (input.As_prime > 0) {
-    doc.text("Compression Steel Area, A's:", MARGIN_LEFT + 5, y);
-    doc.text(`${input.As_prime} sq.in.`, MARGIN_LEFT + 55, y);
-    y += 5;
+  if (showLabels) {
+    doc.setTextColor(...GRAY_COLOR);
+    doc.setFontSize(7);
+    doc.text(`a = ${sheetQuantity(input, results.a, 'length', 2)}`, x + W + 2, results.isNegativeMoment ? y + H - a + 2 : y + a);
+    if (isFlanged) {
+      doc.text(`be = ${sheetQuantity(input, bf_eff, 'length', 1)}`, x + W / 2, y - 1.5, { align: 'center' });
+    }
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFontSize(10);
   }
 
-  return y + 5;
+  return { left: x, right: x + W, top: y, bottom: y + H, webLeft: webX, webRight: webX + bw, scale };
 }
 
-function drawMaterialProperties(
-  doc: jsPDF,
-  y: number,
-  input: BeamInput,
-  results: BeamResults
-): number {
-  doc.setTextColor(...PRIMARY_COLOR);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-
-  // Material properties table
-  const props = [
-    ["Concrete Strength, f'c:", `${input.fc.toLocaleString()} psi`, ''],
-    ['Steel Yield Strength, fy:', `${input.fy.toLocaleString()} psi`, ''],
-    ['Steel Modulus, Es:', `${(input.Es / 1000000).toFixed(0)} x 10^6 psi`, ''],
-    ['Ultimate Concrete Strain, ecu:', '0.003', 'ACI 318-19 Sec. 22.2.2.1'],
-  ];
+// Height of the section and strain figures in the analysis sections
+const FIGURE_HEIGHT = 55;
 
-  props.forEach(([label, value, ref]) => {
-    doc.text(label, MARGIN_LEFT, y);
-    doc.text(value, MARGIN_LEFT + 70, y);
-    if (ref) {
-      doc.setTextColor(...GRAY_COLOR);
-      doc.setFontSize(8);
-      doc.text(ref, MARGIN_LEFT + 115, y);
-      doc.setTextColor(...PRIMARY_COLOR);
-      doc.setFontSize(10);
+/**
+ * Dimension line with end ticks; the label sits above a horizontal line
+ * and beside a vertical one
+ */
+function drawDimension(
+  doc: jsPDF,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  label: string,
+  labelSide: 'left' | 'right' | 'above' | 'below'
+): void {
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.2);
+  doc.line(x1, y1, x2, y2);
+  const isHorizontal = y1 === y2;
+  [[x1, y1], [x2, y2]].forEach(([x, y]) => {
+    if (isHorizontal) {
+      doc.line(x, y - 1.2, x, y + 1.2);
+    } else {
+      doc.line(x - 1.2, y, x + 1.2, y);
     }
-    y += 6;
   });
 
-  // Beta1 calculation
-  y += 3;
-  doc.setFont('helvetica', 'bold');
-  doc.text('Stress Block Factor, B1:', MARGIN_LEFT, y);
-  doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
-  doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 22.2.2.4.3', MARGIN_LEFT + 50, y);
+  doc.setFontSize(7);
+  const midX = (x1 + x2) / 2;
+  const midY = (y1 + y2) / 2;
+  if (labelSide === 'above') doc.text(label, midX, midY - 1.5, { align: 'center' });
+  if (labelSide === 'below') doc.text(label, midX, midY + 3.5, { align: 'center' });
+  if (labelSide === 'left') doc.text(label, midX - 1.5, midY + 1, { align: 'right' });
+  if (labelSide === 'right') doc.text(label, midX + 1.5, midY + 1);
+}
+
+/**
+ * Horizontal force arrow with its head at (tipX, y)
+ * @param labelY - height of the label when it must clear another arrow
+ */
+function drawForceArrow(doc: jsPDF, tailX: number, tipX: number, y: number, label: string, labelY: number = y): void {
+  const direction = Math.sign(tipX - tailX);
+  doc.setLineWidth(0.4);
+  doc.line(tailX, y, tipX, y);
+  drawPolygon(doc, [[tipX, y], [tipX - direction * 2, y - 1], [tipX - direction * 2, y + 1]], 'F');
+  doc.setFontSize(7);
+  doc.text(label, Math.max(tailX, tipX) + 1.5, labelY + 1);
+}
+
+/**
+ * Concrete, compression steel and tension steel forces of the strength
+ * analysis, with the depth of each from the compression face
+ */
+function internalForces(input: BeamInput, results: BeamResults) {
+  const hf = results.isFlanged ? input.hf : 0;
+  const zone = calculateCompressionZone(results.a, input.b, results.bf_eff, hf);
+  const Cc = results.alpha1 * input.fc * results.phi_c * zone.area;
+  return { Cc, yc: zone.centroid, Cs: results.isDoublyReinforced ? results.Cs : 0, T: Cc + (results.isDoublyReinforced ? results.Cs : 0) };
+}
+
+/**
+ * To-scale cross-section with its dimensions, bars, stress block and neutral
+ * axis, beside the equivalent stress block and the internal forces
+ */
+function drawSectionFigure(doc: jsPDF, y: number, input: BeamInput, results: BeamResults): number {
+  y = checkPageBreak(doc, y, FIGURE_HEIGHT + 22);
+  const { alpha, fc } = flexureTerms(input, results);
+  const { Cc, yc, Cs, T } = internalForces(input, results);
+  const force = (value: number) => sheetQuantity(input, value / 1000, 'force', 1);
+
   doc.setTextColor(...PRIMARY_COLOR);
-  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('Figure: Cross-Section, Equivalent Stress Block and Internal Forces', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
   y += 8;
 
-  // Beta1 equation box
-  doc.setFillColor(250, 250, 250);
-  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 20, 'F');
-
-  if (input.fc <= 4000) {
-    doc.text("For f'c <= 4000 psi:", MARGIN_LEFT + 10, y + 4);
-    doc.text("B1 = 0.85", MARGIN_LEFT + 10, y + 11);
-  } else {
-    doc.text("For f'c > 4000 psi:", MARGIN_LEFT + 10, y + 4);
-    doc.text("B1 = 0.85 - 0.05 x (f'c - 4000) / 1000, but not less than 0.65", MARGIN_LEFT + 10, y + 11);
+  const sketch = drawSectionSketch(doc, MARGIN_LEFT + 18, y, 50, FIGURE_HEIGHT, input, results, false);
+  const { left, right, top, bottom, webLeft, webRight, scale } = sketch;
+
+  // Depth from the compression face, which is the bottom in negative bending
+  const at = (depth: number) => (results.isNegativeMoment ? bottom - depth * scale : top + depth * scale);
+
+  // Neutral axis
+  doc.setDrawColor(...ERROR_COLOR);
+  doc.setLineWidth(0.3);
+  doc.setLineDashPattern([1.5, 1], 0);
+  doc.line(left - 3, at(results.c), right + 3, at(results.c));
+  doc.setLineDashPattern([], 0);
+  doc.setTextColor(...ERROR_COLOR);
+  doc.setFontSize(7);
+  doc.text('N.A.', left - 4, at(results.c) + 1, { align: 'right' });
+
+  // Overall dimensions
+  drawDimension(doc, left - 10, top, left - 10, bottom, `h = ${inputQuantity(input, input.h, 'length')}`, 'left');
+  drawDimension(doc, webLeft, bottom + 4, webRight, bottom + 4, `${input.sectionShape !== 'rectangular' ? 'bw' : 'b'} = ${inputQuantity(input, input.b, 'length')}`, 'below');
+  if (input.sectionShape !== 'rectangular') {
+    drawDimension(doc, left, top - 3, right, top - 3, `be = ${sheetQuantity(input, calculateEffectiveFlangeWidth(
+      input.sectionShape, input.b, input.bf, input.hf, input.spanLength, input.webClearSpacing
+    ), 'length', 1)}`, 'above');
   }
 
-  doc.setFont('helvetica', 'bold');
-  doc.text(`B1 = ${formatNumber(results.beta1, 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 40, y + 7);
+  // Depths from the compression face
+  const dimensionX = right + 6;
+  drawDimension(doc, dimensionX, at(0), dimensionX, at(results.c), `c = ${sheetQuantity(input, results.c, 'length', 2)}`, 'right');
+  drawDimension(doc, dimensionX + 22, at(0), dimensionX + 22, at(results.d), `d = ${sheetQuantity(input, results.d, 'length', 2)}`, 'right');
+
+  // Stress block and forces, on the same vertical scale
+  const blockX = MARGIN_LEFT + 125;
+  const blockWidth = 14;
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  doc.line(blockX, top, blockX, bottom);
+  doc.setFillColor(254, 178, 178);
+  doc.setDrawColor(...ERROR_COLOR);
+  doc.rect(blockX, Math.min(at(0), at(results.a)), blockWidth, results.a * scale, 'FD');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(7);
+  doc.text(`${alpha} x ${fc}`, blockX + blockWidth / 2, results.isNegativeMoment ? at(0) + 3.5 : at(0) - 1.5, { align: 'center' });
+  drawDimension(doc, blockX - 4, at(0), blockX - 4, at(results.a), `a = ${sheetQuantity(input, results.a, 'length', 2)}`, 'left');
+
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFillColor(...PRIMARY_COLOR);
+  doc.setDrawColor(...PRIMARY_COLOR);
+  drawForceArrow(doc, blockX + blockWidth + 12, blockX + blockWidth, at(yc), `Cc = ${force(Cc)}`);
+  if (Cs > 0) {
+    // Keep the label clear of Cc when the two forces act at nearly the same depth
+    const gap = at(results.d_prime) - at(yc);
+    const labelY = Math.abs(gap) < 3.5 ? at(yc) + (gap < 0 ? -3.5 : 3.5) : at(results.d_prime);
+    drawForceArrow(doc, blockX + blockWidth + 12, blockX + blockWidth, at(results.d_prime), `Cs = ${force(Cs)}`, labelY);
+  }
+  drawForceArrow(doc, blockX, blockX + blockWidth + 12, at(results.d), `T = ${force(T)}`);
+
+  // Lever arm of the concrete force
+  drawDimension(
+    doc, blockX + 5, at(yc), blockX + 5, at(results.d),
+    `d - y = ${sheetQuantity(input, results.d - yc, 'length', 2)}`, 'right'
+  );
+
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  return bottom + 14;
+}
+
+/**
+ * Side view of the section with the bar layers beside the linear strain
+ * profile: ecu at the compression face, zero at the neutral axis and et at
+ * the extreme tension steel, with the yield strain marked
+ */
+function drawStrainFigure(doc: jsPDF, y: number, input: BeamInput, results: BeamResults): number {
+  y = checkPageBreak(doc, y, FIGURE_HEIGHT + 18);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('Figure: Strain Distribution at Nominal Strength', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  const top = y;
+  const scale = FIGURE_HEIGHT / input.h;
+  const bottom = top + FIGURE_HEIGHT;
+  const at = (depth: number) => (results.isNegativeMoment ? bottom - depth * scale : top + depth * scale);
+  const strain = (depth: number) => (results.epsilon_cu * (results.c - depth)) / results.c;
+
+  // Side view with the bar layers (layer depths are from the top face)
+  const sideX = MARGIN_LEFT + 22;
+  const sideWidth = 10;
+  doc.setFillColor(237, 242, 247);
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  doc.rect(sideX, top, sideWidth, FIGURE_HEIGHT, 'FD');
+  doc.setFillColor(...PRIMARY_COLOR);
+  [...input.tensionLayers, ...input.compressionLayers].forEach((layer) => {
+    if (layer.count > 0) doc.circle(sideX + sideWidth / 2, top + layer.depth * scale, 0.9, 'F');
+  });
+  if (results.slabBarCount > 0) {
+    doc.circle(sideX + sideWidth / 2, top + input.slabDepth * scale, 0.6, 'F');
+  }
+  drawDimension(doc, sideX - 5, top, sideX - 5, bottom, `h = ${inputQuantity(input, input.h, 'length')}`, 'left');
+
+  // Strain profile about a zero line; compression plots left, tension right
+  const zeroX = MARGIN_LEFT + 95;
+  const maxStrain = Math.max(results.epsilon_cu, strain(input.h) * -1, results.epsilon_y);
+  const strainScale = 40 / maxStrain;
+  const strainX = (value: number) => zeroX - value * strainScale;
+  const depthAtFace = input.h;
+
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.line(zeroX, top, zeroX, bottom);
+  doc.setFillColor(254, 215, 215);
+  doc.setDrawColor(...ERROR_COLOR);
+  drawPolygon(doc, [[zeroX, at(0)], [strainX(results.epsilon_cu), at(0)], [zeroX, at(results.c)]], 'FD');
+  doc.setFillColor(190, 227, 248);
+  doc.setDrawColor(...ACCENT_COLOR);
+  drawPolygon(doc, [[zeroX, at(results.c)], [strainX(strain(depthAtFace)), at(depthAtFace)], [zeroX, at(depthAtFace)]], 'FD');
+
+  // Neutral axis across both views
+  doc.setDrawColor(...ERROR_COLOR);
+  doc.setLineDashPattern([1.5, 1], 0);
+  doc.line(sideX - 2, at(results.c), zeroX + 45, at(results.c));
+  doc.setLineDashPattern([], 0);
+  doc.setTextColor(...ERROR_COLOR);
+  doc.setFontSize(7);
+  doc.text(`N.A., c = ${sheetQuantity(input, results.c, 'length', 2)}`, zeroX + 46, at(results.c) + 1);
+
+  // Yield strain on the tension side
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineDashPattern([0.8, 0.8], 0);
+  doc.line(strainX(-results.epsilon_y), top, strainX(-results.epsilon_y), bottom);
+  doc.setLineDashPattern([], 0);
+  doc.setTextColor(...GRAY_COLOR);
+  doc.text(`ey = ${formatNumber(results.epsilon_y, 5)}`, strainX(-results.epsilon_y), results.isNegativeMoment ? top - 1.5 : bottom + 3.5, { align: 'center' });
+
+  // Strain values at the compression face and the steel
+  doc.setFillColor(...PRIMARY_COLOR);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.text(`ecu = ${formatStrain(results.epsilon_cu)}`, strainX(results.epsilon_cu) - 1.5, at(0) + (results.isNegativeMoment ? -1 : 3), { align: 'right' });
+  doc.circle(strainX(-results.epsilon_t), at(results.dt), 0.7, 'F');
+  doc.text(`et = ${formatNumber(results.epsilon_t, 5)} at dt`, strainX(-results.epsilon_t) + 2, at(results.dt) + 1);
+  if (results.isDoublyReinforced) {
+    doc.circle(strainX(results.epsilon_s_prime), at(results.d_prime), 0.7, 'F');
+    doc.text(`e's = ${formatNumber(results.epsilon_s_prime, 5)}`, strainX(results.epsilon_s_prime) - 2, at(results.d_prime) + 1, { align: 'right' });
+  }
+
+  doc.setFontSize(10);
+  return bottom + 14;
+}
+
+/**
+ * List the depth of each bar layer as label/value rows
+ */
+function describeLayerDepths(input: BeamInput, layers: BarLayer[]): string[][] {
+  return layers
+    .filter((layer) => layer.count > 0)
+    .map((layer, i) => [
+      `  Layer ${i + 1}`,
+      `${layer.count} ${formatBarSize(layer.barSize, input.unitSystem)} at ${sheetQuantity(input, layer.depth, 'length', 2)}`,
+    ]);
+}
+
+function drawInputParameters(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const isNegative = results.isNegativeMoment;
+  const bf_eff = calculateEffectiveFlangeWidth(
+    input.sectionShape, input.b, input.bf, input.hf, input.spanLength, input.webClearSpacing
+  );
+  const sketchBottom = drawSectionSketch(doc, MARGIN_LEFT + 125, y + 4, 45, 40, input, results).bottom;
+  const sketchPage = doc.getNumberOfPages();
+
+  // Geometry subsection
+  doc.setFont('helvetica', 'bold');
+  doc.text('Section Geometry:', MARGIN_LEFT, y);
+  y += 6;
+
+  doc.setFont('helvetica', 'normal');
+  const params = isFlanged
+    ? [
+        ['Section Shape', input.sectionShape === 'T' ? 'T-Beam' : 'L-Beam'],
+        ['Web Width, bw', inputQuantity(input, input.b, 'length')],
+        ['Flange Width, bf', inputQuantity(input, input.bf, 'length')],
+        ['Effective Flange Width, be', sheetQuantity(input, bf_eff, 'length', 2)],
+        ['Flange Thickness, hf', inputQuantity(input, input.hf, 'length')],
+        ['Total Height, h', inputQuantity(input, input.h, 'length')],
+      ]
+    : [
+        ['Beam Width, b', inputQuantity(input, input.b, 'length')],
+        ['Total Height, h', inputQuantity(input, input.h, 'length')],
+      ];
+
+  if (isNegative) {
+    params.push(['Bending Moment', 'Negative (top in tension)']);
+  }
+
+  params.forEach(([label, value]) => {
+    doc.text(`${label}:`, MARGIN_LEFT + 5, y);
+    doc.text(value, MARGIN_LEFT + 55, y);
+    y += 5;
+  });
+
+  y += 3;
+
+  // Reinforcement subsection (top bars and slab bars are the tension steel in negative bending;
+  // layer depths are from the top, d, dt and d' from the compression face)
+  doc.setFont('helvetica', 'bold');
+  doc.text('Reinforcement:', MARGIN_LEFT, y);
+  y += 6;
+
+  doc.setFont('helvetica', 'normal');
+  const tensionLayers = isNegative ? input.compressionLayers : input.tensionLayers;
+  const compressionLayers = isNegative ? input.tensionLayers : input.compressionLayers;
+  const reinforcement = [
+    ['Clear Cover / Stirrups', `${inputQuantity(input, input.clearCover, 'length')} / ${formatBarSize(input.stirrupBar, input.unitSystem)}`],
+    [isNegative ? 'Top (Tension) Bars' : 'Tension Bars', describeLayers(tensionLayers, input.unitSystem)],
+    ...describeLayerDepths(input, tensionLayers),
+    ...(results.slabBarCount > 0
+      ? [['  Slab Bars within be', `${results.slabBarCount} ${formatBarSize(input.slabBar, input.unitSystem)} at ${sheetQuantity(input, input.slabDepth, 'length', 2)}`]]
+      : []),
+    ['Tension Steel Area, As', sheetQuantity(input, results.As, 'area', 2)],
+    ['Effective Depth, d', sheetQuantity(input, results.d, 'length', 2)],
+    ['Extreme Tension Depth, dt', sheetQuantity(input, results.dt, 'length', 2)],
+  ];
+
+  if (results.As_prime > 0) {
+    reinforcement.push(
+      [isNegative ? 'Bottom (Comp.) Bars' : 'Compression Bars', describeLayers(compressionLayers, input.unitSystem)],
+      ...describeLayerDepths(input, compressionLayers),
+      ["Compression Steel Area, A's", sheetQuantity(input, results.As_prime, 'area', 2)],
+      ["Compression Steel Depth, d'", sheetQuantity(input, results.d_prime, 'length', 2)]
+    );
+  }
+
+  // Long layer lists under a full title block can run past the first page
+  reinforcement.forEach(([label, value]) => {
+    y = checkPageBreak(doc, y, 5);
+    doc.text(`${label}:`, MARGIN_LEFT + 5, y);
+    doc.text(value, MARGIN_LEFT + 55, y);
+    y += 5;
+  });
+
+  if (isNegative) {
+    y = checkPageBreak(doc, y, 5);
+    doc.setTextColor(...GRAY_COLOR);
+    doc.setFontSize(8);
+    doc.text("Layer depths are from the top face; d, dt and d' from the bottom (compression) face.", MARGIN_LEFT + 5, y + 1);
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFontSize(10);
+    y += 5;
+  }
+
+  if (isFlanged) {
+    y = checkPageBreak(doc, y, 5);
+    doc.setTextColor(...GRAY_COLOR);
+    doc.setFontSize(8);
+    doc.text(
+      `be per ACI 318-19 Table 6.3.2.1 (ln = ${inputQuantity(input, input.spanLength, 'span')}, sw = ${inputQuantity(input, input.webClearSpacing, 'length')})`,
+      MARGIN_LEFT + 5,
+      y + 1
+    );
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFontSize(10);
+    y += 5;
+  }
+
+  // Clear the sketch unless the rows continued on a new page
+  return (doc.getNumberOfPages() === sketchPage ? Math.max(y, sketchBottom + 3) : y) + 5;
+}
+
+function drawMaterialProperties(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+
+  const stressUnit = unitLabel('stress', input.unitSystem, true);
+  const code = getDesignCode(results.designCode);
+
+  // Material properties table
+  const props = [
+    ["Concrete Strength, f'c:", sheetQuantity(input, input.fc, 'stress', 0), ''],
+    ['Steel Yield Strength, fy:', sheetQuantity(input, input.fy, 'stress', 0), ''],
+    ['Steel Modulus, Es:', `${formatEs(input)} ${stressUnit}`, ''],
+    ['Ultimate Concrete Strain, ecu:', formatStrain(results.epsilon_cu), code.clauses.epsilonCu],
+  ];
+  if (code.materialFactors === 'gamma') {
+    props.push([
+      'Partial Safety Factors:',
+      `gamma_c = ${formatNumber(1 / results.phi_c, 2)}, gamma_s = ${formatNumber(1 / results.phi_s, 2)}`,
+      code.clauses.phi,
+    ]);
+  } else if (code.materialFactors === 'phi') {
+    props.push([
+      'Material Resistance Factors:',
+      `phi_c = ${formatNumber(results.phi_c, 2)}, phi_s = ${formatNumber(results.phi_s, 2)}`,
+      code.clauses.phi,
+    ]);
+  }
+
+  props.forEach(([label, value, ref]) => {
+    doc.text(label, MARGIN_LEFT, y);
+    doc.text(value, MARGIN_LEFT + 70, y);
+    if (ref) {
+      doc.setTextColor(...GRAY_COLOR);
+      doc.setFontSize(8);
+      doc.text(ref, MARGIN_LEFT + 115, y);
+      doc.setTextColor(...PRIMARY_COLOR);
+      doc.setFontSize(10);
+    }
+    y += 6;
+  });
+
+  // Beta1 calculation
+  y += 3;
+  const alpha = sheetText(code.symbols.alpha1);
+  doc.setFont('helvetica', 'bold');
+  doc.text(code.materialFactors ? `Stress Block Factors, ${alpha} and B1:` : 'Stress Block Factor, B1:', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(code.clauses.stressBlock, MARGIN_LEFT + (code.materialFactors ? 70 : 50), y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  // Beta1 equation box
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 20, 'F');
+
+  code.formulas.stressBlock(input.fc, input.unitSystem).forEach((line, i) => {
+    doc.text(sheetText(line), MARGIN_LEFT + 10, y + 4 + i * 7);
+  });
+
+  doc.setFont('helvetica', 'bold');
+  if (code.materialFactors) {
+    doc.text(`${alpha} = ${formatNumber(results.alpha1, 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 40, y + 4);
+    doc.text(`B1 = ${formatNumber(results.beta1, 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 40, y + 11);
+  } else {
+    doc.text(`B1 = ${formatNumber(results.beta1, 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 40, y + 7);
+  }
 
   return y + 26;
 }
@@ -301,6 +1143,20 @@ function drawFlexuralAnalysis(
   input: BeamInput,
   results: BeamResults
 ): number {
+  y = drawSectionFigure(doc, y, input, results);
+
+  if (results.isDoublyReinforced) {
+    return drawDoublyReinforcedAnalysis(doc, y, input, results);
+  }
+  if (results.isFlanged && !results.stressBlockInFlange) {
+    return drawFlangedAnalysis(doc, y, input, results);
+  }
+
+  // Stress block within the flange: rectangular behavior with b = be
+  const widthLabel = results.isFlanged ? 'be' : 'b';
+  const { clauses } = getDesignCode(results.designCode);
+  const { alpha, fc, fy, alphaValue, fcValue, fyValue } = flexureTerms(input, results);
+
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
 
@@ -311,7 +1167,7 @@ function drawFlexuralAnalysis(
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 22.2.2.4.1', MARGIN_LEFT + 85, y);
+  doc.text(clauses.equilibrium, MARGIN_LEFT + 85, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
@@ -320,15 +1176,15 @@ function drawFlexuralAnalysis(
   doc.setFillColor(250, 250, 250);
   doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 24, 'F');
 
-  doc.text("a = As x fy / (0.85 x f'c x b)", MARGIN_LEFT + 10, y + 4);
+  doc.text(`a = As x ${fy} / (${alpha} x ${fc} x ${widthLabel})`, MARGIN_LEFT + 10, y + 4);
   doc.text(
-    `a = ${input.As} x ${input.fy.toLocaleString()} / (0.85 x ${input.fc.toLocaleString()} x ${input.b})`,
+    `a = ${sheetValue(input, results.As, 'area', 2)} x ${fyValue} / (${alphaValue} x ${fcValue} x ${sheetValue(input, results.bf_eff, 'length', 2)})`,
     MARGIN_LEFT + 10,
     y + 12
   );
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`a = ${formatNumber(results.a, 3)} in`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 16);
+  doc.text(`a = ${sheetQuantity(input, results.a, 'length', 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 16);
   doc.setFont('helvetica', 'normal');
 
   y += 30;
@@ -341,7 +1197,7 @@ function drawFlexuralAnalysis(
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 22.2.2.4.1', MARGIN_LEFT + 60, y);
+  doc.text(clauses.equilibrium, MARGIN_LEFT + 60, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
@@ -351,13 +1207,13 @@ function drawFlexuralAnalysis(
 
   doc.text('c = a / B1', MARGIN_LEFT + 10, y + 4);
   doc.text(
-    `c = ${formatNumber(results.a, 3)} / ${formatNumber(results.beta1, 3)}`,
+    `c = ${sheetValue(input, results.a, 'length', 3)} / ${formatNumber(results.beta1, 3)}`,
     MARGIN_LEFT + 10,
     y + 11
   );
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`c = ${formatNumber(results.c, 3)} in`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 8);
+  doc.text(`c = ${sheetQuantity(input, results.c, 'length', 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 8);
   doc.setFont('helvetica', 'normal');
 
   y += 24;
@@ -370,7 +1226,7 @@ function drawFlexuralAnalysis(
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 22.2.2.4.1', MARGIN_LEFT + 75, y);
+  doc.text(clauses.equilibrium, MARGIN_LEFT + 75, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
@@ -378,26 +1234,26 @@ function drawFlexuralAnalysis(
   doc.setFillColor(250, 250, 250);
   doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 30, 'F');
 
-  doc.text('Mn = As x fy x (d - a/2)', MARGIN_LEFT + 10, y + 4);
+  doc.text(`Mn = As x ${fy} x (d - a/2)`, MARGIN_LEFT + 10, y + 4);
   doc.text(
-    `Mn = ${input.As} x ${input.fy.toLocaleString()} x (${input.d} - ${formatNumber(results.a, 3)}/2)`,
+    `Mn = ${sheetValue(input, results.As, 'area', 2)} x ${fyValue} x (${sheetValue(input, results.d, 'length', 3)} - ${sheetValue(input, results.a, 'length', 3)}/2)`,
     MARGIN_LEFT + 10,
     y + 12
   );
   doc.text(
-    `Mn = ${formatNumber(results.Mn, 0)} lb-in`,
+    `Mn = ${formatInternalMoment(results.Mn, input.unitSystem)}`,
     MARGIN_LEFT + 10,
     y + 20
   );
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`Mn = ${formatNumber(results.Mn_kip_ft, 1)} kip-ft`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 22);
+  doc.text(`Mn = ${sheetQuantity(input, results.Mn_kip_ft, 'moment', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 22);
   doc.setFont('helvetica', 'normal');
 
   return y + 38;
 }
 
-function drawStrainAnalysis(
+function drawFlangedAnalysis(
   doc: jsPDF,
   y: number,
   input: BeamInput,
@@ -406,238 +1262,1203 @@ function drawStrainAnalysis(
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
 
-  // Tension steel strain (needs ~30mm)
-  y = checkPageBreak(doc, y, 30);
+  const { clauses } = getDesignCode(results.designCode);
+  const { alpha, fc, fy, alphaValue, fcValue } = flexureTerms(input, results);
+  const fcFactored = input.fc * results.phi_c;
+  const fyFactored = input.fy * results.phi_s;
+
+  // Step 1: Flange overhang force (needs ~40mm)
+  y = checkPageBreak(doc, y, 40);
   doc.setFont('helvetica', 'bold');
-  doc.text('Tension Steel Strain, et', MARGIN_LEFT, y);
+  doc.text('Step 1: Check Stress Block Location and Flange Force, Cf', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 21.2.2', MARGIN_LEFT + 50, y);
+  doc.text(clauses.equilibrium, MARGIN_LEFT + 115, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
 
+  const units = input.unitSystem;
+  const aFlange = (results.As * fyFactored) / (results.alpha1 * fcFactored * results.bf_eff);
+  // Forces in kips with f'c in ksi, or in N with f'c in MPa
+  const fcTerm = units === 'SI' ? fcValue : formatNumber(fcFactored / 1000, 1);
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
+
+  doc.text(
+    `a (trial) = As x ${fy} / (${alpha} x ${fc} x be) = ${sheetQuantity(input, aFlange, 'length', 3)} > hf = ${inputQuantity(input, input.hf, 'length')}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text('Stress block extends into the web (T-beam behavior)', MARGIN_LEFT + 10, y + 11);
+  doc.text(
+    `Cf = ${alpha} x ${fc} x (be - bw) x hf = ${alphaValue} x ${fcValue} x (${sheetValue(input, results.bf_eff, 'length', 2)} - ${inputValue(input, input.b, 'length')}) x ${inputValue(input, input.hf, 'length')}`,
+    MARGIN_LEFT + 10,
+    y + 18
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Cf = ${sheetQuantity(input, results.Cf / 1000, 'force', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 11);
+  doc.setFont('helvetica', 'normal');
+
+  y += 32;
+
+  // Step 2: Web stress block and neutral axis (needs ~35mm)
+  y = checkPageBreak(doc, y, 35);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Step 2: Stress Block Depth in Web, a, and Neutral Axis, c', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
   doc.setFillColor(250, 250, 250);
   doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 18, 'F');
 
-  doc.text('et = ecu x (d - c) / c', MARGIN_LEFT + 10, y + 4);
   doc.text(
-    `et = 0.003 x (${input.d} - ${formatNumber(results.c, 3)}) / ${formatNumber(results.c, 3)}`,
+    `a = (As x ${fy} - Cf) / (${alpha} x ${fc} x bw) = (${formatForceTerm(results.As * fyFactored, units, 1)} - ${formatForceTerm(results.Cf, units, 1)}) / (${alphaValue} x ${fcTerm} x ${inputValue(input, input.b, 'length')})`,
     MARGIN_LEFT + 10,
-    y + 11
+    y + 4
   );
+  doc.text(`c = a / B1 = ${sheetValue(input, results.a, 'length', 3)} / ${formatNumber(results.beta1, 3)}`, MARGIN_LEFT + 10, y + 11);
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`et = ${formatNumber(results.epsilon_t, 5)}`, MARGIN_LEFT + CONTENT_WIDTH - 50, y + 8);
+  doc.text(`a = ${sheetQuantity(input, results.a, 'length', 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 4);
+  doc.text(`c = ${sheetQuantity(input, results.c, 'length', 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 11);
   doc.setFont('helvetica', 'normal');
 
   y += 24;
 
-  // Yield strain
-  doc.text(`Steel Yield Strain: ey = fy / Es = ${input.fy.toLocaleString()} / ${(input.Es / 1000000).toFixed(0)} x 10^6 = ${formatNumber(results.epsilon_y, 5)}`, MARGIN_LEFT, y);
-  y += 10;
-
-  // Section classification (needs ~45mm)
+  // Step 3: Nominal moment capacity (needs ~45mm)
   y = checkPageBreak(doc, y, 45);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFont('helvetica', 'bold');
-  doc.text('Section Classification:', MARGIN_LEFT, y);
+  doc.text('Step 3: Nominal Moment Capacity, Mn', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Table 21.2.2', MARGIN_LEFT + 48, y);
+  doc.text(clauses.equilibrium, MARGIN_LEFT + 75, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
 
-  // Classification criteria table
-  const criteria = [
-    ['Tension-Controlled:', 'et >= 0.005', 'phi = 0.90'],
-    ['Transition Zone:', 'ey < et < 0.005', '0.65 < phi < 0.90'],
-    ['Compression-Controlled:', 'et <= ey', 'phi = 0.65'],
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 30, 'F');
+
+  const Cw = results.As * fyFactored - results.Cf;
+  doc.text(`Mn = Cf x (d - hf/2) + (As x ${fy} - Cf) x (d - a/2)`, MARGIN_LEFT + 10, y + 4);
+  doc.text(
+    `Mn = ${formatForceTerm(results.Cf, units, 1)} x (${sheetValue(input, results.d, 'length', 3)} - ${inputValue(input, input.hf, 'length')}/2) + ${formatForceTerm(Cw, units, 1)} x (${sheetValue(input, results.d, 'length', 3)} - ${sheetValue(input, results.a, 'length', 3)}/2)`,
+    MARGIN_LEFT + 10,
+    y + 12
+  );
+  doc.text(
+    `Mn = ${formatInternalMoment(results.Mn, input.unitSystem)}`,
+    MARGIN_LEFT + 10,
+    y + 20
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Mn = ${sheetQuantity(input, results.Mn_kip_ft, 'moment', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 22);
+  doc.setFont('helvetica', 'normal');
+
+  return y + 38;
+}
+
+function drawDoublyReinforcedAnalysis(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const hf = results.isFlanged ? input.hf : 0;
+  const zone = calculateCompressionZone(results.a, input.b, results.bf_eff, hf);
+  const Cc = results.alpha1 * input.fc * results.phi_c * zone.area;
+  const { clauses } = getDesignCode(results.designCode);
+  const { alpha, fc, fy } = flexureTerms(input, results);
+  const ecu = formatStrain(results.epsilon_cu);
+
+  // Step 1: Neutral axis from force equilibrium (needs ~40mm)
+  y = checkPageBreak(doc, y, 40);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Step 1: Neutral Axis Depth by Strain Compatibility, c', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(clauses.strainCompatibility, MARGIN_LEFT + 105, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
+
+  doc.text(`${alpha} x ${fc} x b x B1 x c + A's x (f's - ${alpha} x ${fc}) = As x fs`, MARGIN_LEFT + 10, y + 4);
+  doc.text(`Solved iteratively with f's, fs = Es x es <= ${fy}`, MARGIN_LEFT + 10, y + 11);
+  doc.text(
+    `a = B1 x c = ${formatNumber(results.beta1, 3)} x ${sheetValue(input, results.c, 'length', 3)} = ${sheetQuantity(input, results.a, 'length', 3)}`,
+    MARGIN_LEFT + 10,
+    y + 18
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`c = ${sheetQuantity(input, results.c, 'length', 3)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 11);
+  doc.setFont('helvetica', 'normal');
+
+  y += 32;
+
+  // Step 2: Compression steel stress (needs ~40mm)
+  y = checkPageBreak(doc, y, 40);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text("Step 2: Compression Steel Strain and Stress, e's and f's", MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Sec. 20.2.2.1', MARGIN_LEFT + 110, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
+
+  doc.text(
+    `e's = ${ecu} x (c - d') / c = ${ecu} x (${sheetValue(input, results.c, 'length', 3)} - ${sheetValue(input, results.d_prime, 'length', 3)}) / ${sheetValue(input, results.c, 'length', 3)} = ${formatNumber(results.epsilon_s_prime, 5)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text(
+    `f's = Es x e's <= ${fy}  ->  f's = ${sheetQuantity(input, results.fs_prime, 'stress', 0)} (${results.compressionSteelYields ? 'yields' : 'does not yield'})`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+  const displaced = results.a > results.d_prime ? ` - ${alpha} x ${fc}` : '';
+  doc.text(`Cs = A's x (f's${displaced}) = ${sheetQuantity(input, results.Cs / 1000, 'force', 2)}`, MARGIN_LEFT + 10, y + 18);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Cs = ${sheetQuantity(input, results.Cs / 1000, 'force', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 18);
+  doc.setFont('helvetica', 'normal');
+
+  y += 32;
+
+  // Step 3: Nominal moment capacity (needs ~45mm)
+  y = checkPageBreak(doc, y, 45);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Step 3: Nominal Moment Capacity, Mn', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(clauses.strainCompatibility, MARGIN_LEFT + 75, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 30, 'F');
+
+  doc.text(`Mn = Cc x (d - y) + Cs x (d - d'),  Cc = ${alpha} x ${fc} x Ac`, MARGIN_LEFT + 10, y + 4);
+  doc.text(
+    `Mn = ${formatForceTerm(Cc, input.unitSystem, 2)} x (${sheetValue(input, results.d, 'length', 3)} - ${sheetValue(input, zone.centroid, 'length', 3)}) + ${formatForceTerm(results.Cs, input.unitSystem, 2)} x (${sheetValue(input, results.d, 'length', 3)} - ${sheetValue(input, results.d_prime, 'length', 3)})`,
+    MARGIN_LEFT + 10,
+    y + 12
+  );
+  doc.text(
+    `Mn = ${formatInternalMoment(results.Mn, input.unitSystem)}`,
+    MARGIN_LEFT + 10,
+    y + 20
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Mn = ${sheetQuantity(input, results.Mn_kip_ft, 'moment', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 22);
+  doc.setFont('helvetica', 'normal');
+
+  return y + 38;
+}
+
+function drawStrainAnalysis(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const code = getDesignCode(results.designCode);
+  const { fy, fyValue } = flexureTerms(input, results);
+  const tensionControlStrain = formatStrain(results.epsilon_t_tc);
+  // ACI 318-11 starts the phi transition at 0.002 rather than at ey
+  const compressionControlLimit = results.epsilon_t_cc === results.epsilon_y ? 'ey' : formatStrain(results.epsilon_t_cc);
+
+  y = drawStrainFigure(doc, y, input, results);
+
+  // Tension steel strain (needs ~30mm)
+  y = checkPageBreak(doc, y, 30);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Tension Steel Strain, et', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(code.clauses.strainCompatibility, MARGIN_LEFT + 50, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 18, 'F');
+
+  doc.text('et = ecu x (dt - c) / c', MARGIN_LEFT + 10, y + 4);
+  doc.text(
+    `et = ${formatStrain(results.epsilon_cu)} x (${sheetValue(input, results.dt, 'length', 3)} - ${sheetValue(input, results.c, 'length', 3)}) / ${sheetValue(input, results.c, 'length', 3)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`et = ${formatNumber(results.epsilon_t, 5)}`, MARGIN_LEFT + CONTENT_WIDTH - 50, y + 8);
+  doc.setFont('helvetica', 'normal');
+
+  y += 24;
+
+  // Yield strain
+  doc.text(`Steel Yield Strain: ey = ${fy} / Es = ${fyValue} / ${formatEs(input)} = ${formatNumber(results.epsilon_y, 5)}`, MARGIN_LEFT, y);
+  y += 10;
+
+  // Section classification (needs ~45mm)
+  y = checkPageBreak(doc, y, 45);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Section Classification:', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(code.clauses.phi, MARGIN_LEFT + 48, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  // Classification criteria table; phi applies only where the code factors Mn
+  const criteria = [
+    ['Tension-Controlled:', `et >= ${tensionControlStrain}`, 'phi = 0.90'],
+    ['Transition Zone:', `${compressionControlLimit} < et < ${tensionControlStrain}`, '0.65 < phi < 0.90'],
+    ['Compression-Controlled:', `et <= ${compressionControlLimit}`, 'phi = 0.65'],
+  ].map(([type, condition, phi]) => [type, condition, code.materialFactors ? '' : phi]);
+
+  doc.setFontSize(9);
+  criteria.forEach(([type, condition, phi]) => {
+    const isActive =
+      (type.includes('Tension') && results.sectionType === 'tension-controlled') ||
+      (type.includes('Transition') && results.sectionType === 'transition') ||
+      (type.includes('Compression') && results.sectionType === 'compression-controlled');
+
+    if (isActive) {
+      doc.setFillColor(232, 245, 233);
+      doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 6, 'F');
+      doc.setFont('helvetica', 'bold');
+    } else {
+      doc.setFont('helvetica', 'normal');
+    }
+
+    doc.text(type, MARGIN_LEFT + 8, y);
+    doc.text(condition, MARGIN_LEFT + 55, y);
+    doc.text(phi, MARGIN_LEFT + 110, y);
+    y += 7;
+  });
+
+  doc.setFontSize(10);
+  y += 5;
+
+  // Section type result
+  doc.setFont('helvetica', 'bold');
+  let sectionTypeLabel = '';
+  let color: [number, number, number] = SUCCESS_COLOR;
+
+  switch (results.sectionType) {
+    case 'tension-controlled':
+      sectionTypeLabel = 'TENSION-CONTROLLED';
+      color = SUCCESS_COLOR;
+      break;
+    case 'transition':
+      sectionTypeLabel = 'TRANSITION ZONE';
+      color = WARNING_COLOR;
+      break;
+    case 'compression-controlled':
+      sectionTypeLabel = 'COMPRESSION-CONTROLLED';
+      color = ERROR_COLOR;
+      break;
+  }
+
+  doc.setTextColor(...color);
+  doc.text(`Section is ${sectionTypeLabel}`, MARGIN_LEFT, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  y += 7;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    code.materialFactors
+      ? `Strength Reduction Factor: phi = ${formatNumber(results.phi, 3)} (resistance factors applied to materials)`
+      : `Strength Reduction Factor: phi = ${formatNumber(results.phi, 3)}`,
+    MARGIN_LEFT,
+    y
+  );
+  y += 12;
+
+  // Design moment capacity (needs ~30mm)
+  y = checkPageBreak(doc, y, 30);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Design Moment Capacity, phi x Mn', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  doc.setFillColor(232, 245, 233);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 18, 'F');
+
+  doc.text('phi x Mn = phi x Mn', MARGIN_LEFT + 10, y + 4);
+  doc.text(
+    `phi x Mn = ${formatNumber(results.phi, 3)} x ${sheetQuantity(input, results.Mn_kip_ft, 'moment', 1)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(`phi x Mn = ${sheetQuantity(input, results.phiMn_kip_ft, 'moment', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 65, y + 8);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+
+  return y + 25;
+}
+
+function drawReinforcementLimits(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const code = getDesignCode(results.designCode);
+  const { alpha, fc, fyDivisor } = flexureTerms(input, results);
+  const strainLimit = formatStrain(results.epsilon_t_min);
+
+  // Minimum reinforcement (needs ~35mm)
+  y = checkPageBreak(doc, y, 35);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Minimum Reinforcement Ratio, rho_min', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(code.clauses.rhoMin, MARGIN_LEFT + 78, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 20, 'F');
+
+  doc.text(sheetText(code.formulas.rhoMin(input.unitSystem)), MARGIN_LEFT + 10, y + 4);
+  if (!code.materialFactors) {
+    // f'c and fy in the units of the sheet, so the terms match a hand calculation
+    const [rhoSqrt, rhoFlat] = input.unitSystem === 'SI' ? [0.25, 1.4] : [3, 200];
+    const fcValue = fromCustomary(input.fc, 'stress', input.unitSystem);
+    const fyValue = fromCustomary(input.fy, 'stress', input.unitSystem);
+    const rhoMin1 = (rhoSqrt * Math.sqrt(fcValue)) / fyValue;
+    const rhoMin2 = rhoFlat / fyValue;
+    doc.text(
+      `rho_min = max( ${formatNumber(rhoMin1, 5)} , ${formatNumber(rhoMin2, 5)} )`,
+      MARGIN_LEFT + 10,
+      y + 12
+    );
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`rho_min = ${(results.rho_min * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 12);
+  doc.setFont('helvetica', 'normal');
+
+  y += 26;
+
+  // Maximum reinforcement (needs ~25mm)
+  y = checkPageBreak(doc, y, 25);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Maximum Reinforcement Ratio, rho_max', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text(`${code.clauses.rhoMax} (et >= ${strainLimit})`, MARGIN_LEFT + 80, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 12, 'F');
+
+  const compressionSteelTerm = results.isDoublyReinforced ? ` + rho' x f's / ${fyDivisor}` : '';
+  doc.text(
+    code.materialFactors
+      ? `rho_max from equilibrium at c = ecu x d / (ecu + ${strainLimit}) = ${sheetQuantity(input, (results.epsilon_cu * results.d) / (results.epsilon_cu + results.epsilon_t_min), 'length', 2)}`
+      : results.isFlanged
+        ? `rho_max = ${alpha} x ${fc} x Ac / (${fyDivisor} x bw x d), Ac at c = ecu x d / (ecu + ${strainLimit})` + compressionSteelTerm
+        : `rho_max = (${alpha} x B1 x ${fc} / ${fyDivisor}) x (ecu / (ecu + ${strainLimit}))` + compressionSteelTerm,
+    MARGIN_LEFT + 10,
+    y + 5
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`rho_max = ${(results.rho_max * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 5);
+  doc.setFont('helvetica', 'normal');
+
+  y += 18;
+
+  // Actual reinforcement ratio
+  doc.setFont('helvetica', 'bold');
+  doc.text('Actual Reinforcement Ratio, rho', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 7;
+
+  const widthLabel = results.isFlanged ? 'bw' : 'b';
+  doc.text(`rho = As / (${widthLabel} x d) = ${sheetValue(input, results.As, 'area', 2)} / (${inputValue(input, input.b, 'length')} x ${sheetValue(input, results.d, 'length', 3)})`, MARGIN_LEFT + 5, y);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`rho = ${(results.rho * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 50, y);
+  doc.setFont('helvetica', 'normal');
+
+  y += 12;
+
+  // Checks section title (needs ~45mm for all checks)
+  y = checkPageBreak(doc, y, 45);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Code Compliance Checks:', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  // Checks
+  const checks = [
+    {
+      label: 'Minimum Reinforcement',
+      condition: `rho >= rho_min: ${(results.rho * 100).toFixed(3)}% >= ${(results.rho_min * 100).toFixed(3)}%`,
+      pass: results.isAdequatelyReinforced,
+    },
+    {
+      label: 'Maximum Reinforcement',
+      condition: `rho <= rho_max: ${(results.rho * 100).toFixed(3)}% <= ${(results.rho_max * 100).toFixed(3)}%`,
+      pass: results.isNotOverReinforced,
+    },
+    {
+      label: 'Steel Yielding',
+      condition: `et >= ey: ${formatNumber(results.epsilon_t, 5)} >= ${formatNumber(results.epsilon_y, 5)}`,
+      pass: results.steelYields,
+    },
+  ];
+
+  checks.forEach(({ label, condition, pass }) => {
+    const bgColor = pass ? [232, 245, 233] : [254, 215, 215];
+    doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+    doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 9, 'F');
+
+    const statusColor = pass ? SUCCESS_COLOR : ERROR_COLOR;
+    doc.setTextColor(...statusColor);
+    doc.setFont('helvetica', 'bold');
+    doc.text(pass ? '[OK]' : '[FAIL]', MARGIN_LEFT + 8, y + 2);
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${label}: ${condition}`, MARGIN_LEFT + 25, y + 2);
+    y += 11;
+  });
+
+  return y + 5;
+}
+
+function drawCrackControl(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const { crackControl } = results;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  // Maximum bar spacing (needs ~30mm)
+  y = checkPageBreak(doc, y, 30);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Maximum Bar Spacing, s', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Table 24.3.2', MARGIN_LEFT + 48, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 19, 'F');
+
+  doc.text(
+    input.unitSystem === 'SI'
+      ? 's = min( 380 x (280 / fs) - 2.5 x cc , 300 x (280 / fs) )'
+      : 's = min( 15 x (40,000 / fs) - 2.5 x cc , 12 x (40,000 / fs) )',
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text(
+    `fs = ${sheetQuantity(input, crackControl.fs, 'stress', 0)}${input.fs > 0 ? '' : ' (2/3 fy)'},  cc = ${sheetQuantity(input, crackControl.cc, 'length', 2)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`s,max = ${sheetQuantity(input, crackControl.s_max, 'length', 2)}`, MARGIN_LEFT + CONTENT_WIDTH - 50, y + 8);
+  doc.setFont('helvetica', 'normal');
+
+  y += 24;
+
+  // Check
+  const pass = crackControl.isSpacingAdequate;
+  const bgColor = pass ? [232, 245, 233] : [254, 215, 215];
+  doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 9, 'F');
+
+  doc.setTextColor(...(pass ? SUCCESS_COLOR : ERROR_COLOR));
+  doc.setFont('helvetica', 'bold');
+  doc.text(pass ? '[OK]' : '[FAIL]', MARGIN_LEFT + 8, y + 2);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    `Crack Control: s <= s,max: ${sheetValue(input, crackControl.s, 'length', 2)} <= ${sheetQuantity(input, crackControl.s_max, 'length', 2)} (extreme tension layer)`,
+    MARGIN_LEFT + 25,
+    y + 2
+  );
+  y += 11;
+
+  return y + 5;
+}
+
+function drawServiceProperties(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const { service } = results;
+  const isSI = input.unitSystem === 'SI';
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  // Gross section and cracking moment (needs ~30mm)
+  y = checkPageBreak(doc, y, 30);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Cracking Moment, Mcr', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Sec. 19.2.3.1, 24.2.3.5', MARGIN_LEFT + 45, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 19, 'F');
+
+  doc.text(
+    `fr = ${isSI ? '0.62' : '7.5'} x l x sqrt(f'c) = ${sheetQuantity(input, service.fr, 'stress', 1)},  Ig = ${sheetQuantity(input, service.Ig, 'inertia', 0)},  yt = ${sheetQuantity(input, service.yt, 'length', 2)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text('Mcr = fr x Ig / yt', MARGIN_LEFT + 10, y + 11);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Mcr = ${sheetQuantity(input, service.Mcr_kip_ft, 'moment', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 50, y + 11);
+  doc.setFont('helvetica', 'normal');
+
+  y += 24;
+
+  // Cracked transformed section (needs ~30mm)
+  y = checkPageBreak(doc, y, 30);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Cracked Transformed Section, Icr', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 19, 'F');
+
+  doc.text(
+    `Ec = ${isSI ? '4700' : '57,000'} x sqrt(f'c) = ${sheetQuantity(input, service.Ec, 'stress', -2)},  n = Es / Ec = ${formatNumber(service.n, 2)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text(
+    results.As_prime > 0
+      ? `kd = ${sheetQuantity(input, service.kd, 'length', 3)} (compression steel as (n - 1) x A's)`
+      : `kd = ${sheetQuantity(input, service.kd, 'length', 3)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Icr = ${sheetQuantity(input, service.Icr, 'inertia', 0)}`, MARGIN_LEFT + CONTENT_WIDTH - 50, y + 11);
+  doc.setFont('helvetica', 'normal');
+
+  y += 24;
+
+  // Effective moment of inertia
+  if (service.hasServiceMoment) {
+    y = checkPageBreak(doc, y, 25);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Effective Moment of Inertia, Ie', MARGIN_LEFT, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...GRAY_COLOR);
+    doc.setFontSize(8);
+    doc.text('ACI 318-19 Table 24.2.3.5', MARGIN_LEFT + 60, y);
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFontSize(10);
+    y += 8;
+
+    doc.setFillColor(232, 245, 233);
+    doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 19, 'F');
+
+    doc.text(
+      service.isCracked
+        ? 'Ma > 2/3 Mcr:  Ie = Icr / (1 - ((2/3) x Mcr / Ma)^2 x (1 - Icr / Ig))'
+        : 'Ma <= 2/3 Mcr:  Ie = Ig',
+      MARGIN_LEFT + 10,
+      y + 4
+    );
+    doc.text(
+      `Ma = ${sheetQuantity(input, input.Ma, 'moment', 1)},  2/3 Mcr = ${sheetQuantity(input, (2 / 3) * service.Mcr_kip_ft, 'moment', 1)}`,
+      MARGIN_LEFT + 10,
+      y + 11
+    );
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Ie = ${sheetQuantity(input, service.Ie, 'inertia', 0)}`, MARGIN_LEFT + CONTENT_WIDTH - 40, y + 11);
+    doc.setFont('helvetica', 'normal');
+
+    y += 23;
+  }
+
+  return y + 5;
+}
+
+function drawMinimumThickness(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const { minimumThickness } = results;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const supportLabel = SUPPORT_OPTIONS.find(({ value }) => value === input.supportCondition)?.label ?? '';
+
+  y = checkPageBreak(doc, y, 30);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Minimum Depth', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Table 9.3.1.1', MARGIN_LEFT + 42, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 12, 'F');
+
+  doc.text(
+    `${supportLabel}: h,min = l/${minimumThickness.divisor} x ${formatNumber(minimumThickness.fyFactor, 2)} x ${formatNumber(minimumThickness.lightweightFactor, 2)} = ${inputValue(input, input.spanLength * 12, 'length')} / ${minimumThickness.divisor} x ${formatNumber(minimumThickness.fyFactor * minimumThickness.lightweightFactor, 3)} = ${sheetQuantity(input, minimumThickness.h_min, 'length', 2)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+
+  y += 15;
+
+  // Thickness check: a thinner member is not a failure, deflections must be calculated instead
+  const pass = minimumThickness.isThicknessAdequate;
+  const bgColor = pass ? [232, 245, 233] : [255, 243, 205];
+  doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 9, 'F');
+
+  doc.setTextColor(...(pass ? SUCCESS_COLOR : WARNING_COLOR));
+  doc.setFont('helvetica', 'bold');
+  doc.text(pass ? '[OK]' : '[NOTE]', MARGIN_LEFT + 8, y + 2);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    `h = ${inputQuantity(input, input.h, 'length')} ${pass ? '>=' : '<'} h,min = ${sheetQuantity(input, minimumThickness.h_min, 'length', 2)} - ${
+      minimumThickness.canSkipDeflection ? 'deflection calculation not required' : 'deflections must be calculated'
+    }`,
+    MARGIN_LEFT + 25,
+    y + 2
+  );
+  y += 11;
+
+  return y + 5;
+}
+
+function drawDeflection(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const { deflection, service } = results;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+
+  const supportLabel = SUPPORT_OPTIONS.find(({ value }) => value === input.supportCondition)?.label ?? '';
+
+  // Immediate deflection (needs ~35mm)
+  y = checkPageBreak(doc, y, 35);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Immediate Deflection', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Sec. 24.2.3', MARGIN_LEFT + 42, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
+
+  doc.text(
+    `${supportLabel}, l = ${inputQuantity(input, input.spanLength, 'span')},  wD = ${inputQuantity(input, input.deadLoad, 'lineLoad')},  wL = ${inputQuantity(input, input.liveLoad, 'lineLoad')}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text(
+    `Ma,D = ${sheetQuantity(input, deflection.Ma_D, 'moment', 1)}, Ie = ${sheetQuantity(input, deflection.Ie_D, 'inertia', 0)};  Ma,D+L = ${sheetQuantity(input, deflection.Ma_DL, 'moment', 1)}, Ie = ${sheetQuantity(input, deflection.Ie_DL, 'inertia', 0)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+  doc.text(
+    `Ec = ${sheetQuantity(input, service.Ec, 'stress', -2)},  Delta_L = Delta_D+L - Delta_D`,
+    MARGIN_LEFT + 10,
+    y + 18
+  );
+
+  y += 32;
+
+  // Long-term deflection (needs ~25mm)
+  y = checkPageBreak(doc, y, 25);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Long-Term Deflection', MARGIN_LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(8);
+  doc.text('ACI 318-19 Sec. 24.2.4', MARGIN_LEFT + 42, y);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(10);
+  y += 8;
+
+  doc.setFillColor(250, 250, 250);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 12, 'F');
+
+  doc.text(
+    `lambda_delta = xi / (1 + 50 x rho') = ${formatNumber(deflection.xi, 1)} / (1 + 50 x ${formatNumber(deflection.rho_prime, 5)}) = ${formatNumber(deflection.lambda_delta, 3)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+
+  y += 18;
+
+  // Deflection table
+  const rows = [
+    ['Dead load, Delta_D', deflection.delta_D],
+    ['Live load, Delta_L', deflection.delta_L],
+    ['Dead + live, Delta_D+L', deflection.delta_DL],
+    [`Sustained (D + ${input.sustainedLive}% L), Delta_sus`, deflection.delta_sustained],
+    ['Long-term, lambda_delta x Delta_sus', deflection.delta_longTerm],
+  ] as const;
+
+  rows.forEach(([label, value]) => {
+    doc.text(`${label}:`, MARGIN_LEFT + 5, y);
+    doc.text(sheetQuantity(input, value, 'length', 3), MARGIN_LEFT + 85, y);
+    y += 5;
+  });
+
+  y += 4;
+
+  // Limit check
+  y = checkPageBreak(doc, y, 12);
+  const pass = deflection.isDeflectionAdequate;
+  const bgColor = pass ? [232, 245, 233] : [254, 215, 215];
+  doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 9, 'F');
+
+  doc.setTextColor(...(pass ? SUCCESS_COLOR : ERROR_COLOR));
+  doc.setFont('helvetica', 'bold');
+  doc.text(pass ? '[OK]' : '[FAIL]', MARGIN_LEFT + 8, y + 2);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    `Deflection (Table 24.2.2): ${sheetValue(input, deflection.delta_check, 'length', 3)} <= l/${deflection.limitDivisor} = ${sheetQuantity(input, deflection.delta_allow, 'length', 3)}`,
+    MARGIN_LEFT + 25,
+    y + 2
+  );
+  y += 11;
+
+  return y + 5;
+}
+
+/**
+ * Moment-curvature chart with the key-point table beside it
+ */
+function drawMomentCurvature(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const { curve, cracking, firstYield, peak, ultimate, ductility, isBelowCracking } = results.momentCurvature;
+  const units = input.unitSystem;
+  const curvature = (value: number) => formatNumber(fromCustomary(value, 'curvature', units) * 1000, units === 'SI' ? 2 : 4);
+  const curvatureUnit = `10^-3/${units === 'SI' ? 'm' : 'in'}`;
+  const concreteModel = CONCRETE_MODEL_OPTIONS.find(({ value }) => value === input.concreteModel)?.label ?? '';
+  const steelModel = STEEL_MODEL_OPTIONS.find(({ value }) => value === input.steelModel)?.label ?? '';
+
+  y = checkPageBreak(doc, y, 70);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(9);
+  doc.text(
+    `Nominal strengths: ${concreteModel} concrete, ${steelModel.toLowerCase()} steel`,
+    MARGIN_LEFT + 5,
+    y
+  );
+  y += 8;
+
+  // Chart (needs ~60mm)
+  const chartX = MARGIN_LEFT + 15;
+  const chartW = 75;
+  const chartH = 45;
+  const chartBottom = y + chartH;
+  const maxCurvature = Math.max(...curve.map((point) => point.curvature));
+  const maxMoment = 1.1 * peak.M_kip_ft;
+  const toX = (value: number) => chartX + (value / maxCurvature) * chartW;
+  const toY = (value: number) => chartBottom - (Math.max(0, value) / maxMoment) * chartH;
+
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  doc.line(chartX, y, chartX, chartBottom);
+  doc.line(chartX, chartBottom, chartX + chartW, chartBottom);
+
+  doc.setDrawColor(...ACCENT_COLOR);
+  doc.setLineWidth(0.6);
+  drawPolyline(doc, curve.map((point) => [toX(point.curvature), toY(point.M_kip_ft)]));
+
+  const keyPoints: [string, string, MomentCurvaturePoint | null][] = [
+    ['Cr', 'Cracking', cracking],
+    ['Y', 'First yield', firstYield],
+    ['P', 'Peak moment', peak],
+    ['U', `Ultimate, ec = ${formatStrain(ultimate.epsilon_c)}`, ultimate],
   ];
 
-  doc.setFontSize(9);
-  criteria.forEach(([type, condition, phi]) => {
-    const isActive =
-      (type.includes('Tension') && results.sectionType === 'tension-controlled') ||
-      (type.includes('Transition') && results.sectionType === 'transition') ||
-      (type.includes('Compression') && results.sectionType === 'compression-controlled');
+  doc.setFillColor(...ERROR_COLOR);
+  doc.setTextColor(...ERROR_COLOR);
+  doc.setFontSize(7);
+  keyPoints.forEach(([tag, , point]) => {
+    if (!point) return;
+    const px = toX(point.curvature);
+    const py = toY(point.M_kip_ft);
+    doc.circle(px, py, 0.8, 'F');
+    doc.text(tag, px, tag === 'U' ? py + 4 : py - 2, { align: 'center' });
+  });
 
-    if (isActive) {
-      doc.setFillColor(232, 245, 233);
-      doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 6, 'F');
-      doc.setFont('helvetica', 'bold');
-    } else {
-      doc.setFont('helvetica', 'normal');
-    }
+  doc.setTextColor(...GRAY_COLOR);
+  doc.text(formatValue(peak.M_kip_ft, 'moment', units, 0), chartX - 2, toY(peak.M_kip_ft) + 1, { align: 'right' });
+  doc.text('0', chartX - 2, chartBottom + 1, { align: 'right' });
+  doc.text(curvature(maxCurvature), chartX + chartW, chartBottom + 4, { align: 'right' });
+  doc.text(`M (${unitLabel('moment', units, true)})`, chartX, y - 2);
+  doc.text(`phi (${curvatureUnit})`, chartX + chartW / 2, chartBottom + 8, { align: 'center' });
+
+  // Key-point table
+  const tableX = MARGIN_LEFT + 100;
+  let rowY = y + 3;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Point', tableX, rowY);
+  doc.text(`phi (${curvatureUnit})`, tableX + 52, rowY, { align: 'right' });
+  doc.text('M', CONTENT_WIDTH + MARGIN_LEFT - 2, rowY, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  rowY += 6;
 
-    doc.text(type, MARGIN_LEFT + 8, y);
-    doc.text(condition, MARGIN_LEFT + 55, y);
-    doc.text(phi, MARGIN_LEFT + 110, y);
-    y += 7;
+  keyPoints.forEach(([tag, label, point]) => {
+    doc.text(`${tag} - ${label}`, tableX, rowY);
+    doc.text(point ? curvature(point.curvature) : '-', tableX + 52, rowY, { align: 'right' });
+    doc.text(
+      point ? sheetQuantity(input, point.M_kip_ft, 'moment', 1) : 'no yield',
+      CONTENT_WIDTH + MARGIN_LEFT - 2,
+      rowY,
+      { align: 'right' }
+    );
+    rowY += 6;
   });
 
+  rowY += 2;
+  doc.setFillColor(232, 245, 253);
+  doc.rect(tableX - 2, rowY - 4, CONTENT_WIDTH + MARGIN_LEFT - tableX, 8, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.text(
+    `Curvature ductility mu_phi = phi_u / phi_y = ${isBelowCracking ? 'N/A (Mn < Mcr)' : ductility === null ? 'N/A' : formatNumber(ductility, 2)}`,
+    tableX,
+    rowY + 1
+  );
+  doc.setFont('helvetica', 'normal');
   doc.setFontSize(10);
-  y += 5;
 
-  // Section type result
-  doc.setFont('helvetica', 'bold');
-  let sectionTypeLabel = '';
-  let color: [number, number, number] = SUCCESS_COLOR;
+  return chartBottom + 15;
+}
 
-  switch (results.sectionType) {
-    case 'tension-controlled':
-      sectionTypeLabel = 'TENSION-CONTROLLED';
-      color = SUCCESS_COLOR;
-      break;
-    case 'transition':
-      sectionTypeLabel = 'TRANSITION ZONE';
-      color = WARNING_COLOR;
-      break;
-    case 'compression-controlled':
-      sectionTypeLabel = 'COMPRESSION-CONTROLLED';
-      color = ERROR_COLOR;
-      break;
-  }
+/**
+ * P-M interaction diagram with the demand point and the key values beside it
+ */
+function drawInteraction(
+  doc: jsPDF,
+  y: number,
+  input: BeamInput,
+  results: BeamResults
+): number {
+  const interaction = results.interaction;
+  if (!interaction) return y;
+  const { points, balanced, tensionControlled } = interaction;
+  const code = getDesignCode(input.designCode);
+  const units = input.unitSystem;
 
-  doc.setTextColor(...color);
-  doc.text(`Section is ${sectionTypeLabel}`, MARGIN_LEFT, y);
+  y = checkPageBreak(doc, y, 70);
   doc.setTextColor(...PRIMARY_COLOR);
-  y += 7;
+  doc.setFontSize(9);
+  doc.text(
+    `Pu = ${sheetQuantity(input, interaction.Pu, 'force', 1)}, Mu = ${sheetQuantity(input, interaction.Mu_kip_ft, 'moment', 1)}; M about the gross-section centroid; axial cap per ${code.clauses.axialCap}`,
+    MARGIN_LEFT + 5,
+    y
+  );
+  y += 8;
 
-  doc.setFont('helvetica', 'normal');
-  doc.text(`Strength Reduction Factor: phi = ${formatNumber(results.phi, 3)}`, MARGIN_LEFT, y);
-  y += 12;
+  // Chart (needs ~60mm)
+  const chartX = MARGIN_LEFT + 10;
+  const chartW = 80;
+  const chartH = 50;
+  const moments = [...points.map((point) => point.Mn_kip_ft), interaction.Mu_kip_ft, 0];
+  const forces = [...points.map((point) => point.Pn), interaction.Pu, 0];
+  const minM = Math.min(...moments);
+  const maxM = 1.1 * Math.max(...moments);
+  const minP = 1.1 * Math.min(...forces);
+  const maxP = 1.1 * Math.max(...forces);
+  const toX = (value: number) => chartX + ((value - minM) / (maxM - minM)) * chartW;
+  const toY = (value: number) => y + chartH - ((value - minP) / (maxP - minP)) * chartH;
 
-  // Design moment capacity (needs ~30mm)
-  y = checkPageBreak(doc, y, 30);
-  doc.setTextColor(...PRIMARY_COLOR);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Design Moment Capacity, phi x Mn', MARGIN_LEFT, y);
-  doc.setFont('helvetica', 'normal');
-  y += 8;
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  doc.line(chartX, toY(0), chartX + chartW, toY(0));
+  doc.line(toX(0), y, toX(0), y + chartH);
 
-  doc.setFillColor(232, 245, 233);
-  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 18, 'F');
+  doc.setLineDashPattern([1, 0.7], 0);
+  drawPolyline(doc, points.map((point) => [toX(point.Mn_kip_ft), toY(point.Pn)]));
+  doc.setLineDashPattern([], 0);
+  doc.setDrawColor(...ACCENT_COLOR);
+  doc.setLineWidth(0.6);
+  drawPolyline(doc, points.map((point) => [toX(point.phiMn_kip_ft), toY(point.phiPn)]));
 
-  doc.text('phi x Mn = phi x Mn', MARGIN_LEFT + 10, y + 4);
-  doc.text(
-    `phi x Mn = ${formatNumber(results.phi, 3)} x ${formatNumber(results.Mn_kip_ft, 1)} kip-ft`,
-    MARGIN_LEFT + 10,
-    y + 11
-  );
+  const pass = interaction.isAdequate;
+  doc.setFillColor(...(pass ? SUCCESS_COLOR : ERROR_COLOR));
+  doc.circle(toX(interaction.Mu_kip_ft), toY(interaction.Pu), 1, 'F');
+
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(7);
+  doc.text(`P (${unitLabel('force', units, true)})`, toX(0) + 1.5, y - 2);
+  doc.text(`M (${unitLabel('moment', units, true)})`, chartX + chartW, toY(0) - 1.5, { align: 'right' });
+  doc.text('(Mu, Pu)', toX(interaction.Mu_kip_ft) + 2, toY(interaction.Pu) + 1);
+  doc.text('dashed: Pn-Mn, solid: phi Pn-phi Mn', chartX, y + chartH + 4);
+
+  // Key values
+  const tableX = MARGIN_LEFT + 100;
+  let rowY = y + 3;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFontSize(8);
+  const rows = [
+    ['Po (zero eccentricity)', sheetQuantity(input, interaction.Po, 'force', 1)],
+    [`Pn,max = ${formatNumber(code.axialCapFactor, 2)} Po`, sheetQuantity(input, interaction.Pn_max, 'force', 1)],
+    ['phi Pn,max', sheetQuantity(input, interaction.phiPn_max, 'force', 1)],
+    [`Compression-controlled, phi = ${formatNumber(balanced.phi, 2)}`, sheetQuantity(input, balanced.phiPn, 'force', 1)],
+    ['', sheetQuantity(input, balanced.phiMn_kip_ft, 'moment', 1)],
+    [`Tension-controlled, phi = ${formatNumber(tensionControlled.phi, 2)}`, sheetQuantity(input, tensionControlled.phiPn, 'force', 1)],
+    ['', sheetQuantity(input, tensionControlled.phiMn_kip_ft, 'moment', 1)],
+    ['phi Pnt (pure tension)', sheetQuantity(input, points[points.length - 1].phiPn, 'force', 1)],
+  ];
+  rows.forEach(([label, value]) => {
+    doc.text(label, tableX, rowY);
+    doc.text(value, CONTENT_WIDTH + MARGIN_LEFT - 2, rowY, { align: 'right' });
+    rowY += 5;
+  });
 
+  rowY += 2;
+  const bgColor = pass ? [232, 245, 233] : [254, 215, 215];
+  doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+  doc.rect(tableX - 2, rowY - 4, CONTENT_WIDTH + MARGIN_LEFT - tableX, 8, 'F');
+  doc.setTextColor(...(pass ? SUCCESS_COLOR : ERROR_COLOR));
   doc.setFont('helvetica', 'bold');
-  doc.setFontSize(11);
-  doc.text(`phi x Mn = ${formatNumber(results.phiMn_kip_ft, 1)} kip-ft`, MARGIN_LEFT + CONTENT_WIDTH - 65, y + 8);
-  doc.setFontSize(10);
+  doc.text(pass ? '[OK]' : '[FAIL]', tableX, rowY + 1);
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.text(
+    `D/C at e = Mu/Pu: ${formatNumber(interaction.demandCapacityRatio, 3)}`,
+    tableX + 14,
+    rowY + 1
+  );
   doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
 
-  return y + 25;
+  return Math.max(y + chartH + 12, rowY + 10);
 }
 
-function drawReinforcementLimits(
+function drawShearAnalysis(
   doc: jsPDF,
   y: number,
   input: BeamInput,
   results: BeamResults
 ): number {
+  const { shear } = results;
+  const constants = SHEAR_CONSTANTS[input.unitSystem];
+  const force = (value: number) => sheetValue(input, value / 1000, 'force', 1);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
 
-  // Minimum reinforcement (needs ~35mm)
-  y = checkPageBreak(doc, y, 35);
+  // Concrete contribution (needs ~40mm)
+  y = checkPageBreak(doc, y, 40);
   doc.setFont('helvetica', 'bold');
-  doc.text('Minimum Reinforcement Ratio, rho_min', MARGIN_LEFT, y);
+  doc.text('Concrete Shear Strength, Vc', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 9.6.1.2', MARGIN_LEFT + 78, y);
+  doc.text('ACI 318-19 Table 22.5.5.1', MARGIN_LEFT + 60, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
 
   doc.setFillColor(250, 250, 250);
-  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 20, 'F');
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
 
-  doc.text("rho_min = max( 3 x sqrt(f'c) / fy , 200 / fy )", MARGIN_LEFT + 10, y + 4);
-  const rhoMin1 = (3 * Math.sqrt(input.fc)) / input.fy;
-  const rhoMin2 = 200 / input.fy;
+  const usesSizeEffect = !(shear.Av > 0 && shear.Av >= shear.Av_min);
   doc.text(
-    `rho_min = max( ${formatNumber(rhoMin1, 5)} , ${formatNumber(rhoMin2, 5)} )`,
+    usesSizeEffect
+      ? `Av < Av,min:  Vc = ${constants.vcRho} x ls x l x (rho_w)^(1/3) x sqrt(f'c) x bw x d`
+      : `Av >= Av,min:  Vc = max(${constants.vcMin} x l x sqrt(f'c), ${constants.vcRho} x l x (rho_w)^(1/3) x sqrt(f'c)) x bw x d`,
     MARGIN_LEFT + 10,
-    y + 12
+    y + 4
+  );
+  doc.text(
+    `rho_w = ${formatNumber(shear.rho_w, 5)},  l = ${formatNumber(input.lambda, 2)},  ls = sqrt(2 / (1 + d/${constants.sizeEffectDepth})) = ${formatNumber(shear.lambda_s, 3)}`,
+    MARGIN_LEFT + 10,
+    y + 11
+  );
+  doc.text(
+    `Vc <= ${constants.vcMax} x l x sqrt(f'c) x bw x d;  sqrt(f'c) <= ${constants.sqrtFcMax} ${unitLabel('stress', input.unitSystem, true)} (Sec. 22.5.3.1)`,
+    MARGIN_LEFT + 10,
+    y + 18
   );
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`rho_min = ${(results.rho_min * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 12);
+  doc.text(`Vc = ${sheetQuantity(input, shear.Vc / 1000, 'force', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 11);
   doc.setFont('helvetica', 'normal');
 
-  y += 26;
+  y += 32;
 
-  // Maximum reinforcement (needs ~25mm)
-  y = checkPageBreak(doc, y, 25);
+  // Stirrup contribution (needs ~40mm)
+  y = checkPageBreak(doc, y, 40);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFont('helvetica', 'bold');
-  doc.text('Maximum Reinforcement Ratio, rho_max', MARGIN_LEFT, y);
+  doc.text('Stirrup Shear Strength, Vs', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...GRAY_COLOR);
   doc.setFontSize(8);
-  doc.text('ACI 318-19 Sec. 9.3.3.1 (et >= 0.004)', MARGIN_LEFT + 80, y);
+  doc.text('ACI 318-19 Sec. 22.5.8.5.3', MARGIN_LEFT + 55, y);
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
   y += 8;
 
   doc.setFillColor(250, 250, 250);
-  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 12, 'F');
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 26, 'F');
 
-  doc.text("rho_max = (0.85 x B1 x f'c / fy) x (ecu / (ecu + 0.004))", MARGIN_LEFT + 10, y + 5);
+  doc.text(
+    `Av = ${input.stirrupLegs} legs x ${formatBarSize(input.stirrupBar, input.unitSystem)} = ${sheetQuantity(input, shear.Av, 'area', 2)},  s = ${inputQuantity(input, input.stirrupSpacing, 'length')},  fyt = ${sheetQuantity(input, shear.fyt, 'stress', 0)}`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
+  doc.text('Vs = Av x fyt x d / s', MARGIN_LEFT + 10, y + 11);
+  doc.text(
+    `Vs,max = ${constants.vsMax} x sqrt(f'c) x bw x d = ${sheetQuantity(input, shear.Vs_max / 1000, 'force', 1)} (Sec. 22.5.1.2)`,
+    MARGIN_LEFT + 10,
+    y + 18
+  );
 
   doc.setFont('helvetica', 'bold');
-  doc.text(`rho_max = ${(results.rho_max * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 5);
+  doc.text(`Vs = ${sheetQuantity(input, shear.Vs / 1000, 'force', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 45, y + 11);
   doc.setFont('helvetica', 'normal');
 
-  y += 18;
+  y += 32;
 
-  // Actual reinforcement ratio
+  // Design strength (needs ~25mm)
+  y = checkPageBreak(doc, y, 25);
+  doc.setTextColor(...PRIMARY_COLOR);
   doc.setFont('helvetica', 'bold');
-  doc.text('Actual Reinforcement Ratio, rho', MARGIN_LEFT, y);
+  doc.text('Design Shear Strength, phi x Vn', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
-  y += 7;
+  y += 8;
 
-  doc.text(`rho = As / (b x d) = ${input.As} / (${input.b} x ${input.d})`, MARGIN_LEFT + 5, y);
+  doc.setFillColor(232, 245, 233);
+  doc.rect(MARGIN_LEFT + 5, y - 3, CONTENT_WIDTH - 10, 12, 'F');
+
+  doc.text(
+    `phi x Vn = ${formatNumber(shear.phi, 2)} x (${force(shear.Vc)} + ${force(Math.min(shear.Vs, shear.Vs_max))})`,
+    MARGIN_LEFT + 10,
+    y + 4
+  );
   doc.setFont('helvetica', 'bold');
-  doc.text(`rho = ${(results.rho * 100).toFixed(3)}%`, MARGIN_LEFT + CONTENT_WIDTH - 50, y);
+  doc.text(`phi x Vn = ${sheetQuantity(input, shear.phiVn / 1000, 'force', 1)}`, MARGIN_LEFT + CONTENT_WIDTH - 55, y + 4);
   doc.setFont('helvetica', 'normal');
 
-  y += 12;
+  y += 16;
 
-  // Checks section title (needs ~45mm for all checks)
-  y = checkPageBreak(doc, y, 45);
-  doc.setTextColor(...PRIMARY_COLOR);
+  // Checks (needs ~50mm)
+  y = checkPageBreak(doc, y, 50);
   doc.setFont('helvetica', 'bold');
-  doc.text('Code Compliance Checks:', MARGIN_LEFT, y);
+  doc.text('Shear Checks:', MARGIN_LEFT, y);
   doc.setFont('helvetica', 'normal');
   y += 8;
 
-  // Checks
   const checks = [
     {
-      label: 'Minimum Reinforcement',
-      condition: `rho >= rho_min: ${(results.rho * 100).toFixed(3)}% >= ${(results.rho_min * 100).toFixed(3)}%`,
-      pass: results.isAdequatelyReinforced,
+      label: 'Shear Strength',
+      condition: `phi x Vn >= Vu: ${force(shear.phiVn)} >= ${sheetQuantity(input, shear.Vu / 1000, 'force', 1)}`,
+      pass: shear.isStrengthAdequate,
     },
     {
-      label: 'Maximum Reinforcement',
-      condition: `rho <= rho_max: ${(results.rho * 100).toFixed(3)}% <= ${(results.rho_max * 100).toFixed(3)}%`,
-      pass: results.isNotOverReinforced,
+      label: 'Section Size',
+      condition: `Vu <= phi x (Vc + Vs,max): ${force(shear.Vu)} <= ${sheetQuantity(input, shear.phi * (shear.Vc + shear.Vs_max) / 1000, 'force', 1)}`,
+      pass: shear.isSectionAdequate,
     },
     {
-      label: 'Steel Yielding',
-      condition: `et >= ey: ${formatNumber(results.epsilon_t, 5)} >= ${formatNumber(results.epsilon_y, 5)}`,
-      pass: results.steelYields,
+      label: 'Stirrup Spacing',
+      condition: `s <= s,max: ${inputValue(input, input.stirrupSpacing, 'length')} <= ${sheetQuantity(input, shear.s_max, 'length', 2)} (Table 9.7.6.2.2)`,
+      pass: shear.isSpacingAdequate,
+    },
+    {
+      label: 'Minimum Av',
+      condition: shear.isAvMinRequired
+        ? `Av >= Av,min: ${sheetValue(input, shear.Av, 'area', 2)} >= ${sheetQuantity(input, shear.Av_min, 'area', 2)} (Table 9.6.3.4)`
+        : "Not required, Vu <= phi x l x sqrt(f'c) x bw x d",
+      pass: shear.isAvMinSatisfied,
     },
   ];
 
@@ -659,7 +2480,7 @@ function drawReinforcementLimits(
   return y + 5;
 }
 
-function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
+function drawSummary(doc: jsPDF, y: number, input: BeamInput, results: BeamResults): number {
   doc.setTextColor(...PRIMARY_COLOR);
   doc.setFontSize(10);
 
@@ -674,11 +2495,17 @@ function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
   doc.text('DESIGN MOMENT CAPACITY', MARGIN_LEFT + 5, y + 8);
 
   doc.setFontSize(18);
-  doc.text(`phi x Mn = ${formatNumber(results.phiMn_kip_ft, 1)} kip-ft`, MARGIN_LEFT + 5, y + 22);
+  doc.text(`phi x Mn = ${sheetQuantity(input, results.phiMn_kip_ft, 'moment', 1)}`, MARGIN_LEFT + 5, y + 22);
 
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`(${formatNumber(results.phiMn / 1000, 1)} kip-in)`, MARGIN_LEFT + 5, y + 30);
+  doc.text(
+    input.unitSystem === 'SI'
+      ? `(${formatInternalMoment(results.phiMn, 'SI')})`
+      : `(${formatNumber(results.phiMn / 1000, 1)} kip-in)`,
+    MARGIN_LEFT + 5,
+    y + 30
+  );
 
   // Status
   const statusColor = results.sectionType === 'tension-controlled' ? SUCCESS_COLOR :
@@ -691,20 +2518,21 @@ function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
   let statusText = '';
   switch (results.sectionType) {
     case 'tension-controlled':
-      statusText = 'SECTION IS TENSION-CONTROLLED (phi = 0.90)';
+      statusText = `SECTION IS TENSION-CONTROLLED (phi = ${formatNumber(results.phi, 2)})`;
       break;
     case 'transition':
       statusText = `SECTION IN TRANSITION ZONE (phi = ${formatNumber(results.phi, 3)})`;
       break;
     case 'compression-controlled':
-      statusText = 'SECTION IS COMPRESSION-CONTROLLED (phi = 0.65)';
+      statusText = `SECTION IS COMPRESSION-CONTROLLED (phi = ${formatNumber(results.phi, 2)})`;
       break;
   }
 
   doc.text(statusText, MARGIN_LEFT + CONTENT_WIDTH - 5, y + 14, { align: 'right' });
 
   // All checks passed?
-  const allPassed = results.isAdequatelyReinforced && results.isNotOverReinforced && results.steelYields;
+  const allPassed = results.isAdequatelyReinforced && results.isNotOverReinforced && results.steelYields
+    && results.isMomentAdequate && results.crackControl.isSpacingAdequate;
   doc.setFontSize(10);
   const statusResultColor = allPassed ? SUCCESS_COLOR : ERROR_COLOR;
   doc.setTextColor(...statusResultColor);
@@ -717,6 +2545,33 @@ function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
 
   y += 45;
 
+  // Demand vs capacity
+  if (results.hasMomentDemand) {
+    const pass = results.isMomentAdequate;
+    const bgColor = !pass ? [254, 215, 215] : results.isNearCapacity ? [254, 235, 200] : [232, 245, 233];
+    doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
+    doc.rect(MARGIN_LEFT, y - 4, CONTENT_WIDTH, 10, 'F');
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(...(pass ? SUCCESS_COLOR : ERROR_COLOR));
+    doc.text(pass ? '[OK]' : '[FAIL]', MARGIN_LEFT + 3, y + 2);
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.text(
+      `phi x Mn >= Mu: ${sheetQuantity(input, results.phiMn_kip_ft, 'moment', 1)} ${pass ? '>=' : '<'} ${sheetQuantity(input, results.Mu_kip_ft, 'moment', 1)}`,
+      MARGIN_LEFT + 20,
+      y + 2
+    );
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `D/C = ${formatNumber(results.demandCapacityRatio, 3)}`,
+      MARGIN_LEFT + CONTENT_WIDTH - 5,
+      y + 2,
+      { align: 'right' }
+    );
+    y += 14;
+  }
+
   // Warnings
   if (results.warnings.length > 0) {
     doc.setTextColor(...WARNING_COLOR);
@@ -728,7 +2583,7 @@ function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
 
     results.warnings.forEach((warning) => {
       // Clean up warning text - remove Greek symbols
-      const cleanWarning = warning
+      const cleanWarning = formatCodeCheck(warning)
         .replace(/ρ/g, 'rho')
         .replace(/ε/g, 'e')
         .replace(/φ/g, 'phi')
@@ -745,7 +2600,234 @@ function drawSummary(doc: jsPDF, y: number, results: BeamResults): number {
   return y + 5;
 }
 
-function drawFooter(doc: jsPDF): void {
+/**
+ * Package cover sheet with the company branding, the project details, the
+ * beams included and spaces for the preparer and checker
+ */
+function drawCoverSheet(doc: jsPDF, beams: PDFBeam[], options: PDFExportOptions): void {
+  const {
+    projectName = 'Reinforced Concrete Beam Design',
+    projectNumber = '',
+    engineer = '',
+    date = new Date().toLocaleDateString(),
+    titleBlock = DEFAULT_TITLE_BLOCK,
+  } = options;
+  const included = beams.filter(({ results }) => results !== null);
+
+  if (hasBranding(titleBlock)) {
+    drawBranding(doc, MARGIN_TOP, titleBlock);
+  }
+  const codes = Array.from(new Set(included.map(({ input }) => formatCodeName(getDesignCode(input.designCode), input.unitSystem))));
+
+  // Title band
+  doc.setFillColor(...PRIMARY_COLOR);
+  doc.rect(MARGIN_LEFT, 40, CONTENT_WIDTH, 36, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.text('STRUCTURAL CALCULATIONS', PAGE_WIDTH / 2, 56, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text('Reinforced Concrete Beam Flexural Design', PAGE_WIDTH / 2, 67, { align: 'center' });
+
+  // Project
+  let y = 100;
+  doc.setTextColor(...PRIMARY_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  const titleLines: string[] = doc.splitTextToSize(sheetText(projectName), CONTENT_WIDTH - 20);
+  titleLines.forEach((line) => {
+    doc.text(line, PAGE_WIDTH / 2, y, { align: 'center' });
+    y += 8;
+  });
+  y += 8;
+
+  const details = [
+    ['Project No.', projectNumber || 'N/A'],
+    ['Client', sheetText(titleBlock.client) || 'N/A'],
+    ['Engineer', sheetText(engineer) || 'N/A'],
+    ['Checker', sheetText(titleBlock.checker) || 'N/A'],
+    ['Date', date],
+    ['Beams', `${included.length}${included.length < beams.length ? ` of ${beams.length} (incomplete beams omitted)` : ''}`],
+    ['Design Code', codes.join(', ') || 'N/A'],
+  ];
+  doc.setFillColor(247, 250, 252);
+  doc.setDrawColor(...GRAY_COLOR);
+  doc.setLineWidth(0.3);
+  doc.rect(MARGIN_LEFT + 20, y, CONTENT_WIDTH - 40, details.length * 8 + 6, 'FD');
+  doc.setFontSize(10);
+  details.forEach(([label, value], index) => {
+    const rowY = y + 9 + index * 8;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, MARGIN_LEFT + 28, rowY);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, MARGIN_LEFT + 65, rowY);
+  });
+
+  // Preparer and checker
+  const boxY = MAX_Y - 40;
+  const boxWidth = (CONTENT_WIDTH - 10) / 2;
+  ['Prepared by', 'Checked by'].forEach((label, index) => {
+    const x = MARGIN_LEFT + index * (boxWidth + 10);
+    doc.setDrawColor(...GRAY_COLOR);
+    doc.rect(x, boxY, boxWidth, 32, 'S');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(label, x + 4, boxY + 7);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...GRAY_COLOR);
+    doc.text('Name:', x + 4, boxY + 16);
+    doc.text('Signature:', x + 4, boxY + 23);
+    doc.text('Date:', x + 4, boxY + 30);
+    doc.setTextColor(...PRIMARY_COLOR);
+    const name = index === 0 ? engineer : titleBlock.checker;
+    if (name) {
+      doc.text(sheetText(name), x + 22, boxY + 16);
+    }
+  });
+}
+
+/**
+ * Table of contents on the reserved pages, with each entry linked to its page
+ */
+function drawContents(doc: jsPDF, firstPage: number, entries: { title: string; page: number }[]): void {
+  entries.forEach(({ title, page }, index) => {
+    const row = index % CONTENTS_ROWS_PER_PAGE;
+    if (row === 0) {
+      doc.setPage(firstPage + index / CONTENTS_ROWS_PER_PAGE);
+      drawSectionTitle(doc, MARGIN_TOP, index === 0 ? 'TABLE OF CONTENTS' : 'TABLE OF CONTENTS (CONTINUED)');
+    }
+    const y = MARGIN_TOP + 20 + row * 8;
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(title, MARGIN_LEFT + 3, y);
+    doc.text(String(page), MARGIN_LEFT + CONTENT_WIDTH - 3, y, { align: 'right' });
+
+    // Dot leader between the title and the page number
+    doc.setTextColor(...GRAY_COLOR);
+    const leaderStart = MARGIN_LEFT + 3 + doc.getTextWidth(title) + 2;
+    const leaderEnd = MARGIN_LEFT + CONTENT_WIDTH - 5 - doc.getTextWidth(String(page));
+    const dotWidth = doc.getTextWidth('.');
+    const dots = Math.max(0, Math.floor((leaderEnd - leaderStart) / dotWidth));
+    doc.text('.'.repeat(dots), leaderEnd, y, { align: 'right' });
+
+    doc.link(MARGIN_LEFT, y - 5, CONTENT_WIDTH, 7, { pageNumber: page });
+  });
+}
+
+/**
+ * Summary schedule of every beam on the reserved pages: section,
+ * reinforcement, capacity against demand, status and the page of its
+ * calculation. Values are in each beam's own units.
+ */
+function drawSummarySchedule(doc: jsPDF, firstPage: number, beams: (PDFBeam & { page: number | null })[]): void {
+  // Column left edges, or right edges for right-aligned values
+  const columns = {
+    beam: MARGIN_LEFT + 2,
+    section: MARGIN_LEFT + 22,
+    tension: MARGIN_LEFT + 50,
+    compression: MARGIN_LEFT + 80,
+    phiMn: MARGIN_LEFT + 126,
+    Mu: MARGIN_LEFT + 148,
+    ratio: MARGIN_LEFT + 160,
+    status: MARGIN_LEFT + 163,
+    page: MARGIN_LEFT + CONTENT_WIDTH - 2,
+  };
+  const right = { align: 'right' as const };
+  let y = MARGIN_TOP;
+
+  const drawHeaderRow = (title: string) => {
+    y = drawSectionTitle(doc, MARGIN_TOP, title);
+    doc.setFillColor(237, 242, 247);
+    doc.rect(MARGIN_LEFT, y - 4, CONTENT_WIDTH, 7, 'F');
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.text('Beam', columns.beam, y);
+    doc.text('b x h', columns.section, y);
+    doc.text('Tension Steel', columns.tension, y);
+    doc.text('Comp. Steel', columns.compression, y);
+    doc.text('phi Mn', columns.phiMn, y, right);
+    doc.text('Mu', columns.Mu, y, right);
+    doc.text('D/C', columns.ratio, y, right);
+    doc.text('Status', columns.status, y);
+    doc.text('Page', columns.page, y, right);
+    doc.setFont('helvetica', 'normal');
+    y += 7;
+  };
+
+  if (beams.length === 0) {
+    doc.setPage(firstPage);
+    drawHeaderRow('BEAM SCHEDULE SUMMARY');
+  }
+
+  beams.forEach(({ name, input, results, page }, index) => {
+    const row = index % SCHEDULE_ROWS_PER_PAGE;
+    if (row === 0) {
+      doc.setPage(firstPage + index / SCHEDULE_ROWS_PER_PAGE);
+      drawHeaderRow(index === 0 ? 'BEAM SCHEDULE SUMMARY' : 'BEAM SCHEDULE SUMMARY (CONTINUED)');
+    }
+
+    if (row % 2 === 1) {
+      doc.setFillColor(247, 250, 252);
+      doc.rect(MARGIN_LEFT, y - 4.5, CONTENT_WIDTH, 7, 'F');
+    }
+
+    const section = orientSection(input);
+    const isAdequate = isBeamAdequate(results);
+    const ratio = results?.interaction
+      ? formatNumber(results.interaction.demandCapacityRatio, 3)
+      : results?.hasMomentDemand ? formatNumber(results.demandCapacityRatio, 3) : '-';
+    const fit = (text: string, width: number) => doc.splitTextToSize(text, width)[0] as string;
+
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.text(fit(sheetText(name), 19), columns.beam, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${inputValue(input, input.b, 'length')} x ${inputQuantity(input, input.h, 'length')}`, columns.section, y);
+    doc.text(fit(describeLayers(section.tensionLayers, input.unitSystem), 29), columns.tension, y);
+    doc.text(fit(describeLayers(section.compressionLayers, input.unitSystem), 27), columns.compression, y);
+    doc.text(results ? sheetQuantity(input, results.phiMn_kip_ft, 'moment', 1) : '-', columns.phiMn, y, right);
+    doc.text(input.Mu > 0 ? sheetQuantity(input, input.Mu, 'moment', 1) : '-', columns.Mu, y, right);
+    doc.text(ratio, columns.ratio, y, right);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...(results ? (isAdequate ? SUCCESS_COLOR : ERROR_COLOR) : GRAY_COLOR));
+    doc.text(results ? (isAdequate ? 'OK' : 'NG') : 'N/A', columns.status, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...PRIMARY_COLOR);
+    doc.text(page === null ? '-' : String(page), columns.page, y, right);
+    if (page !== null) {
+      doc.link(MARGIN_LEFT, y - 4.5, CONTENT_WIDTH, 7, { pageNumber: page });
+    }
+    y += 7;
+  });
+
+  doc.setTextColor(...GRAY_COLOR);
+  doc.setFontSize(7);
+  doc.text(
+    'NG: Mu exceeds phi Mn, the axial load is outside the interaction diagram, or an input error was found. ' +
+      'N/A: incomplete input, not included.',
+    MARGIN_LEFT,
+    y + 2
+  );
+}
+
+/**
+ * Code reference line of a beam's pages
+ */
+function codeReference(input: BeamInput): string {
+  const code = getDesignCode(input.designCode);
+  return `${formatCodeName(code, input.unitSystem)} ${code.title}`;
+}
+
+/**
+ * Draw the footer of every page, numbered through the whole document
+ * @param referenceFor - code reference line of a page
+ */
+function drawFooter(doc: jsPDF, referenceFor: (page: number) => string): void {
   const pageCount = doc.getNumberOfPages();
 
   for (let i = 1; i <= pageCount; i++) {
@@ -773,6 +2855,9 @@ function drawFooter(doc: jsPDF): void {
     });
 
     // Reference
-    doc.text('Reference: ACI 318-19 Building Code Requirements for Structural Concrete', MARGIN_LEFT, PAGE_HEIGHT - 10);
+    const reference = referenceFor(i);
+    if (reference) {
+      doc.text(`Reference: ${reference}`, MARGIN_LEFT, PAGE_HEIGHT - 10);
+    }
   }
 }
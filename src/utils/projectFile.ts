@@ -0,0 +1,375 @@
+import type { BarLayer, BeamEntry, BeamInput, ProjectInfo, Workspace } from '../types/beam';
+import {
+  CONCRETE_MODEL_OPTIONS,
+  DEFAULT_BEAM_INPUT,
+  DEFAULT_PROJECT_INFO,
+  DEFLECTION_LIMIT_OPTIONS,
+  EXPOSURE_OPTIONS,
+  MOMENT_SIGN_OPTIONS,
+  REBAR_AREAS,
+  STEEL_MODEL_OPTIONS,
+  SUPPORT_OPTIONS,
+} from '../types/beam';
+import { DESIGN_CODES } from './designCodes';
+
+/**
+ * Project Files
+ * Saves the project workspace (metadata and every beam with its code/unit
+ * settings) as JSON:
+ *
+ *   { format, version, savedAt, project: ProjectInfo, activeId,
+ *     beams: [{ id, name, settings: { unitSystem, designCode },
+ *               input: other BeamInput fields }] }
+ *
+ * Values are stored in US customary units, as in BeamInput. Files from
+ * earlier versions are upgraded step by step through MIGRATIONS; input
+ * fields added since a file was saved take their default values.
+ */
+
+export const PROJECT_FILE_FORMAT = 'beam-section-calculator-project';
+export const PROJECT_FILE_VERSION = 2;
+
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Problem with one field of a project file
+ */
+export interface ProjectFileError {
+  field: string;   // path in the file, e.g. 'beams[0].input.tensionLayers[0].count'
+  message: string;
+}
+
+export type ProjectFileResult =
+  | { ok: true; workspace: Workspace }
+  | { ok: false; errors: ProjectFileError[] };
+
+// Project read as far as possible: fields with errors keep their defaults;
+// workspace is null if nothing could be read
+export interface RestoredProject {
+  workspace: Workspace | null;
+  errors: ProjectFileError[];
+}
+
+/**
+ * Upgrades of the file layout, keyed by the version they upgrade from.
+ * When the layout changes, bump PROJECT_FILE_VERSION and add the step from
+ * the previous version here.
+ */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  // Version 1 held a single beam with its settings and input at the top level
+  1: ({ settings, input, ...file }) => ({
+    ...file,
+    beams: [{ id: 'beam-1', name: 'B-1', settings, input }],
+    activeId: 'beam-1',
+  }),
+};
+
+// Input fields stored under settings rather than input
+const SETTINGS_FIELDS: (keyof BeamInput)[] = ['unitSystem', 'designCode'];
+
+// Allowed values of the enumerated input fields
+const CHOICES: Partial<Record<keyof BeamInput, readonly string[]>> = {
+  unitSystem: ['US', 'SI'],
+  designCode: Object.keys(DESIGN_CODES),
+  sectionShape: ['rectangular', 'T', 'L'],
+  momentSign: MOMENT_SIGN_OPTIONS.map(({ value }) => value),
+  exposure: EXPOSURE_OPTIONS.map(({ value }) => value),
+  supportCondition: SUPPORT_OPTIONS.map(({ value }) => value),
+  deflectionLimitCase: DEFLECTION_LIMIT_OPTIONS.map(({ value }) => value),
+  concreteModel: CONCRETE_MODEL_OPTIONS.map(({ value }) => value),
+  steelModel: STEEL_MODEL_OPTIONS.map(({ value }) => value),
+  stirrupBar: Object.keys(REBAR_AREAS),
+  slabBar: Object.keys(REBAR_AREAS),
+};
+
+// Numeric fields that must be greater than zero; other numbers must be 0 or more
+// except the axial load Pu, which is negative in tension
+const POSITIVE_FIELDS: (keyof BeamInput)[] = ['b', 'h', 'fc', 'fy', 'Es', 'lambda', 'extremeFiberStrain'];
+const SIGNED_FIELDS: (keyof BeamInput)[] = ['Pu'];
+
+// Percentages, at most 100
+const PERCENT_FIELDS: (keyof BeamInput)[] = ['sustainedLive', 'demandMargin'];
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check the range of a numeric field value, returning the problem if there is one
+ */
+export function checkRange(key: keyof BeamInput, value: number): string | null {
+  if (POSITIVE_FIELDS.includes(key) && value <= 0) return 'must be greater than 0';
+  if (!POSITIVE_FIELDS.includes(key) && !SIGNED_FIELDS.includes(key) && value < 0) return 'must be 0 or more';
+  if (PERCENT_FIELDS.includes(key) && value > 100) return 'must be a percentage of 100 or less';
+  return null;
+}
+
+/**
+ * Out-of-range values of a beam input, e.g. a cleared field read as 0.
+ * Files and links keep such values as entered; the analysis reports them.
+ */
+export function checkInputRanges(input: BeamInput): ProjectFileError[] {
+  const errors: ProjectFileError[] = [];
+  (Object.keys(DEFAULT_BEAM_INPUT) as (keyof BeamInput)[]).forEach((key) => {
+    const value = input[key];
+    const message = typeof value === 'number' ? checkRange(key, value) : null;
+    if (message) errors.push({ field: key, message });
+  });
+  (['tensionLayers', 'compressionLayers'] as const).forEach((key) => {
+    input[key].forEach((layer, i) => {
+      if (layer.count < 0) errors.push({ field: `${key}[${i}].count`, message: 'must be 0 or more' });
+      if (layer.depth < 0) errors.push({ field: `${key}[${i}].depth`, message: 'must be 0 or more' });
+    });
+  });
+  return errors;
+}
+
+/**
+ * Read a list of bar layers, reporting each invalid layer property
+ */
+function readLayers(value: unknown, field: string, errors: ProjectFileError[]): BarLayer[] | null {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: 'must be a list of bar layers' });
+    return null;
+  }
+  const count = errors.length;
+  const layers = value.map((layer: unknown, i) => {
+    const path = `${field}[${i}]`;
+    if (!isObject(layer)) {
+      errors.push({ field: path, message: 'must be a bar layer with barSize, count and depth' });
+      return null;
+    }
+    if (typeof layer.barSize !== 'string' || !(layer.barSize in REBAR_AREAS)) {
+      errors.push({ field: `${path}.barSize`, message: `must be one of ${Object.keys(REBAR_AREAS).join(', ')}` });
+    }
+    if (!isFiniteNumber(layer.count) || !Number.isInteger(layer.count)) {
+      errors.push({ field: `${path}.count`, message: 'must be a whole number of bars' });
+    }
+    if (!isFiniteNumber(layer.depth)) {
+      errors.push({ field: `${path}.depth`, message: 'must be a number' });
+    }
+    return { barSize: layer.barSize, count: layer.count, depth: layer.depth } as BarLayer;
+  });
+  return errors.length === count ? (layers as BarLayer[]) : null;
+}
+
+/**
+ * Read beam input fields, checking each against the type of its default.
+ * Missing fields keep the default; unknown fields are ignored. Numbers out of
+ * range are kept, since the form can hold them, and left to the analysis to
+ * report (see checkInputRanges). Also used for shared links.
+ * @param fieldName - path of a field in the source, for the error list
+ */
+export function readBeamInput(
+  values: JsonObject,
+  errors: ProjectFileError[],
+  fieldName: (key: keyof BeamInput) => string = (key) => key
+): BeamInput {
+  const input: JsonObject = { ...DEFAULT_BEAM_INPUT };
+  (Object.keys(DEFAULT_BEAM_INPUT) as (keyof BeamInput)[]).forEach((key) => {
+    const value = values[key];
+    const field = fieldName(key);
+    const fallback = DEFAULT_BEAM_INPUT[key];
+    const choices = CHOICES[key];
+    if (value === undefined) return;
+
+    if (Array.isArray(fallback)) {
+      const layers = readLayers(value, field, errors);
+      if (layers) input[key] = layers;
+    } else if (choices) {
+      if (typeof value === 'string' && choices.includes(value)) {
+        input[key] = value;
+      } else {
+        errors.push({ field, message: `must be one of ${choices.join(', ')}` });
+      }
+    } else if (typeof fallback === 'number') {
+      if (isFiniteNumber(value)) {
+        input[key] = value;
+      } else {
+        errors.push({ field, message: 'must be a number' });
+      }
+    } else if (typeof value !== typeof fallback) {
+      errors.push({ field, message: `must be ${typeof fallback === 'boolean' ? 'true or false' : 'text'}` });
+    } else {
+      input[key] = value;
+    }
+  });
+
+  return input as unknown as BeamInput;
+}
+
+/**
+ * Read the input of one beam of a project file
+ */
+function readInput(beam: JsonObject, path: string, errors: ProjectFileError[]): BeamInput {
+  const settings = isObject(beam.settings) ? beam.settings : {};
+  const values: JsonObject = isObject(beam.input) ? { ...beam.input } : {};
+  if (!isObject(beam.input)) {
+    errors.push({ field: `${path}.input`, message: 'is missing or is not an object' });
+  }
+  SETTINGS_FIELDS.forEach((key) => {
+    values[key] = settings[key];
+  });
+
+  return readBeamInput(values, errors, (key) => `${path}.${SETTINGS_FIELDS.includes(key) ? 'settings' : 'input'}.${key}`);
+}
+
+/**
+ * Read the list of beams; each needs a unique id and a name. Beams that are
+ * not objects are left out, and a bad id or name is replaced.
+ */
+function readBeams(file: JsonObject, errors: ProjectFileError[]): BeamEntry[] {
+  if (!Array.isArray(file.beams) || file.beams.length === 0) {
+    errors.push({ field: 'beams', message: 'must be a list of at least one beam' });
+    return [];
+  }
+  const ids = new Set<string>();
+  return file.beams.map((beam: unknown, i) => {
+    const path = `beams[${i}]`;
+    if (!isObject(beam)) {
+      errors.push({ field: path, message: 'must be a beam with an id, name, settings and input' });
+      return null;
+    }
+    let id = `beam-restored-${i + 1}`;
+    if (typeof beam.id !== 'string' || beam.id === '') {
+      errors.push({ field: `${path}.id`, message: 'must be non-empty text' });
+    } else if (ids.has(beam.id)) {
+      errors.push({ field: `${path}.id`, message: `repeats the id of an earlier beam (${beam.id})` });
+    } else {
+      id = beam.id;
+    }
+    ids.add(id);
+    if (typeof beam.name !== 'string') {
+      errors.push({ field: `${path}.name`, message: 'must be text' });
+    }
+    const name = typeof beam.name === 'string' ? beam.name : `B-${i + 1}`;
+    return { id, name, input: readInput(beam, path, errors) };
+  }).filter((beam): beam is BeamEntry => beam !== null);
+}
+
+/**
+ * Read the project metadata; each entry is optional text
+ */
+function readProject(file: JsonObject, errors: ProjectFileError[]): ProjectInfo {
+  const values = isObject(file.project) ? file.project : {};
+  const project = { ...DEFAULT_PROJECT_INFO };
+  (Object.keys(DEFAULT_PROJECT_INFO) as (keyof ProjectInfo)[]).forEach((key) => {
+    const value = values[key];
+    if (value === undefined) return;
+    if (typeof value === 'string') {
+      project[key] = value;
+    } else {
+      errors.push({ field: `project.${key}`, message: 'must be text' });
+    }
+  });
+  return project;
+}
+
+/**
+ * Serialize the workspace as a project file
+ */
+export function serializeProject(workspace: Workspace): string {
+  const beams = workspace.beams.map(({ id, name, input }) => {
+    const { unitSystem, designCode, ...values } = input;
+    return { id, name, settings: { unitSystem, designCode }, input: values };
+  });
+  return JSON.stringify(
+    {
+      format: PROJECT_FILE_FORMAT,
+      version: PROJECT_FILE_VERSION,
+      savedAt: new Date().toISOString(),
+      project: workspace.project,
+      activeId: workspace.activeId,
+      beams,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse a project file, upgrading earlier versions
+ * Returns the field-level errors instead of throwing for malformed files.
+ */
+export function parseProject(text: string): ProjectFileResult {
+  const { workspace, errors } = restoreProject(text);
+  return workspace && errors.length === 0 ? { ok: true, workspace } : { ok: false, errors };
+}
+
+/**
+ * Read as much of a project file as possible, for data that must not be lost
+ * over one bad value: fields with errors keep their defaults and beams that
+ * cannot be read are left out. The errors list what was not restored.
+ */
+export function restoreProject(text: string): RestoredProject {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { workspace: null, errors: [{ field: 'file', message: 'is not valid JSON' }] };
+  }
+
+  if (!isObject(file) || file.format !== PROJECT_FILE_FORMAT) {
+    return { workspace: null, errors: [{ field: 'format', message: 'is not a beam section calculator project file' }] };
+  }
+
+  let version = file.version;
+  if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+    return { workspace: null, errors: [{ field: 'version', message: 'must be a whole number of 1 or more' }] };
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    return {
+      workspace: null,
+      errors: [{ field: 'version', message: `${version} was saved by a newer release (this release reads up to version ${PROJECT_FILE_VERSION})` }],
+    };
+  }
+
+  let upgraded: JsonObject = file;
+  while (version < PROJECT_FILE_VERSION) {
+    upgraded = MIGRATIONS[version](upgraded);
+    version += 1;
+  }
+
+  const errors: ProjectFileError[] = [];
+  const beams = readBeams(upgraded, errors);
+  const project = readProject(upgraded, errors);
+  if (beams.length === 0) {
+    return { workspace: null, errors };
+  }
+
+  // An unknown active beam falls back to the first
+  const activeId = beams.some(({ id }) => id === upgraded.activeId) ? (upgraded.activeId as string) : beams[0].id;
+  return { workspace: { project, beams, activeId }, errors };
+}
+
+/**
+ * File name for a saved project, following the PDF naming
+ */
+export function projectFileName(project: ProjectInfo): string {
+  return project.projectNumber ? `Beam_Calc_${project.projectNumber}.json` : 'Beam_Section_Project.json';
+}
+
+/**
+ * Download the project file from the browser
+ */
+export function saveProjectFile(workspace: Workspace): void {
+  const blob = new Blob([serializeProject(workspace)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = projectFileName(workspace.project);
+  link.click();
+  // Revoking at once can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Read and parse a project file chosen by the user
+ */
+export async function openProjectFile(file: File): Promise<ProjectFileResult> {
+  return parseProject(await file.text());
+}
@@ -0,0 +1,312 @@
+import type { BarLayer, BeamInput, CodeCheckItem, ExposureCondition, UnitSystem } from '../types/beam';
+import { REBAR_AREAS, REBAR_DIAMETERS } from '../types/beam';
+import { formatBarSize, formatQuantity, toCustomary } from './units';
+
+/**
+ * Reinforcement Layout
+ * Derives steel areas and depths from the discrete bar layers
+ */
+
+/**
+ * Detailing limits of ACI 318-19 (in) and ACI 318M-19 (mm)
+ */
+const DETAILING_LIMITS: Record<UnitSystem, {
+  clearSpacing: number; // between bars and between layers, Sections 25.2.1 and 25.2.2
+  cover: {              // Table 20.5.1.3.1
+    interior: number;
+    exteriorLarge: number;
+    exteriorSmall: number;
+    castAgainstEarth: number;
+  };
+}> = {
+  US: { clearSpacing: 1, cover: { interior: 1.5, exteriorLarge: 2, exteriorSmall: 1.5, castAgainstEarth: 3 } },
+  SI: { clearSpacing: 25, cover: { interior: 40, exteriorLarge: 50, exteriorSmall: 40, castAgainstEarth: 75 } },
+};
+
+/**
+ * Minimum clear spacing between layers per ACI 318-19 Section 25.2.2 (in)
+ */
+function calculateMinLayerClearSpacing(units: UnitSystem): number {
+  return toCustomary(DETAILING_LIMITS[units].clearSpacing, 'length', units);
+}
+
+/**
+ * Steel areas and depths derived from the bar layers
+ */
+export interface ReinforcementSummary {
+  As: number;       // total tension steel area (sq in)
+  d: number;        // depth to centroid of tension steel (in)
+  dt: number;       // depth to extreme tension layer (in)
+  As_prime: number; // total compression steel area (sq in)
+  d_prime: number;  // depth to centroid of compression steel (in)
+}
+
+/**
+ * Calculate total bar area of a layer
+ */
+export function calculateLayerArea(layer: BarLayer): number {
+  return (REBAR_AREAS[layer.barSize] ?? 0) * layer.count;
+}
+
+/**
+ * Calculate total area and centroid depth of a group of layers
+ */
+export function calculateLayerCentroid(layers: BarLayer[]): { area: number; depth: number } {
+  const area = layers.reduce((sum, layer) => sum + calculateLayerArea(layer), 0);
+  if (area <= 0) {
+    return { area: 0, depth: 0 };
+  }
+  const moment = layers.reduce((sum, layer) => sum + calculateLayerArea(layer) * layer.depth, 0);
+  return { area, depth: moment / area };
+}
+
+/**
+ * Derive As, d, dt, A's and d' from the bar layers
+ * d is the centroid of the tension steel (used for Mn); dt is the depth of
+ * the extreme tension layer (used for εt per ACI 318-19 Section 21.2.2)
+ */
+export function summarizeReinforcement(input: BeamInput): ReinforcementSummary {
+  const tension = calculateLayerCentroid(input.tensionLayers);
+  const compression = calculateLayerCentroid(input.compressionLayers);
+  const dt = input.tensionLayers.reduce(
+    (max, layer) => (layer.count > 0 ? Math.max(max, layer.depth) : max),
+    0
+  );
+
+  return {
+    As: tension.area,
+    d: tension.depth,
+    dt,
+    As_prime: compression.area,
+    d_prime: compression.depth,
+  };
+}
+
+/**
+ * Calculate the depth of the outermost layer from the clear cover
+ * Tension face:     depth = h − cover − ds − db/2
+ * Compression face: depth = cover + ds + db/2
+ */
+export function calculateOuterLayerDepth(
+  face: 'tension' | 'compression',
+  h: number,
+  clearCover: number,
+  stirrupBar: string,
+  barSize: string
+): number {
+  const offset = clearCover + (REBAR_DIAMETERS[stirrupBar] ?? 0) + (REBAR_DIAMETERS[barSize] ?? 0) / 2;
+  return face === 'tension' ? h - offset : offset;
+}
+
+/**
+ * Recalculate layer depths from the clear cover, stacking inner layers with
+ * 1 in. (25 mm) clear between layers per ACI 318-19 Section 25.2.2
+ */
+export function calculateLayerDepths(
+  face: 'tension' | 'compression',
+  layers: BarLayer[],
+  h: number,
+  clearCover: number,
+  stirrupBar: string,
+  units: UnitSystem = 'US'
+): BarLayer[] {
+  const direction = face === 'tension' ? -1 : 1;
+  let previous: BarLayer | null = null;
+
+  return layers.map((layer) => {
+    const depth: number = previous === null
+      ? calculateOuterLayerDepth(face, h, clearCover, stirrupBar, layer.barSize)
+      : previous.depth + direction * (
+          (REBAR_DIAMETERS[previous.barSize] ?? 0) / 2
+          + calculateMinLayerClearSpacing(units)
+          + (REBAR_DIAMETERS[layer.barSize] ?? 0) / 2
+        );
+    const placed = { ...layer, depth: Number(depth.toFixed(3)) };
+    previous = placed;
+    return placed;
+  });
+}
+
+/**
+ * Calculate minimum clear spacing between parallel bars per ACI 318-19 Section 25.2.1
+ * s,clear = max(1 in (25 mm), db, 4/3 · dagg)
+ */
+export function calculateMinClearSpacing(db: number, aggregateSize: number, units: UnitSystem = 'US'): number {
+  return Math.max(calculateMinLayerClearSpacing(units), db, (4 / 3) * aggregateSize);
+}
+
+/**
+ * Calculate maximum number of bars that fit in one layer
+ * n = floor((b − 2·cover − 2·ds + s) / (db + s)), where s is the minimum clear spacing
+ * and cover is the clear cover to the stirrup
+ */
+export function calculateMaxBarsPerLayer(
+  b: number,
+  db: number,
+  clearCover: number,
+  stirrupDiameter: number,
+  aggregateSize: number,
+  units: UnitSystem = 'US'
+): number {
+  const s = calculateMinClearSpacing(db, aggregateSize, units);
+  const available = b - 2 * clearCover - 2 * stirrupDiameter;
+  return Math.max(0, Math.floor((available + s) / (db + s)));
+}
+
+/**
+ * Calculate clear spacing between bars of a layer spaced evenly inside the stirrups
+ * s,clear = (b − 2·cover − 2·ds − n·db) / (n − 1)
+ */
+export function calculateLayerClearSpacing(
+  b: number,
+  layer: BarLayer,
+  clearCover: number,
+  stirrupDiameter: number
+): number {
+  const db = REBAR_DIAMETERS[layer.barSize] ?? 0;
+  const available = b - 2 * clearCover - 2 * stirrupDiameter - layer.count * db;
+  return layer.count > 1 ? available / (layer.count - 1) : available;
+}
+
+/**
+ * Minimum specified cover (in) for cast-in-place nonprestressed beams
+ * per ACI 318-19 Table 20.5.1.3.1
+ */
+export function calculateMinimumCover(
+  exposure: ExposureCondition,
+  barSize: string,
+  units: UnitSystem = 'US'
+): number {
+  const { cover } = DETAILING_LIMITS[units];
+  let value: number;
+  switch (exposure) {
+    case 'cast-against-earth':
+      value = cover.castAgainstEarth;
+      break;
+    case 'exterior':
+      // No. 6 (No. 19) through No. 18 (No. 57) bars: 2 in; No. 5 (No. 16) bar and smaller: 1.5 in
+      value = (REBAR_DIAMETERS[barSize] ?? 0) >= 0.75 ? cover.exteriorLarge : cover.exteriorSmall;
+      break;
+    default:
+      value = cover.interior;
+  }
+  return toCustomary(value, 'length', units);
+}
+
+/**
+ * Check the bar layout: bars per layer and horizontal clear spacing
+ * (Section 25.2.1), clear spacing between layers (Section 25.2.2), and
+ * minimum cover to stirrups and bars (Table 20.5.1.3.1). Bars are assumed
+ * spaced evenly inside the stirrups across the web width. Layers at the same
+ * depth, e.g. 3 #9 + 2 #8 in one row, are checked as a single row of bars.
+ */
+export function checkBarLayout(input: BeamInput): CodeCheckItem[] {
+  const { b, h, clearCover, stirrupBar, aggregateSize, exposure, unitSystem: units } = input;
+  const length = (value: number) => formatQuantity(value, 'length', units, 2);
+  const stirrupDiameter = REBAR_DIAMETERS[stirrupBar] ?? 0;
+  const items: CodeCheckItem[] = [];
+
+  const stirrupCover = calculateMinimumCover(exposure, stirrupBar, units);
+  if (clearCover < stirrupCover) {
+    items.push({
+      severity: 'warning',
+      message: `Clear cover to stirrups (${length(clearCover)}) is less than the minimum cover of ${length(stirrupCover)} per ACI 318-19 Table 20.5.1.3.1.`,
+      clause: 'ACI 318-19 Table 20.5.1.3.1',
+      target: { kind: 'stirrup' },
+    });
+  }
+
+  // In negative bending the layers are named by their face, as their roles are swapped
+  const faceNames = input.momentSign === 'negative'
+    ? { tension: 'Bottom', compression: 'Top' }
+    : { tension: 'Tension', compression: 'Compression' };
+
+  (['tension', 'compression'] as const).forEach((face) => {
+    const layers = face === 'tension' ? input.tensionLayers : input.compressionLayers;
+    let previous: BarLayer | null = null;
+
+    layers.forEach((layer, index) => {
+      if (layer.count <= 0) return;
+      const db = REBAR_DIAMETERS[layer.barSize] ?? 0;
+      const name = `${faceNames[face]} layer ${index + 1} (${layer.count} ${formatBarSize(layer.barSize, units)})`;
+      const target = { kind: 'layer', face, index } as const;
+      const row = layers.filter((other) => other.count > 0 && isSameDepth(other, layer));
+
+      // Bars per layer at the minimum clear spacing; a shared row is checked
+      // once, at its first layer, with the largest bar setting the spacing
+      const s_min = calculateMinClearSpacing(db, aggregateSize, units);
+      const maxBars = calculateMaxBarsPerLayer(b, db, clearCover, stirrupDiameter, aggregateSize, units);
+      if (row.length > 1) {
+        if (row[0] === layer) {
+          const rowDiameter = Math.max(...row.map((bar) => REBAR_DIAMETERS[bar.barSize] ?? 0));
+          const rowMin = calculateMinClearSpacing(rowDiameter, aggregateSize, units);
+          const bars = row.reduce((sum, bar) => sum + bar.count, 0);
+          const width = row.reduce((sum, bar) => sum + bar.count * (REBAR_DIAMETERS[bar.barSize] ?? 0), 0);
+          const s = (b - 2 * clearCover - 2 * stirrupDiameter - width) / (bars - 1);
+          if (s < rowMin) {
+            items.push({
+              severity: 'error',
+              message: `${faceNames[face]} bars ${describeLayers(row, units)} at the same depth do not fit in b = ${length(b)}. Clear spacing is ${length(s)}; minimum is ${length(rowMin)} per ACI 318-19 Section 25.2.1.`,
+              clause: 'ACI 318-19 25.2.1',
+              target,
+            });
+          }
+        }
+      } else if (layer.count > maxBars) {
+        const s = calculateLayerClearSpacing(b, layer, clearCover, stirrupDiameter);
+        items.push({
+          severity: 'error',
+          message: `${name} does not fit in b = ${length(b)}. Clear spacing is ${length(s)}; minimum is ${length(s_min)} per ACI 318-19 Section 25.2.1 (max. ${maxBars} bars per layer).`,
+          clause: 'ACI 318-19 25.2.1',
+          target,
+        });
+      }
+
+      // Cover to the bar: inside the stirrup at the sides, measured to the nearest face
+      const faceCover = face === 'tension' ? h - layer.depth - db / 2 : layer.depth - db / 2;
+      const barCover = Math.min(clearCover + stirrupDiameter, faceCover);
+      const requiredCover = calculateMinimumCover(exposure, layer.barSize, units);
+      if (barCover < requiredCover) {
+        items.push({
+          severity: 'warning',
+          message: `${name} has ${length(barCover)} cover, less than the minimum of ${length(requiredCover)} per ACI 318-19 Table 20.5.1.3.1.`,
+          clause: 'ACI 318-19 Table 20.5.1.3.1',
+          target,
+        });
+      }
+
+      // Clear distance to the adjacent layer, unless both are in one row
+      if (previous !== null && !isSameDepth(previous, layer)) {
+        const clear = Math.abs(layer.depth - previous.depth)
+          - db / 2 - (REBAR_DIAMETERS[previous.barSize] ?? 0) / 2;
+        if (clear < calculateMinLayerClearSpacing(units)) {
+          items.push({
+            severity: 'error',
+            message: `${name} is ${length(clear)} clear of the adjacent layer; minimum is ${length(calculateMinLayerClearSpacing(units))} per ACI 318-19 Section 25.2.2.`,
+            clause: 'ACI 318-19 25.2.2',
+            target,
+          });
+        }
+      }
+      previous = layer;
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Whether two layers are placed in one row
+ */
+function isSameDepth(a: BarLayer, b: BarLayer): boolean {
+  return Math.abs(a.depth - b.depth) < 1e-6;
+}
+
+/**
+ * Describe a group of layers for display, e.g. "3 #9 + 2 #8"
+ */
+export function describeLayers(layers: BarLayer[], units: UnitSystem = 'US'): string {
+  const active = layers.filter((layer) => layer.count > 0);
+  if (active.length === 0) return 'None';
+  return active.map((layer) => `${layer.count} ${formatBarSize(layer.barSize, units)}`).join(' + ');
+}
@@ -0,0 +1,372 @@
+import type { BarLayer, BeamInput, BeamResults, DesignCodeId, UnitSystem } from '../types/beam';
+import { DEFAULT_BEAM_INPUT } from '../types/beam';
+import type { Quantity } from './units';
+import { fromCustomary, parseBarSize, toCustomary, unitLabel } from './units';
+import { calculateOuterLayerDepth } from './reinforcement';
+import { calculateBeamResults, isBeamAdequate } from './workspace';
+
+/**
+ * Beam Schedule Import
+ * Reads a beam schedule exported from a BIM model as CSV or XLSX, maps its
+ * columns to beam input fields and analyzes every row. Each row becomes a
+ * rectangular, singly reinforced beam; fields the schedule does not give
+ * (cover, stirrups, loads) keep their defaults.
+ */
+
+// Schedule columns that can be mapped to input fields
+export type ScheduleField = 'mark' | 'b' | 'h' | 'd' | 'fc' | 'fy' | 'bars' | 'Mu';
+
+export interface ScheduleFieldInfo {
+  field: ScheduleField;
+  label: string;
+  required: boolean;
+  quantity?: Quantity;        // unit of the column, for numeric fields
+  range?: [number, number];   // plausible values in customary units, to catch a column in other units
+  aliases: string[];          // header names recognized, lower case without punctuation
+}
+
+export const SCHEDULE_FIELDS: ScheduleFieldInfo[] = [
+  { field: 'mark', label: 'Mark', required: false, aliases: ['mark', 'beam', 'beammark', 'id', 'name', 'tag', 'label'] },
+  { field: 'b', label: 'b', required: true, quantity: 'length', range: [4, 120], aliases: ['b', 'bw', 'width', 'beamwidth'] },
+  { field: 'h', label: 'h', required: true, quantity: 'length', range: [6, 240], aliases: ['h', 'height', 'depth', 'overalldepth', 'totaldepth'] },
+  { field: 'd', label: 'd', required: false, quantity: 'length', range: [3, 240], aliases: ['d', 'effectivedepth', 'deff'] },
+  { field: 'fc', label: "f'c", required: true, quantity: 'stress', range: [2000, 20000], aliases: ['fc', 'fck', 'concrete', 'concretestrength'] },
+  { field: 'fy', label: 'fy', required: true, quantity: 'stress', range: [30000, 120000], aliases: ['fy', 'fyk', 'steel', 'steelstrength', 'grade'] },
+  { field: 'bars', label: 'Bars', required: true, aliases: ['bars', 'bottombars', 'tensionbars', 'rebar', 'reinforcement', 'bottom'] },
+  { field: 'Mu', label: 'Mu', required: false, quantity: 'moment', aliases: ['mu', 'moment', 'factoredmoment', 'designmoment'] },
+];
+
+// Column index for each field, or null if the field is not in the schedule
+export type ColumnMapping = Record<ScheduleField, number | null>;
+
+export interface SpreadsheetRow {
+  number: number;   // row number in the file, for messages
+  cells: string[];
+}
+
+export interface Spreadsheet {
+  fileName: string;
+  header: string[];
+  rows: SpreadsheetRow[];
+}
+
+/**
+ * One analyzed schedule row. Input is null when the row could not be read.
+ */
+export interface ImportedBeam {
+  row: number;
+  mark: string;
+  input: BeamInput | null;
+  results: BeamResults | null;
+  errors: string[];
+  isAdequate: boolean;
+}
+
+/**
+ * Schedule being imported, with the column mapping and units chosen for it
+ */
+export interface ScheduleImportState {
+  sheet: Spreadsheet;
+  mapping: ColumnMapping;
+  units: UnitSystem;
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain the delimiter,
+ * doubled quotes and line breaks. The delimiter (comma, semicolon or tab) is
+ * taken from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let isQuoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (isQuoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Files of a ZIP archive by name, inflated with the browser's deflate support
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) {
+    throw new Error('The file is not a valid XLSX workbook.');
+  }
+
+  const files = new Map<string, string>();
+  const count = view.getUint16(end + 10, true);
+  let entry = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(entry + 10, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const extraLength = view.getUint16(entry + 30, true);
+    const commentLength = view.getUint16(entry + 32, true);
+    const local = view.getUint32(entry + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, entry + 46, nameLength));
+
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = new Uint8Array(buffer, start, size);
+    if (method === 0) {
+      files.set(name, new TextDecoder().decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, await new Response(stream).text());
+    }
+    entry += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity.toLowerCase()] ?? '';
+  });
+}
+
+// Text of the <t> runs in a shared or inline string
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), ([, text]) => decodeXml(text)).join('');
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1] ?? null;
+}
+
+/**
+ * Cell text of the first worksheet of an XLSX workbook
+ */
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await readZip(buffer);
+
+  // The first sheet of the workbook, through its relationship
+  const workbook = files.get('xl/workbook.xml') ?? '';
+  const relationships = files.get('xl/_rels/workbook.xml.rels') ?? '';
+  const sheetId = readAttribute(/<sheet\b([^>]*)>/.exec(workbook)?.[1] ?? '', 'r:id');
+  const target = Array.from(relationships.matchAll(/<Relationship\b([^>]*)>/g), ([, attributes]) => attributes)
+    .find((attributes) => readAttribute(attributes, 'Id') === sheetId);
+  const targetPath = target ? readAttribute(target, 'Target') : null;
+  const sheetPath = targetPath
+    ? (targetPath.startsWith('/') ? targetPath.slice(1) : `xl/${targetPath}`)
+    : 'xl/worksheets/sheet1.xml';
+  const sheet = files.get(sheetPath);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet.');
+  }
+
+  const sharedStrings = Array.from(
+    (files.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    ([, xml]) => readText(xml)
+  );
+
+  const rows: string[][] = [];
+  for (const [, rowAttributes, rowXml] of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = Number(readAttribute(rowAttributes, 'r') ?? rows.length + 1) - 1;
+    const cells: string[] = [];
+    for (const [, attributes, xml = ''] of (rowXml ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const column = (readAttribute(attributes, 'r')?.match(/^[A-Z]+/)?.[0] ?? '')
+        .split('')
+        .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+      const value = decodeXml(/<v>([\s\S]*?)<\/v>/.exec(xml)?.[1] ?? '');
+      const type = readAttribute(attributes, 't');
+      cells[column >= 0 ? column : cells.length] = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? readText(xml) : value;
+    }
+    rows[rowIndex] = Array.from(cells, (cell) => cell ?? '');
+  }
+  return Array.from(rows, (row) => row ?? []);
+}
+
+/**
+ * Read a CSV or XLSX schedule. The first non-blank row is the header.
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const table = isXlsx ? await readXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+
+  const rows = table
+    .map((cells, index) => ({ number: index + 1, cells: cells.map((cell) => cell.trim()) }))
+    .filter(({ cells }) => cells.some((cell) => cell !== ''));
+  if (rows.length < 2) {
+    throw new Error('The schedule needs a header row and at least one beam.');
+  }
+  return { fileName: file.name, header: rows[0].cells, rows: rows.slice(1) };
+}
+
+// Header text without units, punctuation or case, e.g. "f'c (psi)" -> 'fc'
+function normalizeHeader(header: string): string {
+  return header.replace(/\(.*?\)|\[.*?\]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Match schedule fields to columns by their header names
+ */
+export function guessMapping(header: string[]): ColumnMapping {
+  const names = header.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  SCHEDULE_FIELDS.forEach(({ field, aliases }) => {
+    const index = names.findIndex((name) => aliases.includes(name));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+/**
+ * Bar groups such as '4 #8', '3-#9 + 2-#8' or '4 No. 25', with sizes without
+ * '#' read in the schedule's units; null if not understood. Groups joined by
+ * '+' are bars of one row.
+ */
+export function parseBars(text: string, units: UnitSystem): Omit<BarLayer, 'depth'>[] | null {
+  const groups = text.split('+').map((group) => group.trim());
+  const bars = groups.map((group) => {
+    const match = /^(\d+)\s*(?:[-x\u00D7]\s*)?(.+)$/i.exec(group);
+    const barSize = match ? parseBarSize(match[2], units) : null;
+    return match && barSize && Number(match[1]) > 0 ? { barSize, count: Number(match[1]) } : null;
+  });
+  return bars.every((bar) => bar !== null) ? bars as Omit<BarLayer, 'depth'>[] : null;
+}
+
+// Number in a cell; thousands separators such as '4,000' are accepted
+function parseNumber(text: string): number | null {
+  const plain = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text) ? text.replace(/,/g, '') : text;
+  const value = plain === '' ? NaN : Number(plain);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Turn each schedule row into beam input and analyze it. Values are read in
+ * the given units; the beams take the given design code.
+ */
+export function analyzeSchedule(
+  sheet: Spreadsheet,
+  mapping: ColumnMapping,
+  units: UnitSystem,
+  designCode: DesignCodeId
+): ImportedBeam[] {
+  return sheet.rows.map(({ number, cells }) => {
+    const errors: string[] = [];
+    const cell = (field: ScheduleField) => {
+      const index = mapping[field];
+      return index === null ? '' : cells[index] ?? '';
+    };
+
+    // Numeric field in customary units; blank optional fields are null
+    const read = (field: ScheduleField): number | null => {
+      const { label, required, quantity, range } = SCHEDULE_FIELDS.find((info) => info.field === field)!;
+      const text = cell(field);
+      if (text === '') {
+        if (required) errors.push(`${label} is missing`);
+        return null;
+      }
+      const value = parseNumber(text);
+      if (value === null) {
+        errors.push(`${label} "${text}" is not a number`);
+        return null;
+      }
+      if (value < 0 || (required && value === 0)) {
+        errors.push(`${label} must be ${required ? 'greater than 0' : '0 or more'}`);
+        return null;
+      }
+      const customary = toCustomary(value, quantity!, units);
+      if (range && (customary < range[0] || customary > range[1])) {
+        const [min, max] = range.map((limit) => Number(fromCustomary(limit, quantity!, units).toPrecision(2)).toLocaleString());
+        errors.push(`${label} ${text} is outside ${min}\u2013${max} ${unitLabel(quantity!, units)}; check the units of the column`);
+        return null;
+      }
+      return customary;
+    };
+
+    const mark = cell('mark') || `Row ${number}`;
+    const b = read('b');
+    const h = read('h');
+    const d = read('d');
+    const fc = read('fc');
+    const fy = read('fy');
+    const Mu = read('Mu') ?? 0;
+    const bars = cell('bars') === '' ? null : parseBars(cell('bars'), units);
+    if (cell('bars') === '') {
+      errors.push('Bars is missing');
+    } else if (!bars) {
+      const example = units === 'SI' ? '4 No. 25 or 3-29 + 2-25' : '4 #8 or 3-#9 + 2-#8';
+      errors.push(`Bars "${cell('bars')}" not understood; use e.g. ${example} (CSA M sizes are not supported)`);
+    }
+    if (d !== null && h !== null && d >= h) {
+      errors.push('d must be less than h');
+    }
+
+    if (b === null || h === null || fc === null || fy === null || !bars || errors.length > 0) {
+      return { row: number, mark, input: null, results: null, errors, isAdequate: false };
+    }
+
+    // The bar groups form one row, at the scheduled effective depth or at the
+    // default cover to the largest bar
+    const depth = d ?? Math.min(...bars.map(({ barSize }) => calculateOuterLayerDepth(
+      'tension', h, DEFAULT_BEAM_INPUT.clearCover, DEFAULT_BEAM_INPUT.stirrupBar, barSize
+    )));
+    const tensionLayers = bars.map((bar) => ({ ...bar, depth: Number(depth.toFixed(3)) }));
+    const input: BeamInput = {
+      ...DEFAULT_BEAM_INPUT,
+      unitSystem: units,
+      designCode,
+      b,
+      h,
+      fc,
+      fy,
+      Mu,
+      Vu: 0, // shear is not part of a flexural schedule
+      tensionLayers,
+    };
+
+    const results = calculateBeamResults(input);
+    if (!results) {
+      errors.push('The section could not be analyzed; check d and the bars against h');
+    } else {
+      results.warnings
+        .filter(({ severity }) => severity === 'error')
+        .forEach(({ message }) => errors.push(message));
+    }
+    return { row: number, mark, input, results, errors, isAdequate: isBeamAdequate(results) };
+  });
+}
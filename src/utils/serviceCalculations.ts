@@ -0,0 +1,418 @@
+import type {
+  BarLayer,
+  BeamInput,
+  CrackControlResults,
+  DeflectionLimitCase,
+  DeflectionResults,
+  MinimumThicknessResults,
+  ServiceResults,
+  SupportCondition,
+  UnitSystem,
+} from '../types/beam';
+import { REBAR_DIAMETERS } from '../types/beam';
+import { calculateLayerArea, calculateLayerClearSpacing } from './reinforcement';
+import { fromCustomary, toCustomary } from './units';
+
+/**
+ * ACI 318-19 Serviceability Checks
+ * Crack control by bar spacing per Section 24.3.2, elastic section
+ * properties and member deflection per Section 24.2
+ */
+
+// Constants
+const XI_LONG_TERM = 2.0; // Time-dependent factor for 5 years or more, Table 24.2.4.1.3
+
+// Uniform load coefficients: Δ = k·w·ℓ⁴/(Ec·Ie), Ma = m·w·ℓ² (positive moment,
+// support moment for cantilevers)
+const SUPPORT_COEFFICIENTS: Record<SupportCondition, { k: number; m: number }> = {
+  'simple': { k: 5 / 384, m: 1 / 8 },
+  'one-end-continuous': { k: 1 / 185, m: 9 / 128 },
+  'both-ends-continuous': { k: 1 / 384, m: 1 / 24 },
+  'cantilever': { k: 1 / 8, m: 1 / 2 },
+};
+
+// Minimum depth ℓ/divisor for nonprestressed beams, Table 9.3.1.1
+const MIN_THICKNESS_DIVISORS: Record<SupportCondition, number> = {
+  'simple': 16,
+  'one-end-continuous': 18.5,
+  'both-ends-continuous': 21,
+  'cantilever': 8,
+};
+
+// Equilibrium density assumed for lightweight concrete (pcf), keyed by λ
+const LIGHTWEIGHT_DENSITY: Record<number, number> = {
+  0.85: 115, // sand-lightweight
+  0.75: 100, // all-lightweight
+};
+const KG_M3_PER_PCF = 16.018463;
+
+// Maximum permissible deflection ℓ/divisor, Table 24.2.2
+const DEFLECTION_LIMITS: Record<DeflectionLimitCase, number> = {
+  'flat-roof': 180,
+  'floor': 360,
+  'attached-sensitive': 480,
+  'attached-nonsensitive': 240,
+};
+
+/**
+ * Calculate maximum spacing of bars closest to the tension face
+ * per ACI 318-19 Table 24.3.2
+ * s = min(15·(40,000/fs) − 2.5·cc, 12·(40,000/fs)) in psi and in
+ * s = min(380·(280/fs) − 2.5·cc, 300·(280/fs)) in MPa and mm
+ */
+export function calculateMaxCrackControlSpacing(fs: number, cc: number, units: UnitSystem = 'US'): number {
+  if (fs <= 0) return Infinity;
+  const [k1, k2, fsRef] = units === 'SI' ? [380, 300, 280] : [15, 12, 40000];
+  const ratio = fsRef / fromCustomary(fs, 'stress', units);
+  const s = Math.min(k1 * ratio - 2.5 * fromCustomary(cc, 'length', units), k2 * ratio);
+  return toCustomary(s, 'length', units);
+}
+
+/**
+ * Crack control check for the outermost tension layer
+ * fs defaults to 2/3 fy per ACI 318-19 Section 24.3.2.1; cc is measured from
+ * the tension face to the surface of the bars in the extreme tension layer.
+ */
+export function analyzeCrackControl(input: BeamInput): CrackControlResults {
+  const { b, h, clearCover, stirrupBar, unitSystem: units } = input;
+  const fs = input.fs > 0 ? input.fs : (2 / 3) * input.fy;
+
+  // Extreme tension layer (deepest layer with bars)
+  const outer = input.tensionLayers
+    .filter((layer) => layer.count > 0)
+    .reduce<BarLayer | null>(
+      (deepest, layer) => (deepest === null || layer.depth > deepest.depth ? layer : deepest),
+      null
+    );
+
+  if (outer === null) {
+    return { fs, cc: 0, s: 0, s_max: calculateMaxCrackControlSpacing(fs, 0, units), isSpacingAdequate: true };
+  }
+
+  const db = REBAR_DIAMETERS[outer.barSize] ?? 0;
+  const cc = h - outer.depth - db / 2;
+  const stirrupDiameter = REBAR_DIAMETERS[stirrupBar] ?? 0;
+
+  // Center-to-center spacing of bars spaced evenly inside the stirrups
+  const s = outer.count > 1
+    ? calculateLayerClearSpacing(b, outer, clearCover, stirrupDiameter) + db
+    : 0;
+  const s_max = calculateMaxCrackControlSpacing(fs, cc, units);
+
+  return {
+    fs,
+    cc,
+    s,
+    s_max,
+    isSpacingAdequate: s <= s_max,
+  };
+}
+
+/**
+ * Calculate concrete modulus of elasticity per ACI 318-19 Section 19.2.2.1(b)
+ * Ec = 57,000·√f'c in psi (4700·√f'c in MPa), normalweight concrete
+ */
+export function calculateEc(fc: number, units: UnitSystem = 'US'): number {
+  const k = units === 'SI' ? 4700 : 57000;
+  return toCustomary(k * Math.sqrt(fromCustomary(fc, 'stress', units)), 'stress', units);
+}
+
+/**
+ * Calculate modulus of rupture per ACI 318-19 Section 19.2.3.1
+ * fr = 7.5·λ·√f'c in psi (0.62·λ·√f'c in MPa)
+ */
+export function calculateModulusOfRupture(fc: number, lambda: number, units: UnitSystem = 'US'): number {
+  const k = units === 'SI' ? 0.62 : 7.5;
+  return toCustomary(k * lambda * Math.sqrt(fromCustomary(fc, 'stress', units)), 'stress', units);
+}
+
+/**
+ * Calculate area, first moment and moment of inertia about depth y0 of the
+ * concrete between the top fiber and depth y. The section is a flange
+ * (width bf, thickness hf) over a web (width bw); rectangular sections pass
+ * bf = bw and hf = 0.
+ */
+function calculateConcreteZone(
+  y: number,
+  y0: number,
+  bw: number,
+  bf: number,
+  hf: number
+): { area: number; moment: number; inertia: number } {
+  // Rectangle of width w between depths y1 and y2
+  const strip = (w: number, y1: number, y2: number) => ({
+    area: w * (y2 - y1),
+    moment: w * ((y0 - y1) ** 2 - (y0 - y2) ** 2) / 2,
+    inertia: w * ((y0 - y1) ** 3 - (y0 - y2) ** 3) / 3,
+  });
+
+  const flange = strip(bf, 0, Math.min(y, hf));
+  if (y <= hf) return flange;
+  const web = strip(bw, hf, y);
+  return {
+    area: flange.area + web.area,
+    moment: flange.moment + web.moment,
+    inertia: flange.inertia + web.inertia,
+  };
+}
+
+/**
+ * Calculate gross moment of inertia of the concrete section about its centroid
+ * Returns Ig and yt, the distance from the centroid to the extreme tension fiber
+ */
+export function calculateGrossSection(
+  h: number,
+  bw: number,
+  bf: number,
+  hf: number
+): { Ig: number; yt: number } {
+  const { area, moment } = calculateConcreteZone(h, 0, bw, bf, hf);
+  // First moment about the top fiber is negative of area·ybar
+  const ybar = -moment / area;
+  const { inertia } = calculateConcreteZone(h, ybar, bw, bf, hf);
+  return { Ig: inertia, yt: h - ybar };
+}
+
+/**
+ * Calculate cracked transformed section properties
+ * The neutral axis kd is found by bisection on the first moment of the
+ * transformed area. Bars above the neutral axis are transformed as (n − 1)·A
+ * (displaced concrete deducted), bars below it as n·A.
+ */
+export function calculateCrackedSection(
+  layers: BarLayer[],
+  h: number,
+  bw: number,
+  bf: number,
+  hf: number,
+  n: number
+): { kd: number; Icr: number } {
+  const barFactor = (depth: number, kd: number) => (depth < kd ? n - 1 : n);
+
+  const firstMoment = (kd: number) => {
+    const concrete = calculateConcreteZone(kd, kd, bw, bf, hf).moment;
+    return layers.reduce(
+      (sum, layer) => sum + barFactor(layer.depth, kd) * calculateLayerArea(layer) * (kd - layer.depth),
+      concrete
+    );
+  };
+
+  // First moment increases with kd; bisect between the faces
+  let lo = 0;
+  let hi = h;
+  for (let i = 0; i < 100; i++) {
+    const kd = (lo + hi) / 2;
+    if (firstMoment(kd) > 0) {
+      hi = kd;
+    } else {
+      lo = kd;
+    }
+  }
+  const kd = (lo + hi) / 2;
+
+  const Icr = layers.reduce(
+    (sum, layer) => sum + barFactor(layer.depth, kd) * calculateLayerArea(layer) * (kd - layer.depth) ** 2,
+    calculateConcreteZone(kd, kd, bw, bf, hf).inertia
+  );
+
+  return { kd, Icr };
+}
+
+/**
+ * Calculate effective moment of inertia per ACI 318-19 Table 24.2.3.5
+ * Ma ≤ 2/3·Mcr: Ie = Ig
+ * Ma > 2/3·Mcr: Ie = Icr / (1 − ((2/3)·Mcr/Ma)²·(1 − Icr/Ig))
+ */
+export function calculateEffectiveInertia(
+  Ma: number,
+  Mcr: number,
+  Ig: number,
+  Icr: number
+): number {
+  if (Ma <= (2 / 3) * Mcr) return Ig;
+  const ratio = ((2 / 3) * Mcr) / Ma;
+  return Icr / (1 - ratio * ratio * (1 - Icr / Ig));
+}
+
+/**
+ * Elastic section properties for deflection
+ * Flanged sections use the effective flange width be for Ig and Icr.
+ */
+export function analyzeServiceProperties(input: BeamInput, bf_eff: number): ServiceResults {
+  const { b, h, fc, Es, lambda, unitSystem: units } = input;
+  const isFlanged = input.sectionShape !== 'rectangular';
+  const bf = isFlanged ? bf_eff : b;
+  const hf = isFlanged ? input.hf : 0;
+
+  const Ec = calculateEc(fc, units);
+  const n = Es / Ec;
+  const fr = calculateModulusOfRupture(fc, lambda, units);
+
+  // Gross section and cracking moment
+  const { Ig, yt } = calculateGrossSection(h, b, bf, hf);
+  const Mcr = fr * Ig / yt;
+
+  // Cracked transformed section with all bar layers
+  const { kd, Icr } = calculateCrackedSection(
+    [...input.tensionLayers, ...input.compressionLayers].filter((layer) => layer.count > 0),
+    h,
+    b,
+    bf,
+    hf,
+    n
+  );
+
+  const Ma = input.Ma * 12000;
+  const Ie = calculateEffectiveInertia(Ma, Mcr, Ig, Icr);
+
+  return {
+    Ec,
+    n,
+    fr,
+    Ig,
+    yt,
+    Mcr,
+    Mcr_kip_ft: Mcr / 12000,
+    kd,
+    Icr,
+    hasServiceMoment: input.Ma > 0,
+    Ma_kip_ft: input.Ma,
+    Ie,
+    isCracked: Ma > (2 / 3) * Mcr,
+  };
+}
+
+/**
+ * Calculate the long-term deflection multiplier per ACI 318-19 Section 24.2.4.1.1
+ * λΔ = ξ / (1 + 50ρ')
+ */
+export function calculateLongTermMultiplier(xi: number, rho_prime: number): number {
+  return xi / (1 + 50 * rho_prime);
+}
+
+/**
+ * Calculate the normalized deflected shape for a uniform load, 0 at the
+ * supports and 1 at the maximum deflection. x is measured from the left
+ * support (the fixed end for cantilevers and one end continuous spans).
+ */
+export function calculateDeflectedShape(support: SupportCondition, points: number = 41): { x: number; y: number }[] {
+  const shape = (x: number) => {
+    switch (support) {
+      case 'one-end-continuous':
+        return x * x * (3 - 5 * x + 2 * x * x);
+      case 'both-ends-continuous':
+        return x * x * (1 - x) * (1 - x);
+      case 'cantilever':
+        return x * x * (6 - 4 * x + x * x);
+      default:
+        return x * (1 - 2 * x * x + x * x * x);
+    }
+  };
+
+  const values = Array.from({ length: points }, (_, i) => {
+    const x = i / (points - 1);
+    return { x, y: shape(x) };
+  });
+  const max = Math.max(...values.map(({ y }) => y));
+  return values.map(({ x, y }) => ({ x, y: max > 0 ? y / max : 0 }));
+}
+
+/**
+ * Member deflection under uniform service loads
+ * Immediate deflections use Ie at the dead and dead + live load moments;
+ * the live load deflection is Δ(D+L) − ΔD. Long-term deflection is λΔ times
+ * the immediate deflection under the sustained load (dead load plus the
+ * sustained portion of the live load). The deflection compared with the
+ * Table 24.2.2 limit is the immediate live load deflection for roofs and
+ * floors, or λΔ·Δsus + ΔL for members supporting nonstructural elements.
+ */
+export function analyzeDeflection(
+  input: BeamInput,
+  service: ServiceResults,
+  rho_prime: number
+): DeflectionResults {
+  const { k, m } = SUPPORT_COEFFICIENTS[input.supportCondition];
+  const span = input.spanLength * 12;
+
+  // Uniform loads in lb/in
+  const w_D = input.deadLoad * 1000 / 12;
+  const w_DL = (input.deadLoad + input.liveLoad) * 1000 / 12;
+
+  // Service moments and effective moments of inertia
+  const Ma_D = m * w_D * span * span;
+  const Ma_DL = m * w_DL * span * span;
+  const Ie_D = calculateEffectiveInertia(Ma_D, service.Mcr, service.Ig, service.Icr);
+  const Ie_DL = calculateEffectiveInertia(Ma_DL, service.Mcr, service.Ig, service.Icr);
+
+  // Immediate deflections
+  const deflection = (w: number, Ie: number) => (Ie > 0 ? k * w * span ** 4 / (service.Ec * Ie) : 0);
+  const delta_D = deflection(w_D, Ie_D);
+  const delta_DL = deflection(w_DL, Ie_DL);
+  const delta_L = delta_DL - delta_D;
+  const delta_sustained = delta_D + (input.sustainedLive / 100) * delta_L;
+
+  // Long-term deflection
+  const lambda_delta = calculateLongTermMultiplier(XI_LONG_TERM, rho_prime);
+  const delta_longTerm = lambda_delta * delta_sustained;
+
+  // Limit check
+  const limitDivisor = DEFLECTION_LIMITS[input.deflectionLimitCase];
+  const isAttached = input.deflectionLimitCase === 'attached-sensitive'
+    || input.deflectionLimitCase === 'attached-nonsensitive';
+  const delta_check = isAttached ? delta_longTerm + delta_L : delta_L;
+  const delta_allow = span / limitDivisor;
+
+  return {
+    hasLoads: span > 0 && input.deadLoad + input.liveLoad > 0,
+    span,
+    Ma_D: Ma_D / 12000,
+    Ma_DL: Ma_DL / 12000,
+    Ie_D,
+    Ie_DL,
+    delta_D,
+    delta_DL,
+    delta_L,
+    delta_sustained,
+    xi: XI_LONG_TERM,
+    rho_prime,
+    lambda_delta,
+    delta_longTerm,
+    delta_check,
+    limitDivisor,
+    delta_allow,
+    isDeflectionAdequate: delta_check <= delta_allow,
+  };
+}
+
+/**
+ * Minimum beam depth per ACI 318-19 Table 9.3.1.1
+ * h,min = ℓ/divisor · (0.4 + fy/100,000) · (1.65 − 0.005wc ≥ 1.09)
+ * (0.4 + fy/700 with fy in MPa and 1.65 − 0.0003wc with wc in kg/m³).
+ * The fy factor applies for fy other than 60,000 psi (Section 9.3.1.1.1);
+ * the lightweight factor uses wc of 115 pcf for sand-lightweight and
+ * 100 pcf for all-lightweight concrete (Section 9.3.1.1.2).
+ * Deflection need not be calculated when h ≥ h,min for members not
+ * supporting or attached to elements likely to be damaged.
+ */
+export function analyzeMinimumThickness(input: BeamInput): MinimumThicknessResults {
+  const span = input.spanLength * 12;
+  const divisor = MIN_THICKNESS_DIVISORS[input.supportCondition];
+  const isSI = input.unitSystem === 'SI';
+  const fyFactor = isSI ? 0.4 + fromCustomary(input.fy, 'stress', 'SI') / 700 : 0.4 + input.fy / 100000;
+  const wc = LIGHTWEIGHT_DENSITY[input.lambda];
+  const densityTerm = isSI ? 0.0003 * wc * KG_M3_PER_PCF : 0.005 * wc;
+  const lightweightFactor = wc !== undefined ? Math.max(1.65 - densityTerm, 1.09) : 1;
+
+  const h_min = span / divisor * fyFactor * lightweightFactor;
+  const isThicknessAdequate = input.h >= h_min;
+
+  return {
+    hasSpan: span > 0,
+    divisor,
+    fyFactor,
+    lightweightFactor,
+    h_min,
+    isThicknessAdequate,
+    canSkipDeflection: isThicknessAdequate && input.deflectionLimitCase !== 'attached-sensitive',
+  };
+}
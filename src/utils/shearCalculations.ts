@@ -0,0 +1,254 @@
+import type { BeamInput, CodeCheckItem, ShearResults, UnitSystem } from '../types/beam';
+import { REBAR_AREAS } from '../types/beam';
+import { summarizeReinforcement } from './reinforcement';
+import { formatQuantity, fromCustomary, toCustomary } from './units';
+
+/**
+ * ACI 318-19 One-Way Shear Design
+ * Calculates shear strength of nonprestressed beams per Chapter 22.5
+ */
+
+// Constants
+const PHI_SHEAR = 0.75;        // Strength reduction factor for shear, Table 21.2.1
+
+/**
+ * Equation constants of ACI 318-19 (psi, in) and ACI 318M-19 (MPa, mm).
+ * Stress terms k·λ·√f'c are evaluated in the units of the selected system
+ * and converted to psi, so forces remain in lb.
+ */
+export const SHEAR_CONSTANTS: Record<UnitSystem, {
+  sqrtFcMax: number;       // √f'c limit, Section 22.5.3.1
+  fytMax: number;          // stirrup yield strength limit, Section 22.5.3.3
+  vcMin: number;           // Vc = vcMin·λ√f'c, Table 22.5.5.1 (a)
+  vcRho: number;           // Vc = vcRho·λ(ρw)^(1/3)√f'c, Table 22.5.5.1 (b), (c)
+  vcMax: number;           // Vc ≤ vcMax·λ√f'c, Section 22.5.5.1.1
+  vsMax: number;           // Vs ≤ vsMax·√f'c, Section 22.5.1.2
+  vsSpacing: number;       // spacing limits halve above vsSpacing·λ√f'c, Table 9.7.6.2.2
+  sMax: [number, number];  // maximum spacing caps, Table 9.7.6.2.2
+  avMinSqrt: number;       // Av,min coefficients, Table 9.6.3.4
+  avMinFlat: number;
+  avMinRequired: number;   // Av,min required above φ·avMinRequired·λ√f'c, Section 9.6.3.1
+  sizeEffectDepth: number; // λs = √(2 / (1 + d/sizeEffectDepth)), Section 22.5.5.1.3
+}> = {
+  US: {
+    sqrtFcMax: 100,
+    fytMax: 60000,
+    vcMin: 2,
+    vcRho: 8,
+    vcMax: 5,
+    vsMax: 8,
+    vsSpacing: 4,
+    sMax: [24, 12],
+    avMinSqrt: 0.75,
+    avMinFlat: 50,
+    avMinRequired: 1,
+    sizeEffectDepth: 10,
+  },
+  SI: {
+    sqrtFcMax: 8.3,
+    fytMax: 420,
+    vcMin: 0.17,
+    vcRho: 0.66,
+    vcMax: 0.42,
+    vsMax: 0.66,
+    vsSpacing: 0.33,
+    sMax: [600, 300],
+    avMinSqrt: 0.062,
+    avMinFlat: 0.35,
+    avMinRequired: 0.083,
+    sizeEffectDepth: 250,
+  },
+};
+
+/**
+ * Calculate √f'c limited to 100 psi (8.3 MPa) per ACI 318-19 Section 22.5.3.1,
+ * in the units of the selected system
+ */
+export function calculateSqrtFc(fc: number, units: UnitSystem = 'US'): number {
+  return Math.min(Math.sqrt(fromCustomary(fc, 'stress', units)), SHEAR_CONSTANTS[units].sqrtFcMax);
+}
+
+/**
+ * Calculate a shear stress k·√f'c (psi) from a coefficient of the selected system
+ */
+function calculateShearStress(k: number, fc: number, units: UnitSystem): number {
+  return toCustomary(k * calculateSqrtFc(fc, units), 'stress', units);
+}
+
+/**
+ * Calculate size effect modification factor per ACI 318-19 Section 22.5.5.1.3
+ * λs = √(2 / (1 + d/10)) ≤ 1.0, d in inches (√(2 / (1 + 0.004d)), d in mm)
+ */
+export function calculateSizeEffectFactor(d: number, units: UnitSystem = 'US'): number {
+  const dValue = fromCustomary(d, 'length', units);
+  return Math.min(1.0, Math.sqrt(2 / (1 + dValue / SHEAR_CONSTANTS[units].sizeEffectDepth)));
+}
+
+/**
+ * Calculate minimum shear reinforcement per ACI 318-19 Table 9.6.3.4
+ * Av,min/s = max(0.75√f'c · bw / fyt, 50 · bw / fyt) in psi
+ * Av,min/s = max(0.062√f'c · bw / fyt, 0.35 · bw / fyt) in MPa
+ */
+export function calculateAvMin(
+  fc: number,
+  bw: number,
+  s: number,
+  fyt: number,
+  units: UnitSystem = 'US'
+): number {
+  const { avMinSqrt, avMinFlat } = SHEAR_CONSTANTS[units];
+  const stress = Math.max(avMinSqrt * Math.sqrt(fromCustomary(fc, 'stress', units)), avMinFlat);
+  return toCustomary(stress, 'stress', units) * bw * s / fyt;
+}
+
+/**
+ * Calculate concrete shear strength Vc per ACI 318-19 Table 22.5.5.1 (Nu = 0)
+ * Av ≥ Av,min: Vc = max(2λ√f'c, 8λ(ρw)^(1/3)√f'c) · bw · d   (a), (b)
+ * Av < Av,min: Vc = 8λsλ(ρw)^(1/3)√f'c · bw · d              (c)
+ * Vc ≤ 5λ√f'c · bw · d per Section 22.5.5.1.1
+ * (0.17, 0.66 and 0.42 in place of 2, 8 and 5 in MPa)
+ */
+export function calculateVc(
+  fc: number,
+  bw: number,
+  d: number,
+  rho_w: number,
+  lambda: number,
+  hasMinimumStirrups: boolean,
+  units: UnitSystem = 'US'
+): number {
+  const { vcMin, vcRho, vcMax } = SHEAR_CONSTANTS[units];
+  const rhoTerm = lambda * Math.cbrt(rho_w) * calculateShearStress(vcRho, fc, units);
+
+  const vc = hasMinimumStirrups
+    ? Math.max(lambda * calculateShearStress(vcMin, fc, units), rhoTerm)
+    : calculateSizeEffectFactor(d, units) * rhoTerm;
+
+  return Math.min(vc, lambda * calculateShearStress(vcMax, fc, units)) * bw * d;
+}
+
+/**
+ * Calculate stirrup shear strength per ACI 318-19 Section 22.5.8.5.3
+ * Vs = Av · fyt · d / s
+ */
+export function calculateVs(
+  Av: number,
+  fyt: number,
+  d: number,
+  s: number
+): number {
+  if (s <= 0) return 0;
+  return Av * fyt * d / s;
+}
+
+/**
+ * Calculate maximum stirrup spacing per ACI 318-19 Table 9.7.6.2.2
+ * Vs ≤ 4λ√f'c·bw·d: smax = min(d/2, 24 in)
+ * Vs > 4λ√f'c·bw·d: smax = min(d/4, 12 in)
+ * (0.33λ√f'c, 600 mm and 300 mm in MPa)
+ */
+export function calculateMaxStirrupSpacing(
+  Vs: number,
+  fc: number,
+  bw: number,
+  d: number,
+  lambda: number = 1,
+  units: UnitSystem = 'US'
+): number {
+  const { vsSpacing, sMax } = SHEAR_CONSTANTS[units];
+  const vs = lambda * toCustomary(vsSpacing * Math.sqrt(fromCustomary(fc, 'stress', units)), 'stress', units);
+  if (Vs <= vs * bw * d) {
+    return Math.min(d / 2, toCustomary(sMax[0], 'length', units));
+  }
+  return Math.min(d / 4, toCustomary(sMax[1], 'length', units));
+}
+
+/**
+ * Main calculation function - performs complete one-way shear check
+ * Uses the web width b, and the effective depth d and tension steel As
+ * derived from the bar layers; stirrup yield strength is taken as fy,
+ * limited to 60 ksi (420 MPa).
+ */
+export function analyzeShear(input: BeamInput): ShearResults {
+  const { b, fc, fy, stirrupBar, stirrupLegs, stirrupSpacing, lambda, unitSystem: units } = input;
+  const { As, d } = summarizeReinforcement(input);
+  const warnings: CodeCheckItem[] = [];
+
+  const Vu = input.Vu * 1000;
+  const constants = SHEAR_CONSTANTS[units];
+  const fyt = Math.min(fy, toCustomary(constants.fytMax, 'stress', units));
+  const hasStirrups = stirrupSpacing > 0 && stirrupLegs > 0;
+
+  // Shear reinforcement
+  const Av = hasStirrups ? (REBAR_AREAS[stirrupBar] ?? 0) * stirrupLegs : 0;
+
+  // Stirrup contribution, limited by the section dimension check
+  const Vs = hasStirrups ? calculateVs(Av, fyt, d, stirrupSpacing) : 0;
+  const Vs_max = calculateShearStress(constants.vsMax, fc, units) * b * d;
+  const s_max = calculateMaxStirrupSpacing(Vs, fc, b, d, lambda, units);
+
+  // Av,min over the stirrup spacing, or over the maximum spacing when stirrups
+  // are required but none are provided
+  const isAvMinRequired = Vu > PHI_SHEAR * lambda * calculateShearStress(constants.avMinRequired, fc, units) * b * d;
+  const Av_min = hasStirrups || isAvMinRequired
+    ? calculateAvMin(fc, b, hasStirrups ? stirrupSpacing : s_max, fyt, units)
+    : 0;
+  const hasMinimumStirrups = hasStirrups && Av >= Av_min;
+
+  // Concrete contribution
+  const rho_w = As / (b * d);
+  const lambda_s = calculateSizeEffectFactor(d, units);
+  const Vc = calculateVc(fc, b, d, rho_w, lambda, hasMinimumStirrups, units);
+
+  const Vn = Vc + Math.min(Vs, Vs_max);
+  const phiVn = PHI_SHEAR * Vn;
+
+  // Perform checks
+  const isStrengthAdequate = phiVn >= Vu;
+  const isSectionAdequate = Vu <= PHI_SHEAR * (Vc + Vs_max);
+  const isSpacingAdequate = !hasStirrups || stirrupSpacing <= s_max;
+  const isAvMinSatisfied = !isAvMinRequired || hasMinimumStirrups;
+
+  // Generate warnings
+  if (!isStrengthAdequate) {
+    warnings.push({ severity: 'warning', message: `Design shear strength (${formatQuantity(phiVn / 1000, 'force', units, 1)}) is less than Vu (${formatQuantity(input.Vu, 'force', units, 1)}). Reduce stirrup spacing or increase section.` });
+  }
+
+  if (!isSectionAdequate) {
+    warnings.push({ severity: 'error', message: `Vu exceeds φ(Vc + ${constants.vsMax}√f'c·bw·d). Section dimensions must be increased per ACI 318-19 Section 22.5.1.2.` });
+  }
+
+  if (!isSpacingAdequate) {
+    warnings.push({ severity: 'warning', message: `Stirrup spacing (${formatQuantity(stirrupSpacing, 'length', units, 2)}) exceeds maximum (${formatQuantity(s_max, 'length', units, 2)}) per ACI 318-19 Table 9.7.6.2.2.` });
+  }
+
+  if (!isAvMinSatisfied) {
+    warnings.push({ severity: 'warning', message: `Av (${formatQuantity(Av, 'area', units, 2)}) is less than Av,min (${formatQuantity(Av_min, 'area', units, 2)}) required when Vu > φλ√f'c·bw·d.` });
+  }
+
+  if (!hasStirrups && isAvMinRequired) {
+    warnings.push({ severity: 'warning', message: `No stirrups provided but minimum shear reinforcement is required (Av,min = ${formatQuantity(Av_min, 'area', units, 2)} at s,max = ${formatQuantity(s_max, 'length', units, 2)}).` });
+  }
+
+  return {
+    lambda_s,
+    rho_w,
+    Vc,
+    Av,
+    Av_min,
+    fyt,
+    Vs,
+    Vs_max,
+    s_max,
+    phi: PHI_SHEAR,
+    Vn,
+    phiVn,
+    Vu,
+    isStrengthAdequate,
+    isSectionAdequate,
+    isSpacingAdequate,
+    isAvMinRequired,
+    isAvMinSatisfied,
+    warnings,
+  };
+}
@@ -0,0 +1,122 @@
+import type { Revision, TitleBlock } from '../types/beam';
+import { DEFAULT_TITLE_BLOCK } from '../types/beam';
+import { isObject } from './projectFile';
+
+/**
+ * PDF Title Block
+ * Company branding, QA names and the revision table printed in the PDF
+ * header. They belong to the office rather than to one project, so they are
+ * kept in browser storage and reused by every export.
+ */
+
+const STORAGE_KEY = 'beam-section-calculator.title-block';
+
+// Largest logo accepted; it is stored as a data URL and embedded in every PDF
+const MAX_LOGO_BYTES = 500 * 1024;
+
+// Revisions listed in the header; earlier ones are left to the project records
+export const HEADER_REVISIONS = 4;
+
+const TEXT_FIELDS = ['companyName', 'logo', 'client', 'checker', 'sheetNumber'] as const;
+const REVISION_FIELDS: (keyof Revision)[] = ['rev', 'date', 'description', 'by'];
+
+/**
+ * Title block saved in browser storage; fields that are missing or of the
+ * wrong type take their defaults
+ */
+export function loadTitleBlock(): TitleBlock {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = stored ? JSON.parse(stored) : null;
+    if (isObject(data)) {
+      const titleBlock = { ...DEFAULT_TITLE_BLOCK };
+      TEXT_FIELDS.forEach((field) => {
+        const value = data[field];
+        if (typeof value === 'string') titleBlock[field] = value;
+      });
+      if (Array.isArray(data.revisions)) {
+        titleBlock.revisions = data.revisions.filter(isObject).map((revision) => {
+          const entry = { rev: '', date: '', description: '', by: '' };
+          REVISION_FIELDS.forEach((field) => {
+            const value = revision[field];
+            if (typeof value === 'string') entry[field] = value;
+          });
+          return entry;
+        });
+      }
+      return titleBlock;
+    }
+  } catch (error) {
+    console.error('Error reading the saved title block:', error);
+  }
+  return DEFAULT_TITLE_BLOCK;
+}
+
+/**
+ * Save the title block in browser storage
+ */
+export function storeTitleBlock(titleBlock: TitleBlock): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(titleBlock));
+  } catch (error) {
+    console.error('Error saving the title block:', error);
+  }
+}
+
+/**
+ * Read a PNG or JPEG logo as a data URL
+ */
+export function readLogoFile(file: File): Promise<string> {
+  if (!['image/png', 'image/jpeg'].includes(file.type)) {
+    return Promise.reject(new Error('The logo must be a PNG or JPEG image.'));
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    return Promise.reject(new Error(`The logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB.`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('The logo could not be read.'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Image format of a logo data URL, for the PDF
+ */
+export function logoFormat(logo: string): 'PNG' | 'JPEG' {
+  return logo.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+}
+
+/**
+ * Next revision mark after the last one: A after none, B after A, 1 after 0
+ */
+export function nextRevisionMark(revisions: Revision[]): string {
+  const last = revisions[revisions.length - 1]?.rev.trim() ?? '';
+  if (/^\d+$/.test(last)) return String(Number(last) + 1);
+  if (/^[A-Y]$/i.test(last)) return String.fromCharCode(last.charCodeAt(0) + 1);
+  return last ? '' : 'A';
+}
+
+/**
+ * Latest revision mark, or '-' before the first issue
+ */
+export function currentRevision(titleBlock: TitleBlock): string {
+  return titleBlock.revisions[titleBlock.revisions.length - 1]?.rev || '-';
+}
+
+/**
+ * Sheet number of a beam in a calculation package: the package sheet with the
+ * beam's place in the package, e.g. S-101.2 for the second beam
+ */
+export function packageSheetNumber(sheetNumber: string, index: number): string {
+  return sheetNumber ? `${sheetNumber}.${index + 1}` : '';
+}
+
+/**
+ * Whether the header needs the branding row of logo, company, sheet and
+ * revision
+ */
+export function hasBranding(titleBlock: TitleBlock): boolean {
+  return Boolean(titleBlock.companyName || titleBlock.logo || titleBlock.sheetNumber || titleBlock.revisions.length);
+}
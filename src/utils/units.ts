@@ -0,0 +1,217 @@
+import type { UnitSystem } from '../types/beam';
+
+/**
+ * Unit conversion for display and input
+ *
+ * All calculations run in US customary units (in, psi, lb). SI values are
+ * converted at the boundary: the input form converts what the user types, and
+ * results are converted when they are displayed or exported. Equations with
+ * dimensional constants evaluate the ACI 318M form (MPa, mm) when SI is
+ * selected, so results match a metric hand calculation.
+ */
+
+// Physical quantities, with the customary unit each is stored in
+export type Quantity =
+  | 'length'    // in
+  | 'span'      // ft
+  | 'area'      // in²
+  | 'inertia'   // in⁴
+  | 'stress'    // psi
+  | 'force'     // kips
+  | 'moment'    // kip-ft
+  | 'lineLoad'  // kip/ft
+  | 'curvature'; // 1/in
+
+// SI units per customary unit
+const SI_FACTORS: Record<Quantity, number> = {
+  length: 25.4,              // mm per in
+  span: 0.3048,              // m per ft
+  area: 645.16,              // mm² per in²
+  inertia: 0.41623143,       // 10⁶ mm⁴ per in⁴
+  stress: 0.0068947573,      // MPa per psi
+  force: 4.4482216,          // kN per kip
+  moment: 1.3558179,         // kN·m per kip-ft
+  lineLoad: 14.593903,       // kN/m per kip/ft
+  curvature: 39.370079,      // 1/m per 1/in
+};
+
+// Decimal places added (or removed) when a value is shown in SI
+const SI_DECIMAL_SHIFT: Record<Quantity, number> = {
+  length: -2,
+  span: 1,
+  area: -2,
+  inertia: 0,
+  stress: 2,
+  force: 0,
+  moment: 0,
+  lineLoad: 0,
+  curvature: -2,
+};
+
+const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+  US: {
+    length: 'in',
+    span: 'ft',
+    area: 'in²',
+    inertia: 'in⁴',
+    stress: 'psi',
+    force: 'kips',
+    moment: 'kip-ft',
+    lineLoad: 'kip/ft',
+    curvature: '1/in',
+  },
+  SI: {
+    length: 'mm',
+    span: 'm',
+    area: 'mm²',
+    inertia: '×10⁶ mm⁴',
+    stress: 'MPa',
+    force: 'kN',
+    moment: 'kN·m',
+    lineLoad: 'kN/m',
+    curvature: '1/m',
+  },
+};
+
+// The PDF fonts only cover ASCII
+const PDF_UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+  US: {
+    length: 'in',
+    span: 'ft',
+    area: 'in^2',
+    inertia: 'in^4',
+    stress: 'psi',
+    force: 'kips',
+    moment: 'kip-ft',
+    lineLoad: 'kip/ft',
+    curvature: '1/in',
+  },
+  SI: {
+    length: 'mm',
+    span: 'm',
+    area: 'mm^2',
+    inertia: 'x10^6 mm^4',
+    stress: 'MPa',
+    force: 'kN',
+    moment: 'kN-m',
+    lineLoad: 'kN/m',
+    curvature: '1/m',
+  },
+};
+
+// ACI 318M designations of the same bars (soft metric)
+const METRIC_BAR_SIZES: { [key: string]: string } = {
+  '#3': 'No. 10',
+  '#4': 'No. 13',
+  '#5': 'No. 16',
+  '#6': 'No. 19',
+  '#7': 'No. 22',
+  '#8': 'No. 25',
+  '#9': 'No. 29',
+  '#10': 'No. 32',
+  '#11': 'No. 36',
+  '#14': 'No. 43',
+  '#18': 'No. 57',
+};
+
+/**
+ * Convert a value from its customary unit to the display unit system
+ */
+export function fromCustomary(value: number, quantity: Quantity, units: UnitSystem): number {
+  return units === 'SI' ? value * SI_FACTORS[quantity] : value;
+}
+
+/**
+ * Convert a value in the display unit system back to its customary unit
+ */
+export function toCustomary(value: number, quantity: Quantity, units: UnitSystem): number {
+  return units === 'SI' ? value / SI_FACTORS[quantity] : value;
+}
+
+/**
+ * Value for a number input, rounded so that converted values do not
+ * show floating-point noise (e.g. 304.8 rather than 304.79999999999995)
+ */
+export function toInputValue(value: number, quantity: Quantity, units: UnitSystem): number {
+  return units === 'SI' ? Number(fromCustomary(value, quantity, units).toPrecision(6)) : value;
+}
+
+/**
+ * Unit label for a quantity, e.g. 'in' or 'mm'
+ */
+export function unitLabel(quantity: Quantity, units: UnitSystem, ascii: boolean = false): string {
+  return (ascii ? PDF_UNIT_LABELS : UNIT_LABELS)[units][quantity];
+}
+
+/**
+ * Format a customary value in the display unit system with its unit label.
+ * decimals is the precision in customary units; SI values are shown with
+ * the precision adjusted to the size of the SI unit.
+ */
+export function formatQuantity(
+  value: number,
+  quantity: Quantity,
+  units: UnitSystem,
+  decimals: number,
+  ascii: boolean = false
+): string {
+  if (!isFinite(value)) return 'N/A';
+  return `${formatValue(value, quantity, units, decimals)} ${unitLabel(quantity, units, ascii)}`;
+}
+
+/**
+ * Format a customary value in the display unit system without its label,
+ * e.g. for the substituted values in an equation
+ */
+export function formatValue(value: number, quantity: Quantity, units: UnitSystem, decimals: number): string {
+  if (!isFinite(value)) return 'N/A';
+  const places = Math.max(0, units === 'SI' ? decimals + SI_DECIMAL_SHIFT[quantity] : decimals);
+  const converted = fromCustomary(value, quantity, units);
+  // Stresses in psi are grouped by thousands, as elsewhere in the app
+  return quantity === 'stress' && places === 0
+    ? Math.round(converted).toLocaleString()
+    : converted.toFixed(places);
+}
+
+/**
+ * Bar designation in the display unit system, e.g. '#8' or 'No. 25'
+ */
+export function formatBarSize(barSize: string, units: UnitSystem): string {
+  return units === 'SI' ? METRIC_BAR_SIZES[barSize] ?? barSize : barSize;
+}
+
+/**
+ * Bar size key for a designation, e.g. '#8' gives '#8'. 'No. 25' and a bare
+ * '25' are read in the given unit system, so '10' is #10 in US units and
+ * No. 10 (#3) in SI. CSA sizes such as '25M' have other areas and are not
+ * listed bars; null for those and other unknown designations.
+ */
+export function parseBarSize(designation: string, units: UnitSystem): string | null {
+  const text = designation.trim().toUpperCase();
+  const match = /^(#|NO\.?)?\s*(\d+)$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const number = Number(match[2]);
+  if (match[1] === '#' || units === 'US') {
+    const barSize = `#${number}`;
+    return barSize in METRIC_BAR_SIZES ? barSize : null;
+  }
+  const name = `No. ${number}`;
+  return Object.keys(METRIC_BAR_SIZES).find((barSize) => METRIC_BAR_SIZES[barSize] === name) ?? null;
+}
+
+/**
+ * Strength options (customary values) for a select in the display units:
+ * the customary list in US units, the SI list converted otherwise. The
+ * current value stays listed so a unit switch does not change it.
+ */
+export function listStrengthOptions(
+  customary: number[],
+  si: number[],
+  current: number,
+  units: UnitSystem
+): number[] {
+  const options = units === 'SI' ? si.map((value) => toCustomary(value, 'stress', 'SI')) : customary;
+  return options.includes(current) ? options : [...options, current].sort((x, y) => x - y);
+}
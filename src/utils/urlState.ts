@@ -0,0 +1,124 @@
+import type { BeamInput, Workspace } from '../types/beam';
+import { DEFAULT_BEAM_INPUT } from '../types/beam';
+import type { JsonObject, ProjectFileError } from './projectFile';
+import { isObject, readBeamInput } from './projectFile';
+import { calculateBeamResults, getActiveBeam, nextBeamName, openBeam } from './workspace';
+
+/**
+ * Shareable Links
+ * The beam being edited is kept in the URL hash so a calculation can be sent
+ * as a link:
+ *
+ *   #beam=<base64url JSON { n: beam name, i: BeamInput fields } >
+ *
+ * Only the fields that differ from DEFAULT_BEAM_INPUT are written, which keeps
+ * links short. Values are in US customary units, as in BeamInput; the unit
+ * system, design code and Mu travel with the other fields.
+ */
+
+const HASH_PREFIX = '#beam=';
+
+export type BeamHashResult =
+  | { kind: 'none' }
+  | { kind: 'ok'; name: string | null; input: BeamInput }
+  | { kind: 'invalid'; errors: ProjectFileError[] };
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * URL hash for a beam
+ */
+export function encodeBeamHash(input: BeamInput, name: string): string {
+  const changed: JsonObject = {};
+  (Object.keys(DEFAULT_BEAM_INPUT) as (keyof BeamInput)[]).forEach((key) => {
+    if (JSON.stringify(input[key]) !== JSON.stringify(DEFAULT_BEAM_INPUT[key])) {
+      changed[key] = input[key];
+    }
+  });
+  return HASH_PREFIX + toBase64Url(JSON.stringify({ n: name, i: changed }));
+}
+
+/**
+ * Read a beam from a URL hash. Hashes that are not beam links are ignored;
+ * a beam link with a malformed or out-of-range value, or whose values together
+ * do not describe a beam that can be analyzed, is reported as invalid. A beam
+ * that can be analyzed opens even if it fails checks; they show in the results.
+ */
+export function decodeBeamHash(hash: string): BeamHashResult {
+  if (!hash.startsWith(HASH_PREFIX)) {
+    return { kind: 'none' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    return { kind: 'invalid', errors: [{ field: 'link', message: 'is damaged or incomplete' }] };
+  }
+  if (!isObject(data) || !isObject(data.i)) {
+    return { kind: 'invalid', errors: [{ field: 'link', message: 'does not describe a beam' }] };
+  }
+
+  const errors: ProjectFileError[] = [];
+  const input = readBeamInput(data.i, errors);
+  if (errors.length > 0) {
+    return { kind: 'invalid', errors };
+  }
+
+  // Values can each be in range and still not make a beam, e.g. a bar below h
+  const results = calculateBeamResults(input);
+  if (!results) {
+    return {
+      kind: 'invalid',
+      errors: [{ field: 'link', message: 'does not describe a beam that can be analyzed; check the dimensions and bar layers' }],
+    };
+  }
+
+  const name = typeof data.n === 'string' && data.n.trim() ? data.n.trim() : null;
+  return { kind: 'ok', name, input };
+}
+
+/**
+ * Open the beam of a shared link in the workspace. A beam already in the
+ * workspace with the same name and input is selected; otherwise the linked
+ * beam is added. An invalid link selects a default beam, added only if the
+ * workspace has none, and returns the problems so they can be shown.
+ */
+export function applyBeamHash(
+  workspace: Workspace,
+  hash: string
+): { workspace: Workspace; errors: ProjectFileError[] } {
+  // The page's own address after a reload; the beam is already selected, even
+  // while its input is incomplete
+  const active = getActiveBeam(workspace);
+  if (hash === encodeBeamHash(active.input, active.name)) {
+    return { workspace, errors: [] };
+  }
+
+  const decoded = decodeBeamHash(hash);
+  if (decoded.kind === 'none') {
+    return { workspace, errors: [] };
+  }
+
+  if (decoded.kind === 'ok') {
+    return { workspace: openBeam(workspace, decoded.name ?? nextBeamName(workspace.beams), decoded.input), errors: [] };
+  }
+  const defaultKey = JSON.stringify(DEFAULT_BEAM_INPUT);
+  const defaultBeam = workspace.beams.find(({ input }) => JSON.stringify(input) === defaultKey);
+  return {
+    workspace: defaultBeam
+      ? { ...workspace, activeId: defaultBeam.id }
+      : openBeam(workspace, nextBeamName(workspace.beams), DEFAULT_BEAM_INPUT),
+    errors: decoded.errors,
+  };
+}
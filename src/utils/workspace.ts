@@ -0,0 +1,203 @@
+import type { BeamEntry, BeamInput, BeamResults, Workspace } from '../types/beam';
+import { DEFAULT_BEAM_INPUT, DEFAULT_PROJECT_INFO } from '../types/beam';
+import { analyzeBeam, orientSection } from './beamCalculations';
+import type { ProjectFileError } from './projectFile';
+import { checkInputRanges, restoreProject, serializeProject } from './projectFile';
+import { summarizeReinforcement } from './reinforcement';
+
+/**
+ * Project Workspace
+ * The named beams of a job. The workspace is kept in browser storage in the
+ * project file format, so it survives reloads and upgrades like a saved file.
+ */
+
+const STORAGE_KEY = 'beam-section-calculator.workspace';
+
+// Copy of stored data that could not be fully restored, kept before it is
+// overwritten
+const BACKUP_KEY = 'beam-section-calculator.workspace-backup';
+
+/**
+ * Unique id for a new beam
+ */
+export function createBeamId(): string {
+  return `beam-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Next unused beam mark of the form B-n
+ */
+export function nextBeamName(beams: BeamEntry[]): string {
+  const numbers = beams.map(({ name }) => Number(/^B-(\d+)$/.exec(name)?.[1] ?? 0));
+  return `B-${Math.max(0, ...numbers) + 1}`;
+}
+
+/**
+ * Workspace with a single default beam
+ */
+export function createWorkspace(): Workspace {
+  const beam = { id: createBeamId(), name: 'B-1', input: DEFAULT_BEAM_INPUT };
+  return { project: DEFAULT_PROJECT_INFO, beams: [beam], activeId: beam.id };
+}
+
+/**
+ * Beam being edited
+ */
+export function getActiveBeam(workspace: Workspace): BeamEntry {
+  return workspace.beams.find(({ id }) => id === workspace.activeId) ?? workspace.beams[0];
+}
+
+/**
+ * Replace the input of the beam being edited
+ */
+export function updateActiveInput(workspace: Workspace, input: BeamInput): Workspace {
+  const active = getActiveBeam(workspace);
+  return {
+    ...workspace,
+    beams: workspace.beams.map((beam) => (beam.id === active.id ? { ...beam, input } : beam)),
+  };
+}
+
+/**
+ * Add a default beam after the others, keeping the units and code of the
+ * beam being edited, and select it
+ */
+export function addBeam(workspace: Workspace): Workspace {
+  const { unitSystem, designCode } = getActiveBeam(workspace).input;
+  const beam = { id: createBeamId(), name: nextBeamName(workspace.beams), input: { ...DEFAULT_BEAM_INPUT, unitSystem, designCode } };
+  return { ...workspace, beams: [...workspace.beams, beam], activeId: beam.id };
+}
+
+/**
+ * Open a beam from outside the workspace (a shared link or an imported
+ * schedule row). A beam with the same name and input is selected rather
+ * than added again.
+ */
+export function openBeam(workspace: Workspace, name: string, input: BeamInput): Workspace {
+  const key = JSON.stringify(input);
+  const existing = workspace.beams.find((beam) => beam.name === name && JSON.stringify(beam.input) === key);
+  if (existing) {
+    return { ...workspace, activeId: existing.id };
+  }
+  const beam = { id: createBeamId(), name, input };
+  return { ...workspace, beams: [...workspace.beams, beam], activeId: beam.id };
+}
+
+/**
+ * Copy a beam next to the original and select the copy
+ */
+export function duplicateBeam(workspace: Workspace, id: string): Workspace {
+  const index = workspace.beams.findIndex((beam) => beam.id === id);
+  if (index < 0) return workspace;
+  const original = workspace.beams[index];
+  const copy = { ...original, id: createBeamId(), name: `${original.name} (copy)` };
+  const beams = [...workspace.beams.slice(0, index + 1), copy, ...workspace.beams.slice(index + 1)];
+  return { ...workspace, beams, activeId: copy.id };
+}
+
+/**
+ * Rename a beam; blank names are ignored
+ */
+export function renameBeam(workspace: Workspace, id: string, name: string): Workspace {
+  const trimmed = name.trim();
+  if (!trimmed) return workspace;
+  return {
+    ...workspace,
+    beams: workspace.beams.map((beam) => (beam.id === id ? { ...beam, name: trimmed } : beam)),
+  };
+}
+
+/**
+ * Delete a beam, selecting its neighbour if it was being edited.
+ * The last beam cannot be deleted.
+ */
+export function deleteBeam(workspace: Workspace, id: string): Workspace {
+  const index = workspace.beams.findIndex((beam) => beam.id === id);
+  if (index < 0 || workspace.beams.length === 1) return workspace;
+  const beams = workspace.beams.filter((beam) => beam.id !== id);
+  const activeId = workspace.activeId === id ? beams[Math.min(index, beams.length - 1)].id : workspace.activeId;
+  return { ...workspace, beams, activeId };
+}
+
+/**
+ * Workspace saved in browser storage, or a new one if there is none.
+ * Values that cannot be read take their defaults and unreadable beams are
+ * left out; the stored data is then copied to a backup, since the restored
+ * workspace replaces it, and the problems are returned so they can be shown.
+ */
+export function loadWorkspace(): { workspace: Workspace; errors: ProjectFileError[] } {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const { workspace, errors } = restoreProject(stored);
+      if (errors.length > 0) {
+        localStorage.setItem(BACKUP_KEY, stored);
+      }
+      return { workspace: workspace ?? createWorkspace(), errors };
+    }
+  } catch (error) {
+    console.error('Error reading the saved workspace:', error);
+  }
+  return { workspace: createWorkspace(), errors: [] };
+}
+
+/**
+ * Save the workspace in browser storage
+ */
+export function storeWorkspace(workspace: Workspace): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeProject(workspace));
+  } catch (error) {
+    console.error('Error saving the workspace:', error);
+  }
+}
+
+/**
+ * Whether a beam passes: analyzed without input errors, with the moment
+ * demand within the design capacity, the shear checks satisfied and any
+ * axial load inside the interaction diagram
+ */
+export function isBeamAdequate(results: BeamResults | null): boolean {
+  if (!results || results.warnings.some(({ severity }) => severity === 'error')) return false;
+  const { shear } = results;
+  const isShearAdequate = shear.isStrengthAdequate && shear.isSectionAdequate
+    && shear.isSpacingAdequate && shear.isAvMinSatisfied;
+  return results.isMomentAdequate && isShearAdequate && (!results.interaction || results.interaction.isAdequate);
+}
+
+// Results by input; edits replace the input object, so unchanged beams are not reanalyzed
+const resultsCache = new WeakMap<BeamInput, BeamResults | null>();
+
+/**
+ * Analyze a beam, or return null if its input is incomplete. Values out of
+ * range are reported as input errors with the results.
+ */
+export function calculateBeamResults(input: BeamInput): BeamResults | null {
+  const cached = resultsCache.get(input);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Validate the tension steel for the selected moment sign before calculating
+  const { As, d } = summarizeReinforcement(orientSection(input));
+  const isValid = input.b > 0 &&
+    input.h > 0 &&
+    input.fc > 0 &&
+    input.fy > 0 &&
+    input.Es > 0 &&
+    As > 0 &&
+    d > 0 &&
+    d <= input.h &&
+    (input.sectionShape === 'rectangular' || (input.bf > 0 && input.hf > 0));
+
+  const analyzed = isValid ? analyzeBeam(input) : null;
+  const rangeErrors = checkInputRanges(input).map(({ field, message }) => ({
+    severity: 'error' as const,
+    message: `${field} ${message}. Check input values.`,
+  }));
+  const results = analyzed && rangeErrors.length > 0
+    ? { ...analyzed, warnings: [...rangeErrors, ...analyzed.warnings] }
+    : analyzed;
+  resultsCache.set(input, results);
+  return results;
+}